@@ -1,89 +1,186 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import AccessCodeModal from './components/AccessCodeModal';
 import LandingPage from './components/LandingPage';
-import { FEATURES, ACCESS_CODES } from './constants';
-import type { Feature } from './types';
+import CommandPalette from './components/CommandPalette';
+import UsageDashboard from './components/UsageDashboard';
+import SearchPanel from './components/SearchPanel';
+import ApiKeySettings from './components/ApiKeySettings';
+import ApiKeyPrompt from './components/ApiKeyPrompt';
+import ModelSettings from './components/ModelSettings';
+import { FEATURES } from './constants';
+import { getProviderId, setActiveFeature } from './services/providers';
+import { canUseFeature, getTier, requiredTier, setActiveTier } from './services/entitlements';
+import { usePremiumAccess } from './hooks/usePremiumAccess';
+import { useTranslation } from './hooks/useTranslation';
+import { useApiKeyStatus } from './hooks/useApiKey';
+import { RouteContext, useHashRoute } from './hooks/useRoute';
+import { useGlobalShortcuts } from './hooks/useGlobalShortcuts';
+import type { FeatureRoute } from './hooks/useRoute';
+import type { SearchDocument } from './services/searchIndex';
+import type { Conversation, Feature } from './types';
+
+const DEFAULT_FEATURE_ID = 'ai-chat';
 
 const App: React.FC = () => {
-  const [view, setView] = useState<'landing' | 'app'>('landing');
-  const [selectedFeature, setSelectedFeature] = useState<Feature | null>(null);
-  const [isPremium, setIsPremium] = useState(false);
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const { t } = useTranslation();
+  const { route, navigate } = useHashRoute();
+  const routeContext = useMemo(() => ({ route, navigate }), [route, navigate]);
+  const { access: premiumAccess, tier, unlock, signOut } = usePremiumAccess();
+  // A locked route the user asked for; the access code modal is open while it is set,
+  // and the app continues there once a code unlocks it.
+  const [pendingRoute, setPendingRoute] = useState<FeatureRoute | null>(null);
   const [modalError, setModalError] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isApiKeyOpen, setIsApiKeyOpen] = useState(false);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const apiKeyStatus = useApiKeyStatus();
+
+  const view = route.name === 'feature' ? 'app' : 'landing';
+  const selectedFeature = route.name === 'feature' ? FEATURES.find(f => f.id === route.featureId) || null : null;
+  const pendingFeature = pendingRoute ? FEATURES.find(f => f.id === pendingRoute.featureId) || null : null;
+
+  const isLocked = useCallback((feature: Feature) => !canUseFeature(tier.id, feature.id), [tier]);
 
-  // Safeguard to ensure a feature is always selected in app view
+  // Keep the route on a feature the user may open. Unknown feature ids fall back to the
+  // default feature, as does losing access to the current one (sign-out, expiry or
+  // revocation); arriving at a locked feature by link or history asks for a code instead.
+  const previousTier = useRef(tier.id);
   useEffect(() => {
-    if (view === 'app' && !selectedFeature) {
-      setSelectedFeature(FEATURES.find(f => f.id === 'ai-chat') || null);
+    const tierChanged = previousTier.current !== tier.id;
+    previousTier.current = tier.id;
+    if (route.name !== 'feature') return;
+    if (!selectedFeature || (tierChanged && isLocked(selectedFeature))) {
+      navigate({ name: 'feature', featureId: DEFAULT_FEATURE_ID }, { replace: true });
+    } else if (isLocked(selectedFeature)) {
+      setPendingRoute(route);
+      setModalError(null);
+      navigate({ name: 'landing' }, { replace: true });
+    }
+  }, [route, selectedFeature, tier, isLocked, navigate]);
+
+  useLayoutEffect(() => {
+    setActiveTier(tier.id);
+  }, [tier]);
+
+  // Tell the service layer which feature is on screen so it can route calls to the
+  // provider configured for it. A layout effect runs before the feature's own
+  // effects, so chats created on mount already see the right provider.
+  useLayoutEffect(() => {
+    setActiveFeature(selectedFeature?.id ?? null);
+  }, [selectedFeature]);
+
+  // The sidebar is an overlay on small screens and a fixed column on wide ones.
+  const toggleSidebar = useCallback(() => {
+    if (window.matchMedia('(min-width: 768px)').matches) {
+      setIsSidebarCollapsed(collapsed => !collapsed);
+    } else {
+      setIsSidebarOpen(open => !open);
     }
-  }, [view, selectedFeature]);
+  }, []);
+
+  useGlobalShortcuts({
+    togglePalette: () => setIsPaletteOpen(open => !open),
+    toggleSidebar,
+    openSearch: () => openSearch(),
+  });
+
+  const handleOpenConversation = useCallback((conversation: Conversation) => {
+    navigate({ name: 'feature', featureId: conversation.featureId, personaId: conversation.personaId, conversationId: conversation.id });
+  }, [navigate]);
+
+  const handleOpenMessage = useCallback((document: SearchDocument) => {
+    if (!document.featureId || !document.conversationId) return;
+    navigate({ name: 'feature', featureId: document.featureId, personaId: document.personaId, conversationId: document.conversationId, messageIndex: document.messageIndex });
+  }, [navigate]);
+
+  const openSearch = useCallback(() => {
+    setIsSearchOpen(true);
+    setIsPaletteOpen(false);
+    setIsSidebarOpen(false);
+  }, []);
+
+  const openUsage = useCallback(() => {
+    setIsUsageOpen(true);
+    setIsSidebarOpen(false);
+  }, []);
+
+  const openApiKey = useCallback(() => {
+    setIsApiKeyOpen(true);
+    setIsSidebarOpen(false);
+  }, []);
+
+  const openModelSettings = useCallback(() => {
+    setIsModelSettingsOpen(true);
+    setIsSidebarOpen(false);
+  }, []);
 
   const handleGoHome = () => {
-    setView('landing');
-    setSelectedFeature(null);
+    navigate({ name: 'landing' });
     setIsSidebarOpen(false);
   };
 
-  const handleSelectFeatureFromSidebar = useCallback((feature: Feature) => {
-    if (feature.isPremium && !isPremium) {
-      setSelectedFeature(feature);
-      setIsModalOpen(true);
+  const openFeature = useCallback((feature: Feature) => {
+    const target: FeatureRoute = { name: 'feature', featureId: feature.id };
+    if (isLocked(feature)) {
+      setPendingRoute(target);
       setModalError(null);
     } else {
-      setSelectedFeature(feature);
+      navigate(target);
       setIsSidebarOpen(false); // Close sidebar on selection in mobile
     }
-  }, [isPremium]);
+  }, [isLocked, navigate]);
 
-  const handleSelectFeatureFromLanding = useCallback((feature: Feature) => {
-    setSelectedFeature(feature); // Pre-select the feature
-    if (feature.isPremium && !isPremium) {
-      setIsModalOpen(true);
-      setModalError(null);
-    } else {
-      setView('app'); // Switch to app view for free features or if already premium
-    }
-  }, [isPremium]);
-
-  const handleUnlock = (code: string) => {
-    if (Object.values(ACCESS_CODES).includes(code)) {
-      setIsPremium(true);
-      setIsModalOpen(false);
-      setModalError(null);
-      // If a premium feature was clicked from landing, switch to app view now
-      if (view === 'landing' && selectedFeature?.isPremium) {
-        setView('app');
+  const handleUnlock = async (code: string) => {
+    try {
+      const unlockedTier = getTier((await unlock(code)).tier);
+      // A code for a lower tier is kept, but doesn't open the feature that was asked for.
+      if (pendingFeature && !canUseFeature(unlockedTier.id, pendingFeature.id)) {
+        setModalError(t('app.codeTierTooLow', { tier: t(unlockedTier.name), feature: t(pendingFeature.name), required: t(requiredTier(pendingFeature.id).name) }));
+        return;
       }
-    } else {
-      setModalError('Invalid access code. Please try again.');
+      if (pendingRoute) navigate(pendingRoute);
+      setPendingRoute(null);
+      setModalError(null);
+      setIsSidebarOpen(false);
+    } catch (error) {
+      setModalError(error instanceof Error ? error.message : t('app.invalidCode'));
     }
   };
-  
+
   const handleCloseModal = () => {
-    setIsModalOpen(false);
+    setPendingRoute(null);
     setModalError(null);
-    // If modal is closed from landing page, deselect the feature
-    if (view === 'landing') {
-        setSelectedFeature(null);
-    }
   };
-  
+
   const CurrentFeatureComponent = selectedFeature?.component;
+  // Gemini features wait for a key instead of each reporting that they are unavailable.
+  const needsApiKey = !!selectedFeature && getProviderId(selectedFeature.id) === 'gemini' && apiKeyStatus.source === 'none';
 
   return (
-    <>
+    <RouteContext.Provider value={routeContext}>
       {view === 'landing' ? (
-        <LandingPage onSelectFeature={handleSelectFeatureFromLanding} />
+        <LandingPage onSelectFeature={openFeature} isLocked={isLocked} />
       ) : (
         <div className="min-h-screen premium-background text-zinc-200 flex">
           <Sidebar 
             features={FEATURES} 
             selectedFeature={selectedFeature} 
-            onSelectFeature={handleSelectFeatureFromSidebar} 
-            isPremium={isPremium}
+            onSelectFeature={openFeature} 
+            isLocked={isLocked}
+            tier={tier}
+            premiumAccess={premiumAccess}
+            onSignOut={signOut}
+            onOpenUsage={openUsage}
+            onOpenSearch={openSearch}
+            onOpenApiKey={openApiKey}
+            onOpenModelSettings={openModelSettings}
             isSidebarOpen={isSidebarOpen}
+            isCollapsed={isSidebarCollapsed}
             onGoHome={handleGoHome}
           />
           
@@ -94,32 +191,78 @@ const App: React.FC = () => {
               ></div>
           )}
 
-          <main className="flex-1 md:ml-64 p-4 md:p-6 transition-all duration-300">
+          <main className={`flex-1 ${isSidebarCollapsed ? 'md:ml-0' : 'md:ml-64'} p-4 md:p-6 transition-all duration-300`}>
             <div className="h-full w-full max-w-7xl mx-auto">
                 <button
-                    onClick={() => setIsSidebarOpen(!isSidebarOpen)}
-                    className="md:hidden fixed top-4 left-4 z-50 p-2 bg-zinc-800/80 backdrop-blur-sm border border-zinc-700 rounded-md text-white"
-                    aria-label="Toggle sidebar"
+                    onClick={toggleSidebar}
+                    className={`${isSidebarCollapsed ? '' : 'md:hidden'} fixed top-4 left-4 z-50 p-2 bg-zinc-800/80 backdrop-blur-sm border border-zinc-700 rounded-md text-white`}
+                    aria-label={t('app.toggleSidebar')}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
                       <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25h16.5" />
                     </svg>
                 </button>
                 <div className="h-full animate-fade-in">
-                    {CurrentFeatureComponent && <CurrentFeatureComponent />}
+                    {needsApiKey ? (
+                      <ApiKeyPrompt featureName={t(selectedFeature.name)} locked={apiKeyStatus.locked} onOpenSettings={openApiKey} />
+                    ) : (
+                      CurrentFeatureComponent && <CurrentFeatureComponent />
+                    )}
                 </div>
             </div>
           </main>
         </div>
       )}
 
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+        features={FEATURES}
+        isLocked={isLocked}
+        onSelectFeature={openFeature}
+        onOpenConversation={handleOpenConversation}
+        onToggleSidebar={toggleSidebar}
+        onOpenUsage={openUsage}
+        onOpenSearch={openSearch}
+        onOpenApiKey={openApiKey}
+        onOpenModelSettings={openModelSettings}
+      />
+
+      <SearchPanel
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        features={FEATURES}
+        onOpenMessage={handleOpenMessage}
+        onOpenFeature={openFeature}
+      />
+
+      <UsageDashboard
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
+        features={FEATURES}
+        tier={tier}
+      />
+
+      <ApiKeySettings
+        isOpen={isApiKeyOpen}
+        onClose={() => setIsApiKeyOpen(false)}
+      />
+
+      <ModelSettings
+        isOpen={isModelSettingsOpen}
+        onClose={() => setIsModelSettingsOpen(false)}
+        features={FEATURES}
+        initialFeatureId={selectedFeature?.id}
+      />
+
       <AccessCodeModal
-        isOpen={isModalOpen}
+        isOpen={pendingRoute !== null}
         onClose={handleCloseModal}
         onUnlock={handleUnlock}
         error={modalError}
+        requiredTierName={pendingFeature ? t(requiredTier(pendingFeature.id).name) : undefined}
       />
-    </>
+    </RouteContext.Provider>
   );
 };
 
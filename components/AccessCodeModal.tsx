@@ -1,20 +1,31 @@
 import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface AccessCodeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onUnlock: (code: string) => void;
+  onUnlock: (code: string) => Promise<void>;
   error: string | null;
+  // Tier needed by the feature that opened the modal, if any.
+  requiredTierName?: string;
 }
 
-const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUnlock, error }) => {
+const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUnlock, error, requiredTierName }) => {
+  const { t } = useTranslation();
   const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
 
   if (!isOpen) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onUnlock(code);
+    if (!code.trim() || isChecking) return;
+    setIsChecking(true);
+    try {
+      await onUnlock(code);
+    } finally {
+      setIsChecking(false);
+    }
   };
 
   return (
@@ -22,18 +33,20 @@ const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUn
       <div className="bg-zinc-900 rounded-2xl shadow-2xl p-8 border border-zinc-800 w-full max-w-md m-4 animate-zoom-in">
         <div className="flex justify-between items-start mb-6">
           <div>
-            <h2 className="text-2xl font-bold text-white">Akses Fitur Premium</h2>
-            <p className="text-zinc-400 mt-1">Dapatkan akses penuh ke semua alat canggih.</p>
+            <h2 className="text-2xl font-bold text-white">{t('accessCode.title')}</h2>
+            <p className="text-zinc-400 mt-1">
+              {requiredTierName ? t('accessCode.requiresTier', { tier: requiredTierName }) : t('accessCode.subtitle')}
+            </p>
           </div>
           <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors text-2xl leading-none">&times;</button>
         </div>
         
         <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg p-4 mb-6 text-center">
             <p className="text-sm text-zinc-300">
-                Untuk mendapatkan kode akses, silakan kirim email permintaan ke:
+                {t('accessCode.howToGet')}
             </p>
             <a 
-                href="mailto:yanoffcial040@gmail.com?subject=Permintaan%20Kode%20Akses%20Premium"
+                href={`mailto:yanoffcial040@gmail.com?subject=${encodeURIComponent(t('accessCode.emailSubject'))}`}
                 className="font-semibold text-violet-400 hover:text-violet-300 transition-colors break-words"
             >
                 yanoffcial040@gmail.com
@@ -41,7 +54,7 @@ const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUn
         </div>
 
         <div className="border-t border-zinc-800 pt-6">
-            <p className="text-center text-zinc-400 mb-4 font-semibold">Sudah Punya Kode?</p>
+            <p className="text-center text-zinc-400 mb-4 font-semibold">{t('accessCode.haveCode')}</p>
             <form onSubmit={handleSubmit}>
               <div className="relative mb-4">
                 <input
@@ -49,8 +62,8 @@ const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUn
                   value={code}
                   onChange={(e) => setCode(e.target.value)}
                   className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-4 py-3 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-all"
-                  placeholder="Masukkan kode akses di sini..."
-                  aria-label="Access Code"
+                  placeholder={t('accessCode.placeholder')}
+                  aria-label={t('accessCode.label')}
                 />
                  <div className="absolute inset-0 rounded-lg border border-violet-500/30 blur-lg opacity-0 focus-within:opacity-100 transition-opacity duration-300 pointer-events-none"></div>
               </div>
@@ -59,9 +72,10 @@ const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ isOpen, onClose, onUn
               
               <button 
                 type="submit"
-                className="w-full bg-violet-600 hover:bg-violet-700 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-[0_0_20px_rgba(139,92,246,0.4)]"
+                disabled={isChecking || !code.trim()}
+                className="w-full bg-violet-600 hover:bg-violet-700 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100"
               >
-                Unlock Now
+                {isChecking ? t('accessCode.checking') : t('accessCode.unlock')}
               </button>
             </form>
         </div>
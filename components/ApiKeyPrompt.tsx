@@ -0,0 +1,48 @@
+import React from 'react';
+import { UnlockApiKeyForm } from './ApiKeySettings';
+import { useTranslation } from '../hooks/useTranslation';
+import { LockClosedIcon } from './icons/FeatureIcons';
+
+interface ApiKeyPromptProps {
+  featureName: string;
+  // The saved key is encrypted and only needs its passphrase.
+  locked: boolean;
+  onOpenSettings: () => void;
+}
+
+// Shown in place of a Gemini feature while no API key is available.
+const ApiKeyPrompt: React.FC<ApiKeyPromptProps> = ({ featureName, locked, onOpenSettings }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="h-full flex items-center justify-center">
+      <div className="w-full max-w-md bg-zinc-900/50 border border-zinc-800 rounded-2xl p-8 text-center">
+        <LockClosedIcon className="w-12 h-12 mx-auto text-violet-400 mb-4" />
+        {locked ? (
+          <>
+            <h2 className="text-2xl font-bold text-white">{t('apiKey.promptUnlockTitle')}</h2>
+            <p className="text-zinc-400 mt-2 mb-6">{t('apiKey.promptUnlock', { feature: featureName })}</p>
+            <div className="text-left">
+              <UnlockApiKeyForm />
+            </div>
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold text-white">{t('apiKey.promptSetTitle')}</h2>
+            <p className="text-zinc-400 mt-2 mb-6">
+              {t('apiKey.promptSetBefore', { feature: featureName })}{' '}
+              <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-violet-400 hover:underline">Google AI Studio</a>{t('apiKey.promptSetAfter')}
+            </p>
+            <button
+              onClick={onOpenSettings}
+              className="w-full bg-violet-600 hover:bg-violet-700 text-white font-bold py-2.5 px-4 rounded-lg transition-colors"
+            >
+              {t('apiKey.promptButton')}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPrompt;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { getErrorMessage, validateApiKey } from '../services/geminiService';
+import { removeApiKey, saveApiKey, unlockApiKey } from '../services/apiKeyStore';
+import { useApiKeyStatus } from '../hooks/useApiKey';
+import { useTranslation } from '../hooks/useTranslation';
+import ErrorNotice from './ErrorNotice';
+import { ShieldCheckIcon, TrashIcon } from './icons/FeatureIcons';
+
+interface ApiKeySettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors';
+const buttonClass = 'w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-2.5 px-4 rounded-lg transition-colors';
+
+// Unlocks a saved key that was encrypted with a passphrase. Also used by ApiKeyPrompt.
+export const UnlockApiKeyForm: React.FC = () => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockApiKey(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('apiKey.unlockFailed'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="password"
+        value={passphrase}
+        onChange={e => setPassphrase(e.target.value)}
+        className={inputClass}
+        placeholder={t('apiKey.passphrase')}
+        aria-label={t('apiKey.passphrase')}
+        autoFocus
+      />
+      <ErrorNotice message={error} />
+      <button type="submit" disabled={!passphrase || isUnlocking} className={buttonClass}>
+        {isUnlocking ? t('apiKey.unlocking') : t('apiKey.unlock')}
+      </button>
+    </form>
+  );
+};
+
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const status = useApiKeyStatus();
+  const [key, setKey] = useState('');
+  const [useEncryption, setUseEncryption] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setKey('');
+    setPassphrase('');
+    setError(null);
+    setNotice(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!key.trim() || isSaving || (useEncryption && !passphrase)) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await validateApiKey(key.trim());
+      await saveApiKey(key, useEncryption ? passphrase : undefined);
+      setKey('');
+      setPassphrase('');
+      setNotice(t('apiKey.saved'));
+    } catch (err) {
+      console.error('Failed to save API key:', err);
+      setError(getErrorMessage(err, t('apiKey.saveFailed')));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(t('apiKey.confirmRemove'))) return;
+    removeApiKey();
+    setNotice(t('apiKey.removed'));
+  };
+
+  const statusText = status.locked
+    ? t('apiKey.statusLocked')
+    : status.source === 'user'
+      ? t(status.encrypted ? 'apiKey.statusUserEncrypted' : 'apiKey.statusUser', { hint: status.hint })
+      : status.source === 'build'
+        ? t('apiKey.statusBuild', { hint: status.hint })
+        : t('apiKey.statusNone');
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-md" onMouseDown={onClose}>
+      <div
+        className="bg-zinc-900 rounded-2xl shadow-2xl p-8 border border-zinc-800 w-full max-w-md m-4 max-h-[90vh] overflow-y-auto animate-zoom-in"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('apiKey.label')}
+      >
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{t('apiKey.title')}</h2>
+            <p className="text-zinc-400 mt-1">
+              {t('apiKey.subtitle')}{' '}
+              <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-violet-400 hover:underline">Google AI Studio</a>.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors text-2xl leading-none" aria-label={t('common.close')}>&times;</button>
+        </div>
+
+        <div className="flex items-start gap-2 bg-zinc-800/50 border border-zinc-700 rounded-lg p-3 mb-6 text-sm text-zinc-300">
+          <ShieldCheckIcon className="w-5 h-5 flex-shrink-0 text-violet-400" />
+          <p>{statusText}</p>
+        </div>
+
+        {status.locked && (
+          <div className="mb-6">
+            <UnlockApiKeyForm />
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label htmlFor="api-key" className="block text-sm font-medium text-zinc-300 mb-2">
+              {status.source === 'user' || status.locked ? t('apiKey.replace') : t('apiKey.label')}
+            </label>
+            <input
+              id="api-key"
+              type="password"
+              value={key}
+              onChange={e => setKey(e.target.value)}
+              className={`${inputClass} font-mono`}
+              placeholder="AIza..."
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-300">
+            <input type="checkbox" checked={useEncryption} onChange={e => setUseEncryption(e.target.checked)} className="accent-violet-500" />
+            {t('apiKey.encrypt')}
+          </label>
+          {useEncryption && (
+            <div>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                className={inputClass}
+                placeholder={t('apiKey.passphrase')}
+                aria-label={t('apiKey.passphrase')}
+              />
+              <p className="mt-1 text-xs text-zinc-500">{t('apiKey.passphraseHint')}</p>
+            </div>
+          )}
+
+          <ErrorNotice message={error} />
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+          <button type="submit" disabled={!key.trim() || isSaving || (useEncryption && !passphrase)} className={buttonClass}>
+            {isSaving ? t('apiKey.checking') : t('apiKey.checkAndSave')}
+          </button>
+        </form>
+
+        {(status.source === 'user' || status.locked) && (
+          <button
+            onClick={handleRemove}
+            className="mt-4 flex items-center gap-1.5 text-sm font-medium text-zinc-400 hover:text-red-400 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            {t('apiKey.remove')}
+          </button>
+        )}
+
+        <p className="mt-6 text-xs text-zinc-500">
+          {t('apiKey.privacy')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
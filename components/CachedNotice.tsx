@@ -0,0 +1,39 @@
+import React from 'react';
+import { getLocale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { ArrowPathIcon, ClockIcon } from './icons/FeatureIcons';
+
+interface CachedNoticeProps {
+  // When the cached answer was generated; nothing is rendered for a fresh answer.
+  cachedAt: number | null;
+  // Asks again without the cache.
+  onRegenerate: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Marks a result that was answered from the response cache (services/responseCache.ts).
+const CachedNotice: React.FC<CachedNoticeProps> = ({ cachedAt, onRegenerate, disabled = false, className = '' }) => {
+  const { t } = useTranslation();
+  if (cachedAt === null) return null;
+  const generated = new Date(cachedAt).toLocaleString(getLocale(), { dateStyle: 'medium', timeStyle: 'short' });
+  return (
+    <div className={`flex items-center justify-between gap-3 p-2 pl-3 bg-zinc-800/50 border border-zinc-700 rounded-lg text-xs text-zinc-400 ${className}`}>
+      <span className="flex items-center gap-1.5">
+        <ClockIcon className="w-4 h-4 flex-shrink-0" />
+        {t('cached.notice', { date: generated })}
+      </span>
+      <button
+        type="button"
+        onClick={onRegenerate}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded-md font-medium text-violet-300 hover:bg-zinc-700 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <ArrowPathIcon className="w-4 h-4" />
+        {t('chat.regenerate')}
+      </button>
+    </div>
+  );
+};
+
+export default CachedNotice;
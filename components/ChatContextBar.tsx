@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { CONTEXT_WARNING_RATIO } from '../services/chatController';
+import { getLocale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import type { ChatEngine } from '../hooks/useChatEngine';
+
+const formatNumber = (value: number) => value.toLocaleString(getLocale());
+
+// How much of the model's context window the conversation fills, with the running
+// summary of older turns (services/chatController.ts), which the user can edit.
+const ChatContextBar: React.FC<{ engine: ChatEngine }> = ({ engine }) => {
+  const { t } = useTranslation();
+  const { contextTokens, contextWindow, summary, autoSummarize, isSummarizing, summaryError, isLoading, isServiceAvailable } = engine;
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [draft, setDraft] = useState(summary?.text || '');
+
+  useEffect(() => {
+    setDraft(summary?.text || '');
+  }, [summary]);
+
+  useEffect(() => {
+    setIsSummaryOpen(false);
+  }, [engine.conversationId]);
+
+  if (!isServiceAvailable || !engine.messages.some(m => m.role === 'user')) return null;
+
+  const ratio = Math.min(1, contextTokens / contextWindow);
+  const isNearLimit = ratio >= CONTEXT_WARNING_RATIO;
+  const isBusy = isLoading || isSummarizing;
+  const linkButton = 'text-zinc-400 hover:text-white disabled:text-zinc-600 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="mb-2 text-xs">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <div className="flex items-center gap-2">
+          <div className="w-24 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${isNearLimit ? 'bg-amber-400' : 'bg-violet-500'}`} style={{ width: `${Math.max(ratio * 100, 1)}%` }} />
+          </div>
+          <span className={isNearLimit ? 'text-amber-300' : 'text-zinc-500'}>
+            {t('chat.context.usage', { used: formatNumber(contextTokens), limit: formatNumber(contextWindow) })}
+          </span>
+        </div>
+        <button onClick={engine.summarize} disabled={isBusy} className={linkButton}>
+          {isSummarizing ? t('chat.context.summarizing') : t('chat.context.summarize')}
+        </button>
+        {summary && (
+          <button onClick={() => setIsSummaryOpen(!isSummaryOpen)} className={linkButton} aria-expanded={isSummaryOpen}>
+            {isSummaryOpen ? t('chat.context.hideSummary') : t('chat.context.showSummary')}
+          </button>
+        )}
+        <label className="flex items-center gap-1.5 text-zinc-400 cursor-pointer">
+          <input type="checkbox" checked={autoSummarize} onChange={e => engine.setAutoSummarize(e.target.checked)} className="accent-violet-500" />
+          {t('chat.context.autoSummarize')}
+        </label>
+      </div>
+      {isNearLimit && !isSummarizing && <p className="mt-1 text-amber-300">{t('chat.context.nearLimit')}</p>}
+      {summaryError && <p className="mt-1 text-red-400">{summaryError}</p>}
+      {summary && isSummaryOpen && (
+        <form
+          className="mt-2 p-3 bg-zinc-950 border border-zinc-800 rounded-lg flex flex-col gap-2"
+          onSubmit={e => { e.preventDefault(); engine.updateSummary(draft); }}
+        >
+          <div>
+            <p className="font-semibold text-zinc-200">
+              {t('chat.context.summaryTitle')}
+              {summary.edited && <span className="ml-1 font-normal text-zinc-500">({t('chat.context.edited')})</span>}
+            </p>
+            <p className="text-zinc-500">{t('chat.context.summaryHint', { count: summary.upTo })}</p>
+          </div>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={6}
+            className="w-full bg-zinc-900 border border-zinc-700 rounded-md px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-violet-500 resize-y"
+            aria-label={t('chat.context.summaryTitle')}
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={engine.clearSummary} disabled={isBusy} className="px-3 py-1.5 font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 rounded-lg transition-colors">
+              {t('chat.context.removeSummary')}
+            </button>
+            <button type="submit" disabled={isBusy || draft.trim() === summary.text} className="px-3 py-1.5 font-semibold text-white bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-lg transition-colors">
+              {t('common.save')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ChatContextBar;
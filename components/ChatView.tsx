@@ -0,0 +1,517 @@
+import React, { useState, useRef, useEffect } from 'react';
+import MessageContent from './MessageContent';
+import ConversationHistory from './ConversationHistory';
+import ConversationExportMenu from './ConversationExportMenu';
+import ChatContextBar from './ChatContextBar';
+import { PaperClipIcon, XCircleIcon, ArrowPathIcon, StopIcon, PencilSquareIcon, ChevronLeftIcon, ChevronRightIcon, DocumentTextIcon, MusicNoteIcon, MicrophoneIcon, SpeakerWaveIcon } from './icons/FeatureIcons';
+import type { ChatAttachment, ChatMessage } from '../types';
+import { formatFileSize } from '../utils/helpers';
+import { getLocale } from '../services/i18n';
+import { setAutoRead, speak, stopSpeaking } from '../services/speech';
+import type { ChatEngine } from '../hooks/useChatEngine';
+import { useRegisterChatCommands } from '../hooks/useChatCommands';
+import { useTranslation } from '../hooks/useTranslation';
+import { useSpeech } from '../hooks/useSpeech';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+
+interface ChatViewProps {
+  engine: ChatEngine;
+  title: string;
+  subtitle?: React.ReactNode;
+  // Shown left of the title, e.g. a persona avatar.
+  headerIcon?: React.ReactNode;
+  // Extra buttons shown next to the history panel.
+  headerActions?: React.ReactNode;
+  // Shown next to each model message.
+  modelAvatar?: React.ReactNode;
+  placeholder: string;
+  unavailablePlaceholder?: string;
+  // Use a growing textarea instead of a single-line input (Shift+Enter for new lines).
+  multiline?: boolean;
+  // Wider message bubbles, for code-heavy replies.
+  wide?: boolean;
+}
+
+const SendIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6">
+    <path d="M3.478 2.404a.75.75 0 0 0-.926.941l2.432 7.905H13.5a.75.75 0 0 1 0 1.5H4.984l-2.432 7.905a.75.75 0 0 0 .926.94 60.519 60.519 0 0 0 18.445-8.986.75.75 0 0 0 0-1.218A60.517 60.517 0 0 0 3.478 2.404Z" />
+  </svg>
+);
+
+// "< 2/3 >" control for a message that has alternate versions.
+const VersionSwitcher: React.FC<{ message: ChatMessage; disabled: boolean; onSelect: (versionIndex: number) => void }> = ({ message, disabled, onSelect }) => {
+  const { t } = useTranslation();
+  const count = message.versions?.length || 0;
+  if (count < 2) return null;
+  const current = message.versionIndex ?? 0;
+  return (
+    <div className="flex items-center gap-1 text-xs text-zinc-400">
+      <button onClick={() => onSelect(current - 1)} disabled={disabled || current === 0} className="p-0.5 hover:text-white disabled:text-zinc-600 disabled:cursor-not-allowed" aria-label={t('chat.previousVersion')}>
+        <ChevronLeftIcon className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums">{current + 1}/{count}</span>
+      <button onClick={() => onSelect(current + 1)} disabled={disabled || current === count - 1} className="p-0.5 hover:text-white disabled:text-zinc-600 disabled:cursor-not-allowed" aria-label={t('chat.nextVersion')}>
+        <ChevronRightIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+// Images show as thumbnails and audio as a player; other files as a name-and-size chip,
+// which in a sent message downloads the file. Uploaded files have no local copy, so
+// they show only the chip (or an image's preview).
+const AttachmentPreview: React.FC<{ attachment: ChatAttachment; compact?: boolean }> = ({ attachment, compact = false }) => {
+  const { t } = useTranslation();
+  const { name, mimeType, size, dataUrl, upload } = attachment;
+  if (mimeType.startsWith('image/') && dataUrl) {
+    return compact
+      ? <img src={dataUrl} alt={name} className="w-full h-full object-contain rounded-md" />
+      : <img src={dataUrl} alt={name} className="mb-2 rounded-lg max-w-xs max-h-48 object-contain" />;
+  }
+  const Icon = mimeType.startsWith('audio/') ? MusicNoteIcon : DocumentTextIcon;
+  const details = [size ? formatFileSize(size) : null, upload && upload.expiresAt <= Date.now() ? t('chat.uploadExpired') : null].filter(Boolean).join(' · ');
+  const label = (
+    <div className="flex items-center gap-2 min-w-0">
+      <Icon className="w-6 h-6 flex-shrink-0" />
+      <div className="min-w-0 text-left">
+        <p className="text-sm font-medium truncate">{name}</p>
+        {details && <p className="text-xs opacity-70 truncate">{details}</p>}
+      </div>
+    </div>
+  );
+  if (compact) return <div className="flex items-center h-full">{label}</div>;
+  if (!dataUrl) return <div className="mb-2 max-w-xs px-3 py-2 rounded-lg bg-black/20">{label}</div>;
+  return (
+    <div className="mb-2 flex flex-col gap-2 max-w-xs">
+      <a href={dataUrl} download={name} className="px-3 py-2 rounded-lg bg-black/20 hover:bg-black/30 transition-colors">{label}</a>
+      {mimeType.startsWith('audio/') && <audio controls src={dataUrl} className="w-full" />}
+    </div>
+  );
+};
+
+const ChatView: React.FC<ChatViewProps> = ({
+  engine,
+  title,
+  subtitle,
+  headerIcon,
+  headerActions,
+  modelAvatar,
+  placeholder,
+  unavailablePlaceholder,
+  multiline = false,
+  wide = false,
+}) => {
+  const { t } = useTranslation();
+  const { messages, isLoading, isSummarizing, summary, isServiceAvailable, attachments, attachmentError, isUploading, acceptAttachments, focusedMessageIndex, clearFocusedMessage } = engine;
+  const [input, setInput] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const speech = useSpeech();
+  // A transcript is added to whatever has been typed, for the user to check before sending.
+  const voiceInput = useVoiceInput((text) => {
+    setInput(current => (current.trim() ? `${current.trimEnd()} ${text}` : text));
+    inputRef.current?.focus();
+  });
+
+  useEffect(() => {
+    // A linked message is scrolled to below instead.
+    if (focusedMessageIndex === undefined) messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // Scrolls to a message linked from search and highlights it for a moment.
+  useEffect(() => {
+    if (focusedMessageIndex === undefined) return;
+    messagesRef.current?.querySelector(`[data-message-index="${focusedMessageIndex}"]`)?.scrollIntoView({ block: 'center' });
+    setHighlightedIndex(focusedMessageIndex);
+    clearFocusedMessage();
+  }, [focusedMessageIndex, clearFocusedMessage]);
+
+  useEffect(() => {
+    if (highlightedIndex === null) return;
+    const timer = setTimeout(() => setHighlightedIndex(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedIndex]);
+
+  useEffect(() => {
+    setEditingIndex(null);
+    stopSpeaking();
+  }, [engine.conversationId]);
+
+  // Nothing keeps talking after leaving the chat.
+  useEffect(() => stopSpeaking, []);
+
+  // With "read replies aloud" on, a reply is read once it has streamed in full.
+  const wasLoading = useRef(isLoading);
+  useEffect(() => {
+    const finished = wasLoading.current && !isLoading;
+    wasLoading.current = isLoading;
+    const reply = messages[messages.length - 1];
+    if (finished && speech.autoRead && reply?.role === 'model' && !reply.isError && !reply.truncated) {
+      speak(`${engine.conversationId}:${messages.length - 1}`, reply.text);
+    }
+  }, [isLoading]);
+
+  const toggleRecording = () => {
+    if (voiceInput.state === 'recording') {
+      voiceInput.stop();
+    } else {
+      // The microphone shouldn't pick up a reply being read.
+      stopSpeaking();
+      voiceInput.start();
+    }
+  };
+
+  const canSend = (input.trim() || attachments.length > 0) && !isLoading && !isSummarizing && !isUploading && isServiceAvailable;
+  const canAttach = Boolean(acceptAttachments) && !isLoading && isServiceAvailable;
+
+  const handleSend = () => {
+    if (!canSend) return;
+    engine.send(input);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setEditingText(messages[index].text);
+  };
+
+  const submitEdit = () => {
+    if (editingIndex === null) return;
+    engine.editMessage(editingIndex, editingText);
+    setEditingIndex(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    if (files.length > 0) engine.addAttachments(files);
+    // Reset so picking the same file again still fires a change event.
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files) as File[];
+    if (!canAttach || files.length === 0) return;
+    // Pasted text is left to the input; only files are intercepted.
+    e.preventDefault();
+    engine.addAttachments(files);
+  };
+
+  const dropHandlers = canAttach ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // Moving between child elements also fires dragleave on the container.
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer.files) as File[];
+      if (files.length > 0) engine.addAttachments(files);
+    },
+  } : {};
+
+  const lastMessage = messages[messages.length - 1];
+  // Only a reply to a user turn can be regenerated, not the welcome message; failed replies use retry (`common.retry`).
+  const canRegenerateLast = lastMessage?.role === 'model' && !lastMessage.isError && !isLoading && !isSummarizing && isServiceAvailable
+    && messages[messages.length - 2]?.role === 'user';
+
+  useRegisterChatCommands({
+    send: handleSend,
+    stop: () => { if (isLoading) engine.cancel(); },
+    regenerate: () => { if (canRegenerateLast) engine.regenerate(); },
+    focusInput: () => inputRef.current?.focus(),
+    newConversation: engine.newConversation,
+    lastAnswer: () => {
+      const answer = [...messages].reverse().find((m, i, reversed) => m.role === 'model' && !m.isError && reversed[i + 1]?.role === 'user');
+      return answer?.text || null;
+    },
+  });
+
+  const inputProps = {
+    ref: inputRef,
+    value: input,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setInput(e.target.value),
+    onKeyDown: handleKeyDown,
+    onPaste: handlePaste,
+    placeholder: isServiceAvailable ? placeholder : unavailablePlaceholder || t('chat.unavailable'),
+    // Stays editable while a reply streams so the next message can be drafted.
+    disabled: !isServiceAvailable,
+  };
+
+  return (
+    <div className="relative flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl overflow-hidden shadow-2xl shadow-black/20 animate-fade-in" {...dropHandlers}>
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-zinc-950/80 border-2 border-dashed border-violet-500 rounded-2xl pointer-events-none">
+          <div className="flex flex-col items-center gap-2 text-violet-300">
+            <PaperClipIcon className="w-10 h-10" />
+            <p className="font-semibold">{t('chat.dropFiles')}</p>
+          </div>
+        </div>
+      )}
+      <div className="p-4 border-b border-zinc-800 backdrop-blur-sm flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          {headerIcon}
+          <div>
+            <h2 className="text-xl font-bold text-white">{title}</h2>
+            {typeof subtitle === 'string' ? <p className="text-sm text-zinc-400">{subtitle}</p> : subtitle}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <ConversationHistory
+            featureId={engine.featureId}
+            personaId={engine.personaId}
+            activeConversationId={engine.conversationId}
+            onOpen={engine.openConversation}
+            onNew={engine.newConversation}
+            onDiscard={engine.discardConversation}
+          />
+          <ConversationExportMenu engine={engine} />
+          <button
+            onClick={() => setAutoRead(!speech.autoRead)}
+            className={`p-2 border rounded-lg transition-colors ${speech.autoRead ? 'bg-violet-600/20 border-violet-500 text-violet-300' : 'bg-zinc-800 hover:bg-zinc-700/80 border-zinc-700 text-zinc-300 hover:text-white'}`}
+            aria-pressed={speech.autoRead}
+            aria-label={t('chat.speech.autoRead')}
+            title={t('chat.speech.autoRead')}
+          >
+            <SpeakerWaveIcon className="w-4 h-4" />
+          </button>
+          {headerActions}
+        </div>
+      </div>
+
+      <div ref={messagesRef} className="flex-1 p-4 overflow-y-auto space-y-4">
+        {messages.map((msg, index) => {
+          const isUser = msg.role === 'user';
+          const isLast = index === messages.length - 1;
+          const isStreaming = isLoading && !isUser && isLast;
+          const canRegenerate = isLast && canRegenerateLast;
+          const speechId = `${engine.conversationId}:${index}`;
+          const isSpeaking = speech.speakingId === speechId;
+          const canSpeak = !isUser && !msg.isError && !isStreaming && Boolean(msg.text.trim()) && isServiceAvailable;
+          const bubbleWidth = `max-w-xs md:max-w-md ${wide ? 'lg:max-w-3xl' : 'lg:max-w-2xl'}`;
+          return (
+            <React.Fragment key={index}>
+              {index === summary?.upTo && (
+                <div className="flex items-center gap-3 text-xs text-zinc-500">
+                  <div className="flex-1 border-t border-dashed border-zinc-700" />
+                  {t('chat.context.summarizedAbove')}
+                  <div className="flex-1 border-t border-dashed border-zinc-700" />
+                </div>
+              )}
+              <div data-message-index={index} className={`group flex ${modelAvatar ? 'items-start gap-3' : 'items-end gap-2'} ${isUser ? 'justify-end' : 'justify-start'} animate-fade-in-up`}>
+                {!isUser && modelAvatar}
+                <div className={`flex flex-col gap-1 ${isUser ? 'items-end' : 'items-start'}`}>
+                  {editingIndex === index ? (
+                    <form className={`${bubbleWidth} w-full flex flex-col gap-2`} onSubmit={(e) => { e.preventDefault(); submitEdit(); }}>
+                      <textarea
+                        autoFocus
+                        value={editingText}
+                        onChange={(e) => setEditingText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') setEditingIndex(null);
+                          if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                        }}
+                        rows={3}
+                        className="w-full min-w-[16rem] bg-zinc-950 border border-violet-500 rounded-xl px-3 py-2 text-white focus:outline-none resize-y"
+                        aria-label={t('chat.editMessage')}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setEditingIndex(null)} className="px-3 py-1.5 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors">
+                          {t('common.cancel')}
+                        </button>
+                        <button type="submit" disabled={!editingText.trim()} className="px-3 py-1.5 text-xs font-semibold text-white bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-lg transition-colors">
+                          {t('chat.send')}
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <div className={`${bubbleWidth} px-4 py-3 rounded-2xl shadow-md transition-shadow ${index === highlightedIndex ? 'ring-2 ring-yellow-400' : ''} ${
+                      isUser
+                        ? 'bg-violet-600 text-white rounded-br-lg'
+                        : msg.isError
+                          ? 'bg-red-500/10 text-red-300 border border-red-500/30 rounded-bl-lg'
+                          : 'bg-zinc-700 text-zinc-200 rounded-bl-lg'
+                    }`}>
+                      {msg.attachments?.map((attachment, i) => <AttachmentPreview key={i} attachment={attachment} />)}
+                      <MessageContent text={msg.text + (isStreaming ? '...' : '')} />
+                      {msg.truncated && (
+                        <p className="mt-2 text-xs italic text-zinc-400">{t('chat.truncated')}</p>
+                      )}
+                    </div>
+                  )}
+                  {msg.usage && editingIndex !== index && (
+                    <p className="text-xs text-zinc-500">
+                      {t('chat.context.turnTokens', {
+                        prompt: `${msg.usage.estimated ? '~' : ''}${msg.usage.promptTokens.toLocaleString(getLocale())}`,
+                        response: `${msg.usage.estimated ? '~' : ''}${msg.usage.responseTokens.toLocaleString(getLocale())}`,
+                      })}
+                    </p>
+                  )}
+                  {editingIndex !== index && (isUser || canSpeak || canRegenerate || (msg.versions?.length || 0) > 1) && (
+                    <div className="flex items-center gap-2">
+                      <VersionSwitcher message={msg} disabled={isLoading || isSummarizing} onSelect={(versionIndex) => engine.selectVersion(index, versionIndex)} />
+                      {isUser && !isLoading && !isSummarizing && isServiceAvailable && (
+                        <button
+                          onClick={() => startEditing(index)}
+                          className="p-1 text-zinc-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                          aria-label={t('chat.editMessage')}
+                          title={t('chat.editMessage')}
+                        >
+                          <PencilSquareIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canSpeak && (
+                        <button
+                          onClick={() => (isSpeaking ? stopSpeaking() : speak(speechId, msg.text))}
+                          className={`p-1 transition-colors ${isSpeaking ? `text-violet-300 hover:text-white ${speech.isPreparing ? 'animate-pulse' : ''}` : 'text-zinc-500 hover:text-white'}`}
+                          aria-label={isSpeaking ? t('chat.speech.stop') : t('chat.speech.read')}
+                          title={isSpeaking ? t('chat.speech.stop') : t('chat.speech.read')}
+                        >
+                          {isSpeaking ? <StopIcon className="w-4 h-4" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+                        </button>
+                      )}
+                      {canRegenerate && (
+                        <button
+                          onClick={engine.regenerate}
+                          className="flex items-center gap-1 p-1 text-xs text-zinc-500 hover:text-white transition-colors"
+                          aria-label={t('chat.regenerateAnswer')}
+                          title={t('chat.regenerateAnswer')}
+                        >
+                          <ArrowPathIcon className="w-4 h-4" />
+                          {t('chat.regenerate')}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {speech.error?.id === speechId && <p className="text-xs text-red-400">{speech.error.message}</p>}
+                </div>
+              </div>
+            </React.Fragment>
+          );
+        })}
+        {lastMessage?.isError && !isLoading && (
+          <div className="flex justify-start">
+            <button
+              onClick={engine.retry}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-colors"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              {t('common.retry')}
+            </button>
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <div className="p-4 border-t border-zinc-800 bg-zinc-900/50">
+        <ChatContextBar engine={engine} />
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {attachments.map((attachment, index) => (
+              <div key={index} className={`relative p-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-300 ${attachment.mimeType.startsWith('image/') ? 'w-28 h-28' : 'w-52 h-14'}`}>
+                <AttachmentPreview attachment={attachment} compact />
+                <button
+                  onClick={() => engine.removeAttachment(index)}
+                  className="absolute -top-2 -right-2 p-1 bg-zinc-700 hover:bg-zinc-600 rounded-full text-zinc-300"
+                  aria-label={t('chat.removeFile')}
+                >
+                  <XCircleIcon className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {isUploading && <p className="mb-2 text-sm text-zinc-400 animate-pulse">{t('chat.uploading')}</p>}
+        {attachmentError && <p className="mb-2 text-sm text-red-400">{attachmentError}</p>}
+        {voiceInput.state === 'recording' && <p className="mb-2 text-sm text-red-400 animate-pulse">{t('chat.speech.recording')}</p>}
+        {voiceInput.state === 'transcribing' && <p className="mb-2 text-sm text-zinc-400 animate-pulse">{t('chat.speech.transcribing')}</p>}
+        {voiceInput.error && <p className="mb-2 text-sm text-red-400">{voiceInput.error}</p>}
+        <div className="flex items-center bg-zinc-800 rounded-xl ring-1 ring-zinc-700 focus-within:ring-violet-500 transition-all">
+          {acceptAttachments && (
+            <>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFileChange}
+                className="hidden"
+                accept={acceptAttachments}
+                multiple
+                aria-label={t('chat.uploadFile')}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!canAttach}
+                className="p-3 text-zinc-400 hover:text-violet-400 disabled:text-zinc-600 disabled:cursor-not-allowed transition-colors ml-1"
+                aria-label={t('chat.attachFile')}
+              >
+                <PaperClipIcon className="w-6 h-6" />
+              </button>
+            </>
+          )}
+          {multiline ? (
+            <textarea
+              {...inputProps}
+              className={`flex-1 bg-transparent ${acceptAttachments ? 'px-2' : 'px-4'} py-3 text-white placeholder-zinc-500 focus:outline-none resize-none h-12 max-h-40`}
+              rows={1}
+            />
+          ) : (
+            <input
+              type="text"
+              {...inputProps}
+              className={`flex-1 bg-transparent ${acceptAttachments ? 'px-2' : 'px-4'} py-3 text-white placeholder-zinc-500 focus:outline-none`}
+            />
+          )}
+          {isServiceAvailable && (
+            <button
+              onClick={toggleRecording}
+              disabled={voiceInput.state === 'transcribing'}
+              className={`p-3 transition-colors disabled:text-zinc-600 disabled:cursor-not-allowed ${voiceInput.state === 'recording' ? 'text-red-400 hover:text-red-300 animate-pulse' : 'text-zinc-400 hover:text-violet-400'} ${multiline ? 'self-end' : ''}`}
+              aria-label={voiceInput.state === 'recording' ? t('chat.speech.stopRecording') : t('chat.speech.record')}
+              title={voiceInput.state === 'recording' ? t('chat.speech.stopRecording') : t('chat.speech.record')}
+            >
+              {voiceInput.state === 'recording' ? <StopIcon className="w-6 h-6" /> : <MicrophoneIcon className="w-6 h-6" />}
+            </button>
+          )}
+          {isLoading ? (
+            <button
+              onClick={engine.cancel}
+              className={`p-3 text-zinc-400 hover:text-red-400 transition-colors mr-1 ${multiline ? 'self-end' : ''}`}
+              aria-label={t('chat.stop')}
+              title={t('chat.stop')}
+            >
+              <StopIcon className="w-6 h-6" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!canSend}
+              className={`p-3 text-zinc-400 hover:text-violet-400 disabled:text-zinc-600 disabled:cursor-not-allowed transition-colors mr-1 ${multiline ? 'self-end' : ''}`}
+              aria-label={t('chat.send')}
+            >
+              <SendIcon />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatView;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { useTranslation } from '../hooks/useTranslation';
+import { ClipboardIcon, CheckIcon, ArrowDownTrayIcon } from './icons/FeatureIcons';
+
+// Fence identifiers mapped to the name Prism knows them by. Languages without a bundled
+// grammar (bash, java, php, ...) are still labelled and downloadable, just not coloured.
+const PRISM_ALIASES: Record<string, string> = {
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  vue: 'markup',
+  'c++': 'cpp',
+  rs: 'rust',
+  golang: 'go',
+  'objective-c': 'objectivec',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx', typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py', json: 'json', html: 'html', markup: 'html', xml: 'xml', svg: 'svg',
+  css: 'css', scss: 'scss', sass: 'sass', less: 'less', yaml: 'yml', yml: 'yml', markdown: 'md', md: 'md',
+  sql: 'sql', graphql: 'graphql', go: 'go', golang: 'go', rust: 'rs', rs: 'rs', c: 'c', cpp: 'cpp', 'c++': 'cpp',
+  csharp: 'cs', cs: 'cs', java: 'java', kotlin: 'kt', kt: 'kt', swift: 'swift', objectivec: 'm',
+  php: 'php', ruby: 'rb', rb: 'rb', dart: 'dart', lua: 'lua', r: 'r', vue: 'vue',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', powershell: 'ps1', ps1: 'ps1', bat: 'bat',
+  ini: 'ini', toml: 'toml', env: 'env',
+};
+
+// Languages whose files are conventionally named rather than given an extension.
+const FILE_NAMES: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+  gitignore: '.gitignore',
+};
+
+export const fileNameForLanguage = (language?: string) => {
+  const key = language?.toLowerCase() || '';
+  return FILE_NAMES[key] || `snippet.${FILE_EXTENSIONS[key] || 'txt'}`;
+};
+
+const CodeBlock: React.FC<{ content: string; language?: string }> = ({ content, language }) => {
+  const { t } = useTranslation();
+  const [isCopied, setIsCopied] = useState(false);
+  const normalizedLanguage = language?.toLowerCase() || '';
+  const prismLanguage = PRISM_ALIASES[normalizedLanguage] || normalizedLanguage || 'plain';
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(content).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    }).catch(err => {
+      console.error('Failed to copy text: ', err);
+    });
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileNameForLanguage(language);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="my-2 rounded-lg border border-zinc-600/50 bg-zinc-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-700/60 bg-zinc-900/80">
+        <span className="text-xs font-mono text-zinc-400">{normalizedLanguage || 'text'}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleDownload}
+            className="p-1.5 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700/50 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-500"
+            aria-label={t('codeBlock.download', { file: fileNameForLanguage(language) })}
+            title={t('codeBlock.download', { file: fileNameForLanguage(language) })}
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleCopy}
+            className="p-1.5 rounded-md text-zinc-400 hover:bg-zinc-700/50 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-500"
+            aria-label={t('codeBlock.copy')}
+          >
+            {isCopied ? (
+              <CheckIcon className="w-4 h-4 text-green-400" />
+            ) : (
+              <ClipboardIcon className="w-4 h-4 hover:text-white" />
+            )}
+          </button>
+        </div>
+      </div>
+      <Highlight code={content} language={prismLanguage} theme={themes.vsDark}>
+        {({ tokens, getTokenProps }) => (
+          <pre className="p-3 overflow-x-auto font-mono text-sm text-zinc-300">
+            {tokens.map((line, i) => (
+              <div key={i} className="table-row">
+                <span className="table-cell pr-4 text-right text-zinc-600 select-none" aria-hidden="true">{i + 1}</span>
+                <span className="table-cell whitespace-pre">
+                  {line.map((token, key) => <span key={key} {...getTokenProps({ token })} />)}
+                </span>
+              </div>
+            ))}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { listConversations } from '../services/conversationStore';
+import { requiredTier } from '../services/entitlements';
+import { getActiveChatCommands } from '../hooks/useChatCommands';
+import { SHORTCUTS } from '../hooks/useGlobalShortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { LANGUAGES, getLocale } from '../services/i18n';
+import { fuzzyScore } from '../utils/fuzzy';
+import type { Conversation, Feature } from '../types';
+import { MagnifyingGlassIcon, PlusIcon, ClipboardIcon, Bars3Icon, ClockIcon, LockClosedIcon, ChartBarIcon, AdjustmentsHorizontalIcon, LanguageIcon } from './icons/FeatureIcons';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  features: Feature[];
+  isLocked: (feature: Feature) => boolean;
+  onSelectFeature: (feature: Feature) => void;
+  onOpenConversation: (conversation: Conversation) => void;
+  onToggleSidebar: () => void;
+  onOpenUsage: () => void;
+  onOpenSearch: () => void;
+  onOpenApiKey: () => void;
+  onOpenModelSettings: () => void;
+}
+
+type PaletteSection = 'actions' | 'features' | 'conversations';
+
+interface PaletteItem {
+  id: string;
+  section: PaletteSection;
+  label: string;
+  description?: string;
+  Icon: React.ComponentType<{ className?: string }>;
+  badge?: string;
+  run: () => void;
+}
+
+const RECENT_CONVERSATIONS = 5;
+const MAX_RESULTS = 30;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Best match across the label and (weighted lower) the description.
+const scoreItem = (query: string, item: PaletteItem) => {
+  const labelScore = fuzzyScore(query, item.label);
+  const descriptionScore = item.description ? fuzzyScore(query, item.description) : null;
+  if (labelScore === null && descriptionScore === null) return null;
+  return Math.max(labelScore ?? -Infinity, descriptionScore === null ? -Infinity : descriptionScore / 2);
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, features, isLocked, onSelectFeature, onOpenConversation, onToggleSidebar, onOpenUsage, onOpenSearch, onOpenApiKey, onOpenModelSettings }) => {
+  const { t, language, setLanguage } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    listConversations()
+      .then(setConversations)
+      .catch(error => console.error('Failed to list conversations:', error));
+  }, [isOpen]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const chat = isOpen ? getActiveChatCommands() : null;
+    const actions: PaletteItem[] = [];
+    if (chat) {
+      actions.push({ id: 'action:new-chat', section: 'actions', label: t('palette.newChat'), Icon: PlusIcon, run: chat.newConversation });
+      const lastAnswer = chat.lastAnswer();
+      if (lastAnswer) {
+        actions.push({
+          id: 'action:copy-answer',
+          section: 'actions',
+          label: t('palette.copyAnswer'),
+          Icon: ClipboardIcon,
+          run: () => { navigator.clipboard.writeText(lastAnswer).catch(err => console.error('Failed to copy text: ', err)); },
+        });
+      }
+    }
+    actions.push({ id: 'action:search', section: 'actions', label: t('palette.searchHistory'), Icon: MagnifyingGlassIcon, run: onOpenSearch });
+    actions.push({ id: 'action:toggle-sidebar', section: 'actions', label: t('palette.toggleSidebar'), Icon: Bars3Icon, run: onToggleSidebar });
+    actions.push({ id: 'action:usage', section: 'actions', label: t('palette.usage'), Icon: ChartBarIcon, run: onOpenUsage });
+    actions.push({ id: 'action:api-key', section: 'actions', label: t('palette.apiKey'), Icon: LockClosedIcon, run: onOpenApiKey });
+    actions.push({ id: 'action:model-settings', section: 'actions', label: t('palette.modelSettings'), Icon: AdjustmentsHorizontalIcon, run: onOpenModelSettings });
+    for (const option of LANGUAGES.filter(l => l.id !== language)) {
+      actions.push({
+        id: `action:language-${option.id}`,
+        section: 'actions',
+        label: t('palette.switchLanguage', { language: option.label }),
+        Icon: LanguageIcon,
+        run: () => setLanguage(option.id),
+      });
+    }
+
+    const featureItems: PaletteItem[] = features.map(feature => ({
+      id: `feature:${feature.id}`,
+      section: 'features',
+      label: t(feature.name),
+      description: t(feature.description),
+      Icon: feature.Icon,
+      badge: isLocked(feature) ? t(requiredTier(feature.id).name) : undefined,
+      run: () => onSelectFeature(feature),
+    }));
+
+    const conversationItems: PaletteItem[] = conversations.map(conversation => {
+      const feature = features.find(f => f.id === conversation.featureId);
+      return {
+        id: `conversation:${conversation.id}`,
+        section: 'conversations',
+        label: conversation.title,
+        description: `${feature ? t(feature.name) : conversation.featureId} · ${formatDate(conversation.updatedAt)}`,
+        Icon: ClockIcon,
+        run: () => onOpenConversation(conversation),
+      };
+    });
+
+    return [...actions, ...featureItems, ...conversationItems];
+  }, [isOpen, language, features, isLocked, conversations, onSelectFeature, onOpenConversation, onToggleSidebar, onOpenUsage, onOpenSearch, onOpenApiKey, onOpenModelSettings]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      // Without a query, list everything except older conversations.
+      let recent = 0;
+      return items.filter(item => item.section !== 'conversations' || recent++ < RECENT_CONVERSATIONS);
+    }
+    return items
+      .map(item => ({ item, score: scoreItem(query, item) }))
+      .filter((result): result is { item: PaletteItem; score: number } => result.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(result => result.item);
+  }, [items, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) runItem(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-start justify-center z-50 backdrop-blur-sm pt-[12vh] px-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-xl bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden animate-zoom-in"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('palette.title')}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-zinc-800">
+          <MagnifyingGlassIcon className="w-5 h-5 text-zinc-500 flex-shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent py-4 text-white placeholder-zinc-500 focus:outline-none"
+            aria-label={t('palette.search')}
+          />
+        </div>
+
+        <ul ref={listRef} className="max-h-80 overflow-y-auto p-2" role="listbox">
+          {results.length === 0 && <li className="px-3 py-6 text-center text-sm text-zinc-500">{t('palette.noResults')}</li>}
+          {results.map((item, index) => (
+            <React.Fragment key={item.id}>
+              {!query.trim() && item.section !== results[index - 1]?.section && (
+                <li role="presentation" className="px-3 pt-3 pb-1 text-xs font-semibold text-zinc-500 uppercase tracking-wider">{t(`palette.sections.${item.section}`)}</li>
+              )}
+              <li
+                data-index={index}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => runItem(item)}
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer ${index === activeIndex ? 'bg-violet-500/15 text-white' : 'text-zinc-300'}`}
+              >
+                <item.Icon className="w-5 h-5 flex-shrink-0 text-violet-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{item.label}</p>
+                  {item.description && <p className="text-xs text-zinc-500 truncate">{item.description}</p>}
+                </div>
+                {item.badge && (
+                  <span className="flex items-center gap-1 text-[10px] font-semibold uppercase text-yellow-500 flex-shrink-0">
+                    <LockClosedIcon className="w-3.5 h-3.5" />
+                    {item.badge}
+                  </span>
+                )}
+                {query.trim() && <span className="text-[10px] text-zinc-500 flex-shrink-0">{t(`palette.sections.${item.section}`)}</span>}
+              </li>
+            </React.Fragment>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 border-t border-zinc-800 text-[11px] text-zinc-500">
+          {SHORTCUTS.map(shortcut => (
+            <span key={shortcut.keys}>
+              <kbd className="font-mono text-zinc-400">{shortcut.keys}</kbd> {t(shortcut.label)}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { conversationSource, exportConversation, parseConversationExport } from '../services/conversationExport';
+import type { ExportFormat } from '../services/conversationExport';
+import { getConversation, importConversation } from '../services/conversationStore';
+import { getGenerationSettings, saveModelOverrides } from '../services/modelSettings';
+import { useTranslation } from '../hooks/useTranslation';
+import type { ChatEngine } from '../hooks/useChatEngine';
+import type { MessageKey } from '../services/i18n';
+import { ArrowDownTrayIcon } from './icons/FeatureIcons';
+
+const EXPORT_FORMATS: { id: ExportFormat; label: MessageKey }[] = [
+  { id: 'markdown', label: 'conversationExport.markdown' },
+  { id: 'html', label: 'conversationExport.html' },
+  { id: 'json', label: 'conversationExport.json' },
+];
+
+const downloadFile = (filename: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Exports the open conversation, or imports a JSON export of this chat and opens it.
+const ConversationExportMenu: React.FC<{ engine: ChatEngine }> = ({ engine }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasConversation = engine.messages.some(m => m.role === 'user');
+
+  // Close the panel when clicking anywhere outside of it.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggle = () => {
+    setNotice(null);
+    setIsOpen(!isOpen);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      // The transcript on screen may be ahead of the stored one while a reply streams.
+      const saved = await getConversation(engine.conversationId);
+      if (!saved) throw new Error(t('conversationExport.nothingToExport'));
+      const file = await exportConversation({ ...saved, messages: engine.messages }, format);
+      downloadFile(file.filename, file.mimeType, file.content);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      setNotice({ text: error instanceof Error ? error.message : t('conversationExport.exportFailed'), isError: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event.
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setNotice(null);
+    try {
+      const data = parseConversationExport(await file.text());
+      const { featureId, personaId } = data.conversation;
+      if (featureId !== engine.featureId || personaId !== engine.personaId) {
+        throw new Error(t('conversationExport.wrongChat', { source: conversationSource(data.conversation) }));
+      }
+      const current = getGenerationSettings(featureId, 'text');
+      if (JSON.stringify(data.settings) !== JSON.stringify(current)
+        && window.confirm(t('conversationExport.confirmSettings', { model: data.settings.model || current.model || '-' }))) {
+        saveModelOverrides(featureId, data.settings);
+      }
+      const conversation = await importConversation(data.conversation);
+      engine.openConversation(conversation);
+      setNotice({ text: t('conversationExport.imported', { title: conversation.title }), isError: false });
+    } catch (error) {
+      console.error('Failed to import conversation:', error);
+      setNotice({ text: error instanceof Error ? error.message : t('conversationExport.invalidFile'), isError: true });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={toggle}
+        className="flex items-center gap-2 px-3 py-2 text-sm bg-zinc-800 hover:bg-zinc-700/80 border border-zinc-700 rounded-lg text-zinc-300 hover:text-white transition-colors"
+        aria-expanded={isOpen}
+        aria-label={t('conversationExport.menu')}
+        title={t('conversationExport.menu')}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 flex flex-col p-2 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl shadow-black/40 z-20 animate-zoom-in">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={!hasConversation}
+              className="px-3 py-2 text-sm text-left text-zinc-300 hover:bg-zinc-800 hover:text-white disabled:text-zinc-600 disabled:hover:bg-transparent disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              {t(format.label)}
+            </button>
+          ))}
+          <div className="my-1 border-t border-zinc-800" />
+          <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json,application/json" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting || engine.isLoading}
+            className="px-3 py-2 text-sm text-left text-zinc-300 hover:bg-zinc-800 hover:text-white disabled:text-zinc-600 disabled:cursor-not-allowed rounded-lg transition-colors"
+          >
+            {isImporting ? t('conversationExport.importing') : t('conversationExport.import')}
+          </button>
+          {!hasConversation && <p className="px-3 py-1 text-xs text-zinc-500">{t('conversationExport.nothingToExport')}</p>}
+          {notice && <p className={`px-3 py-1 text-xs ${notice.isError ? 'text-red-400' : 'text-green-400'}`}>{notice.text}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationExportMenu;
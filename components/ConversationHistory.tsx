@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { listConversations, renameConversation, deleteConversation, subscribeToConversations } from '../services/conversationStore';
+import { getLocale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import type { Conversation } from '../types';
+import { ClockIcon, PencilSquareIcon, PlusIcon, TrashIcon, CheckIcon } from './icons/FeatureIcons';
+
+interface ConversationHistoryProps {
+  featureId: string;
+  personaId?: string;
+  activeConversationId: string;
+  onOpen: (conversation: Conversation) => void;
+  onNew: () => void;
+  // Leaves the open conversation without saving it, before it is deleted.
+  onDiscard: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({ featureId, personaId, activeConversationId, onOpen, onNew, onDiscard }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const load = () => {
+      listConversations({ featureId, personaId })
+        .then(setConversations)
+        .catch(error => console.error('Failed to list conversations:', error));
+    };
+    load();
+    return subscribeToConversations(load);
+  }, [featureId, personaId]);
+
+  // Close the panel when clicking anywhere outside of it.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleOpen = (conversation: Conversation) => {
+    onOpen(conversation);
+    setIsOpen(false);
+  };
+
+  const handleNew = () => {
+    onNew();
+    setIsOpen(false);
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = async () => {
+    if (editingId) {
+      await renameConversation(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(t('history.confirmDelete', { title: conversation.title }))) return;
+    // Leave it first: a reply still streaming into it would otherwise save it again.
+    if (conversation.id === activeConversationId) {
+      onDiscard();
+    }
+    await deleteConversation(conversation.id);
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 text-sm bg-zinc-800 hover:bg-zinc-700/80 border border-zinc-700 rounded-lg text-zinc-300 hover:text-white transition-colors"
+        aria-expanded={isOpen}
+      >
+        <ClockIcon className="w-4 h-4" />
+        {t('history.title')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 flex flex-col bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl shadow-black/40 z-20 animate-zoom-in">
+          <button
+            onClick={handleNew}
+            className="flex items-center gap-2 m-2 px-3 py-2 text-sm font-semibold text-violet-300 bg-violet-500/10 hover:bg-violet-500/20 rounded-lg transition-colors"
+          >
+            <PlusIcon className="w-4 h-4" />
+            {t('history.new')}
+          </button>
+          <ul className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+            {conversations.length === 0 && (
+              <li className="px-3 py-4 text-sm text-center text-zinc-500">{t('history.empty')}</li>
+            )}
+            {conversations.map(conversation => (
+              <li
+                key={conversation.id}
+                className={`group flex items-center gap-2 px-3 py-2 rounded-lg ${
+                  conversation.id === activeConversationId ? 'bg-zinc-800 text-white' : 'text-zinc-300 hover:bg-zinc-800/60'
+                }`}
+              >
+                {editingId === conversation.id ? (
+                  <form className="flex-1 flex items-center gap-1" onSubmit={(e) => { e.preventDefault(); commitRename(); }}>
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-violet-500"
+                      aria-label={t('history.titleLabel')}
+                    />
+                    <button type="submit" className="p-1 text-zinc-400 hover:text-green-400" aria-label={t('history.saveTitle')}>
+                      <CheckIcon className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button onClick={() => handleOpen(conversation)} className="flex-1 min-w-0 text-left">
+                      <p className="text-sm truncate">{conversation.title}</p>
+                      <p className="text-xs text-zinc-500">{formatDate(conversation.updatedAt)}</p>
+                    </button>
+                    <button
+                      onClick={() => startRename(conversation)}
+                      className="p-1 text-zinc-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label={t('history.rename')}
+                    >
+                      <PencilSquareIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(conversation)}
+                      className="p-1 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label={t('history.delete')}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationHistory;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { XCircleIcon } from './icons/FeatureIcons';
+
+interface ErrorNoticeProps {
+  // Nothing is rendered while this is empty, so features can pass their error state as-is.
+  message: string | null;
+  className?: string;
+}
+
+// How every feature shows a failed request. Build the message with `getErrorMessage`
+// from services/geminiService so the same failure reads the same everywhere.
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ message, className = '' }) => {
+  if (!message) return null;
+  return (
+    <div role="alert" className={`flex items-start gap-2 p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300 ${className}`}>
+      <XCircleIcon className="w-5 h-5 flex-shrink-0 text-red-400" />
+      <p className="whitespace-normal">{message}</p>
+    </div>
+  );
+};
+
+export default ErrorNotice;
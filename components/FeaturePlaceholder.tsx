@@ -1,11 +1,13 @@
 import React from 'react';
 import type { Feature } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface FeaturePlaceholderProps {
   feature: Feature;
 }
 
 const FeaturePlaceholder: React.FC<FeaturePlaceholderProps> = ({ feature }) => {
+  const { t } = useTranslation();
   return (
     <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-zinc-900/50 border border-zinc-800 rounded-2xl">
       <div className="relative mb-6">
@@ -14,10 +16,10 @@ const FeaturePlaceholder: React.FC<FeaturePlaceholderProps> = ({ feature }) => {
           <feature.Icon className="w-16 h-16 text-violet-400" />
         </div>
       </div>
-      <h2 className="text-3xl font-bold mb-2 text-white">{feature.name}</h2>
-      <p className="text-lg text-zinc-400 mb-4 max-w-md">{feature.description}</p>
+      <h2 className="text-3xl font-bold mb-2 text-white">{t(feature.name)}</h2>
+      <p className="text-lg text-zinc-400 mb-4 max-w-md">{t(feature.description)}</p>
       <div className="mt-6 px-6 py-3 bg-violet-900/50 text-violet-300 border border-violet-700/50 rounded-full">
-        <p className="font-semibold tracking-wide">Feature Coming Soon!</p>
+        <p className="font-semibold tracking-wide">{t('placeholder.comingSoon')}</p>
       </div>
     </div>
   );
@@ -1,42 +1,48 @@
 import React from 'react';
 import { FEATURES } from '../constants';
 import type { Feature } from '../types';
+import { TIERS, requiredTier } from '../services/entitlements';
+import { useTranslation } from '../hooks/useTranslation';
+import LanguageSwitcher from './LanguageSwitcher';
 import { LockClosedIcon, SparklesIcon } from './icons/FeatureIcons';
 
 interface LandingPageProps {
   onSelectFeature: (feature: Feature) => void;
+  isLocked: (feature: Feature) => boolean;
 }
 
-const FeatureCard: React.FC<{ feature: Feature; onSelect: () => void; }> = ({ feature, onSelect }) => (
-  <button
-    onClick={onSelect}
-    className="relative flex flex-col items-start w-full h-full p-6 bg-zinc-900/50 border border-zinc-800 rounded-2xl text-left card-hover-effect overflow-hidden"
-  >
-    {feature.isPremium && (
-      <div className="absolute top-4 right-4 flex items-center gap-1.5 text-xs font-semibold bg-yellow-900/50 text-yellow-300 border border-yellow-700/50 rounded-full px-2 py-1">
-        <LockClosedIcon className="w-3 h-3" />
-        <span>Premium</span>
+const FeatureCard: React.FC<{ feature: Feature; isLocked: boolean; onSelect: () => void; }> = ({ feature, isLocked, onSelect }) => {
+  const { t } = useTranslation();
+  return (
+    <button
+      onClick={onSelect}
+      className="relative flex flex-col items-start w-full h-full p-6 bg-zinc-900/50 border border-zinc-800 rounded-2xl text-left card-hover-effect overflow-hidden"
+    >
+      {isLocked && (
+        <div className="absolute top-4 right-4 flex items-center gap-1.5 text-xs font-semibold bg-yellow-900/50 text-yellow-300 border border-yellow-700/50 rounded-full px-2 py-1">
+          <LockClosedIcon className="w-3 h-3" />
+          <span>{t(requiredTier(feature.id).name)}</span>
+        </div>
+      )}
+      <div className="relative bg-zinc-800 p-3 rounded-xl border border-zinc-700 mb-4">
+        <feature.Icon className="w-7 h-7 text-violet-400" />
       </div>
-    )}
-    <div className="relative bg-zinc-800 p-3 rounded-xl border border-zinc-700 mb-4">
-      <feature.Icon className="w-7 h-7 text-violet-400" />
-    </div>
-    <h3 className="font-semibold text-white text-lg mb-1">{feature.name}</h3>
-    <p className="text-sm text-zinc-400 leading-relaxed">{feature.description}</p>
-  </button>
-);
+      <h3 className="font-semibold text-white text-lg mb-1">{t(feature.name)}</h3>
+      <p className="text-sm text-zinc-400 leading-relaxed">{t(feature.description)}</p>
+    </button>
+  );
+};
 
 
-const LandingPage: React.FC<LandingPageProps> = ({ onSelectFeature }) => {
-  const freeFeatures = FEATURES.filter(f => !f.isPremium);
-  const premiumFeatures = FEATURES.filter(f => f.isPremium);
+const LandingPage: React.FC<LandingPageProps> = ({ onSelectFeature, isLocked }) => {
+  const { t } = useTranslation();
 
   const renderFeatureSection = (title: string, features: Feature[]) => (
     <section className="mb-12">
       <h2 className="text-3xl font-bold tracking-tight text-white mb-6">{title}</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {features.map(feature => (
-          <FeatureCard key={feature.id} feature={feature} onSelect={() => onSelectFeature(feature)} />
+          <FeatureCard key={feature.id} feature={feature} isLocked={isLocked(feature)} onSelect={() => onSelectFeature(feature)} />
         ))}
       </div>
     </section>
@@ -45,6 +51,9 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectFeature }) => {
   return (
     <div className="min-h-screen w-full premium-background text-zinc-200 animate-fade-in">
       <main className="max-w-7xl mx-auto px-6 py-16 md:py-24">
+        <div className="flex justify-end mb-8">
+          <LanguageSwitcher className="w-52" />
+        </div>
         <header className="text-center mb-16">
           <div className="inline-flex items-center justify-center mb-6">
             <div className="relative bg-zinc-800 p-5 rounded-full border border-zinc-700">
@@ -52,19 +61,23 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectFeature }) => {
             </div>
           </div>
           <h1 className="text-5xl md:text-6xl font-extrabold tracking-tighter text-white mb-4">
-            Selamat Datang di YAN OFFICIAL
+            {t('landing.title')}
           </h1>
           <p className="text-lg md:text-xl text-zinc-400 max-w-3xl mx-auto">
-            Suite lengkap alat AI canggih untuk membantu Anda dengan berbagai tugas, dari kreativitas hingga produktivitas. Jelajahi fitur-fitur yang tersedia dan tingkatkan efisiensi kerja Anda hari ini.
+            {t('landing.intro')}
           </p>
         </header>
 
-        {renderFeatureSection('Fitur Gratis', freeFeatures)}
-        {renderFeatureSection('Fitur Premium', premiumFeatures)}
+        {TIERS.map(tier => {
+          const features = FEATURES.filter(f => requiredTier(f.id).id === tier.id);
+          return features.length > 0 && (
+            <React.Fragment key={tier.id}>{renderFeatureSection(t('common.tierFeatures', { tier: t(tier.name) }), features)}</React.Fragment>
+          );
+        })}
         
         <footer className="text-center mt-16 border-t border-zinc-800/50 pt-8">
             <p className="text-sm text-zinc-400 italic max-w-2xl mx-auto mb-2">
-                "Selamat datang di ruang amanmu. Aplikasi ini lahir dari sebuah ide sederhana oleh YAN OFFICIAL: menciptakan teman digital yang selalu ada, kapan pun kamu butuh. Ia adalah jawaban atas sebuah kekosongan, sebuah karya yang dibangun untuk memastikan tak ada lagi yang merasa sendirian dalam perjalanannya."
+                "{t('landing.quote')}"
             </p>
             <p className="text-zinc-500">© YAN OFFICIAL</p>
         </footer>
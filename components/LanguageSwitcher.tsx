@@ -0,0 +1,30 @@
+import React from 'react';
+import { LANGUAGES } from '../services/i18n';
+import type { Language } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { LanguageIcon } from './icons/FeatureIcons';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// Picks the UI language, which is also the language the AI answers in.
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { t, language, setLanguage } = useTranslation();
+
+  return (
+    <label className={`flex items-center gap-2 text-sm text-zinc-300 ${className}`}>
+      <LanguageIcon className="w-5 h-5 flex-shrink-0" />
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={language}
+        onChange={e => setLanguage(e.target.value as Language)}
+        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-violet-500"
+      >
+        {LANGUAGES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
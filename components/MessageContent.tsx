@@ -1,70 +1,85 @@
-import React, { useState } from 'react';
-import { ClipboardIcon, CheckIcon } from './icons/FeatureIcons';
+import React from 'react';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import type { Components, ExtraProps, UrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import CodeBlock from './CodeBlock';
 
-// This regex splits the text by markdown code blocks (```...```)
-const codeBlockRegex = /(```[\s\S]*?```)/g;
+type TreeNode = NonNullable<ExtraProps['node']>['children'][number];
 
-const parseMessage = (text: string): { type: 'text' | 'code'; content: string }[] => {
-  if (!text) return [];
-  
-  const parts = text.split(codeBlockRegex);
-
-  // FIX: Explicitly typing the return of the map callback ensures TypeScript doesn't widen
-  // the 'type' property to a generic 'string', resolving the assignment error.
-  return parts.map((part): { type: 'text' | 'code'; content: string } => {
-    if (codeBlockRegex.test(part)) {
-      // It's a code block, remove the backticks and language identifier
-      const codeContent = part.replace(/^```(?:\w+)?\n?/, '').replace(/```$/, '');
-      return { type: 'code', content: codeContent };
-    } else {
-      return { type: 'text', content: part };
-    }
-  }).filter(part => part.content); // Filter out empty parts
+// Plain text of a syntax tree node, e.g. the source inside a fenced code block.
+const nodeText = (node: TreeNode): string => {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(nodeText).join('');
+  return '';
 };
 
-const CodeBlock: React.FC<{ content: string }> = ({ content }) => {
-  const [isCopied, setIsCopied] = useState(false);
+// Images embedded in the message itself; anything else would be fetched from wherever the
+// model pointed it, so remote images are shown as links instead.
+const isInlineImage = (src: unknown): src is string => typeof src === 'string' && /^(data:image\/|blob:)/i.test(src);
 
-  const handleCopy = () => {
-    navigator.clipboard.writeText(content).then(() => {
-      setIsCopied(true);
-      setTimeout(() => setIsCopied(false), 2000);
-    }).catch(err => {
-      console.error('Failed to copy text: ', err);
-    });
-  };
+// react-markdown drops `data:` and `blob:` URLs by default; keep them for images only.
+const urlTransform: UrlTransform = (url, key, node) =>
+  key === 'src' && node.tagName === 'img' && isInlineImage(url) ? url : defaultUrlTransform(url);
 
-  return (
-    <div className="relative group">
-      <pre className="bg-zinc-950 p-3 my-2 rounded-lg border border-zinc-600/50 overflow-x-auto">
-        <code className="font-mono text-sm text-zinc-300">{content}</code>
-      </pre>
-      <button 
-        onClick={handleCopy}
-        className="absolute top-2 right-2 p-1.5 bg-zinc-700/50 rounded-md text-zinc-400 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-violet-500"
-        aria-label="Copy code"
-      >
-        {isCopied ? (
-          <CheckIcon className="w-4 h-4 text-green-400" />
-        ) : (
-          <ClipboardIcon className="w-4 h-4 hover:text-white" />
-        )}
-      </button>
+// Tailwind styles for each markdown element (the Tailwind CDN build has no typography plugin).
+// Raw HTML in the text is never rendered and react-markdown drops unsafe URLs such as
+// `javascript:`, so model output can't inject markup or script.
+const MARKDOWN_COMPONENTS: Components = {
+  pre: ({ node }) => {
+    const code = node?.children[0];
+    if (!code) return null;
+    // remark puts the fence's info string on the code element as `language-<id>`.
+    const classNames = code.type === 'element' ? code.properties.className : undefined;
+    const language = Array.isArray(classNames)
+      ? classNames.map(String).find(name => name.startsWith('language-'))?.slice('language-'.length)
+      : undefined;
+    return <CodeBlock content={nodeText(code).replace(/\n$/, '')} language={language} />;
+  },
+  // Only inline code reaches here; fenced blocks are handled by `pre`.
+  code: ({ children }) => <code className="font-mono text-[0.85em] px-1.5 py-0.5 rounded bg-black/30">{children}</code>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0 whitespace-pre-wrap">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 font-medium hover:opacity-80">
+      {children}
+    </a>
+  ),
+  h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mt-4 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-3 mb-1 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h4>,
+  ul: ({ className, children }) => (
+    // GFM task lists get the `contains-task-list` class; their checkboxes replace the bullets.
+    <ul className={`my-2 space-y-1 ${className?.includes('contains-task-list') ? 'list-none pl-1' : 'list-disc pl-5'}`}>{children}</ul>
+  ),
+  ol: ({ children, start }) => <ol start={start} className="my-2 space-y-1 list-decimal pl-5">{children}</ol>,
+  li: ({ children }) => <li>{children}</li>,
+  input: ({ checked }) => <input type="checkbox" checked={!!checked} disabled className="mr-2 align-middle accent-violet-500" />,
+  blockquote: ({ children }) => <blockquote className="my-2 pl-3 border-l-4 border-zinc-500/60 text-zinc-400 italic">{children}</blockquote>,
+  hr: () => <hr className="my-4 border-zinc-600/50" />,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-left border-collapse border border-zinc-600/50">{children}</table>
     </div>
-  );
+  ),
+  th: ({ children, style }) => <th style={style} className="px-3 py-1.5 border border-zinc-600/50 bg-black/20 font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-1.5 border border-zinc-600/50">{children}</td>,
+  img: ({ src, alt }) => {
+    if (isInlineImage(src)) return <img src={src} alt={alt || ''} loading="lazy" className="my-2 rounded-lg max-w-full max-h-80" />;
+    if (typeof src !== 'string' || !src) return alt ? <span>{alt}</span> : null;
+    return (
+      <a href={src} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 font-medium hover:opacity-80">
+        {alt || src}
+      </a>
+    );
+  },
 };
 
 const MessageContent: React.FC<{ text: string }> = ({ text }) => {
-  const parsedContent = parseMessage(text);
-
   return (
-    <div className="text-sm whitespace-pre-wrap leading-relaxed">
-      {parsedContent.map((part, index) => {
-        if (part.type === 'code') {
-          return <CodeBlock key={index} content={part.content} />;
-        }
-        return <span key={index}>{part.content}</span>;
-      })}
+    <div className="text-sm leading-relaxed break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS} urlTransform={urlTransform}>
+        {text}
+      </ReactMarkdown>
     </div>
   );
 };
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { FEATURE_MODELS, SAMPLING_RANGES, resetModelOverrides, saveModelOverrides, supportsSampling } from '../services/modelSettings';
+import { getProviderId } from '../services/providers';
+import { useModelOverrides } from '../hooks/useModelSettings';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../services/i18n';
+import type { GenerationSettings } from '../services/geminiService';
+import type { Feature, FeatureModels } from '../types';
+
+interface ModelSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  features: Feature[];
+  // The feature shown first, usually the one on screen.
+  initialFeatureId?: string;
+}
+
+type SamplingField = keyof typeof SAMPLING_RANGES;
+
+const SAMPLING_FIELDS: { key: SamplingField; label: MessageKey; hint: MessageKey }[] = [
+  { key: 'temperature', label: 'modelSettings.temperature', hint: 'modelSettings.temperatureHint' },
+  { key: 'topP', label: 'modelSettings.topP', hint: 'modelSettings.topPHint' },
+  { key: 'maxOutputTokens', label: 'modelSettings.maxOutputTokens', hint: 'modelSettings.maxOutputTokensHint' },
+];
+
+// Numbers are edited as text so an empty field can mean "use the model's default".
+type Draft = { model: string } & Record<SamplingField, string>;
+
+const toDraft = (overrides: GenerationSettings, models: FeatureModels): Draft => ({
+  model: overrides.model || models.default,
+  temperature: overrides.temperature?.toString() ?? '',
+  topP: overrides.topP?.toString() ?? '',
+  maxOutputTokens: overrides.maxOutputTokens?.toString() ?? '',
+});
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors';
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ isOpen, onClose, features, initialFeatureId }) => {
+  const { t } = useTranslation();
+  const configurable = features.filter(f => FEATURE_MODELS[f.id]);
+  const [featureId, setFeatureId] = useState(initialFeatureId || configurable[0]?.id);
+  const overrides = useModelOverrides(featureId);
+  const models = FEATURE_MODELS[featureId];
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setFeatureId(FEATURE_MODELS[initialFeatureId] ? initialFeatureId : configurable[0]?.id);
+  }, [isOpen, initialFeatureId]);
+
+  // The form starts from the saved overrides whenever another feature is picked.
+  useEffect(() => {
+    if (models) setDraft(toDraft(overrides, models));
+  }, [featureId, overrides, models]);
+
+  useEffect(() => {
+    setNotice(null);
+  }, [featureId, isOpen]);
+
+  if (!isOpen || !models || !draft) return null;
+
+  const feature = features.find(f => f.id === featureId);
+  const canSample = supportsSampling(models.kind);
+  const isGemini = getProviderId(featureId) === 'gemini';
+
+  const isFieldValid = (key: SamplingField) => {
+    if (draft[key] === '') return true;
+    const value = Number(draft[key]);
+    return Number.isFinite(value) && value >= SAMPLING_RANGES[key].min && value <= SAMPLING_RANGES[key].max;
+  };
+  const isValid = SAMPLING_FIELDS.every(({ key }) => isFieldValid(key));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+    saveModelOverrides(featureId, {
+      model: draft.model === models.default ? undefined : draft.model,
+      temperature: toNumber(draft.temperature),
+      topP: toNumber(draft.topP),
+      maxOutputTokens: toNumber(draft.maxOutputTokens),
+    });
+    setNotice(t('modelSettings.saved'));
+  };
+
+  const handleReset = () => {
+    resetModelOverrides(featureId);
+    setDraft(toDraft({}, models));
+    setNotice(t('modelSettings.resetDone'));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-md" onMouseDown={onClose}>
+      <div
+        className="bg-zinc-900 rounded-2xl shadow-2xl p-8 border border-zinc-800 w-full max-w-lg m-4 max-h-[90vh] overflow-y-auto animate-zoom-in"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('modelSettings.title')}
+      >
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{t('modelSettings.title')}</h2>
+            <p className="text-zinc-400 mt-1">{t('modelSettings.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors text-2xl leading-none" aria-label={t('common.close')}>&times;</button>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-5">
+          <div>
+            <label htmlFor="model-feature" className="block text-sm font-medium text-zinc-300 mb-2">{t('modelSettings.feature')}</label>
+            <select id="model-feature" value={featureId} onChange={e => setFeatureId(e.target.value)} className={inputClass}>
+              {configurable.map(f => <option key={f.id} value={f.id}>{t(f.name)}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="model-name" className="block text-sm font-medium text-zinc-300 mb-2">{t('modelSettings.model')}</label>
+            <select
+              id="model-name"
+              value={draft.model}
+              onChange={e => setDraft({ ...draft, model: e.target.value })}
+              disabled={models.alternatives.length === 0}
+              className={`${inputClass} font-mono text-sm disabled:text-zinc-500`}
+            >
+              {[models.default, ...models.alternatives].map(model => (
+                <option key={model} value={model}>{model}{model === models.default ? ` ${t('modelSettings.defaultSuffix')}` : ''}</option>
+              ))}
+            </select>
+            {!isGemini && (
+              <p className="mt-1 text-xs text-yellow-400">
+                {t(canSample ? 'modelSettings.otherProviderSampling' : 'modelSettings.otherProvider', { feature: feature ? t(feature.name) : featureId, provider: getProviderId(featureId) })}
+              </p>
+            )}
+          </div>
+
+          {canSample && SAMPLING_FIELDS.map(({ key, label, hint }) => (
+            <div key={key}>
+              <label htmlFor={`model-${key}`} className="block text-sm font-medium text-zinc-300 mb-2">{t(label)}</label>
+              <input
+                id={`model-${key}`}
+                type="number"
+                inputMode="decimal"
+                min={SAMPLING_RANGES[key].min}
+                max={SAMPLING_RANGES[key].max}
+                step={SAMPLING_RANGES[key].step}
+                value={draft[key]}
+                onChange={e => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={t('modelSettings.modelDefault')}
+                className={`${inputClass} ${isFieldValid(key) ? '' : 'border-red-600'}`}
+              />
+              <p className={`mt-1 text-xs ${isFieldValid(key) ? 'text-zinc-500' : 'text-red-400'}`}>
+                {isFieldValid(key) ? t(hint) : t('modelSettings.outOfRange', { min: SAMPLING_RANGES[key].min, max: SAMPLING_RANGES[key].max })}
+              </p>
+            </div>
+          ))}
+
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 font-semibold py-2.5 px-4 rounded-lg transition-colors"
+            >
+              {t('modelSettings.reset')}
+            </button>
+            <button
+              type="submit"
+              disabled={!isValid}
+              className="flex-1 bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-2.5 px-4 rounded-lg transition-colors"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
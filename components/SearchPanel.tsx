@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { listIndexedSources, refreshSearchIndex, search } from '../services/searchIndex';
+import type { SearchDocument, SearchResult } from '../services/searchIndex';
+import { subscribeToConversations } from '../services/conversationStore';
+import { conversationSource } from '../services/conversationExport';
+import { getLocale } from '../services/i18n';
+import type { MessageKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import type { Feature } from '../types';
+import { MagnifyingGlassIcon, ClipboardIcon, SparklesIcon } from './icons/FeatureIcons';
+
+interface SearchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  features: Feature[];
+  onOpenMessage: (document: SearchDocument) => void;
+  onOpenFeature: (feature: Feature) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS: { days: number | null; label: MessageKey }[] = [
+  { days: null, label: 'search.periods.all' },
+  { days: 7, label: 'search.periods.week' },
+  { days: 30, label: 'search.periods.month' },
+  { days: 365, label: 'search.periods.year' },
+];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Searches saved conversations and cached generations (services/searchIndex.ts). A
+// message result opens its conversation scrolled to it; a generation is shown in place.
+const SearchPanel: React.FC<SearchPanelProps> = ({ isOpen, onClose, features, onOpenMessage, onOpenFeature }) => {
+  const { t, language } = useTranslation();
+  const [query, setQuery] = useState('');
+  // '' for everything, a feature id, or "<feature id>/<persona id>".
+  const [source, setSource] = useState('');
+  const [periodDays, setPeriodDays] = useState<number | null>(null);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setActiveIndex(0);
+    setExpandedId(null);
+    let cancelled = false;
+    const refresh = () => {
+      setIsIndexing(true);
+      refreshSearchIndex()
+        .then(() => {
+          if (cancelled) return;
+          setLoadError(null);
+          setIndexVersion(version => version + 1);
+        })
+        .catch(error => {
+          console.error('Failed to build the search index:', error);
+          if (!cancelled) setLoadError(t('search.loadFailed'));
+        })
+        .finally(() => {
+          if (!cancelled) setIsIndexing(false);
+        });
+    };
+    refresh();
+    const unsubscribe = subscribeToConversations(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isOpen]);
+
+  const sourceOptions = useMemo(() => {
+    const sources = listIndexedSources();
+    const options: { value: string; label: string }[] = [];
+    for (const feature of features) {
+      const featureSources = sources.filter(s => s.featureId === feature.id);
+      if (featureSources.length === 0) continue;
+      options.push({ value: feature.id, label: t(feature.name) });
+      for (const { personaId } of featureSources) {
+        if (personaId) options.push({ value: `${feature.id}/${personaId}`, label: `— ${conversationSource({ featureId: feature.id, personaId })}` });
+      }
+    }
+    return options;
+  }, [indexVersion, features, language]);
+
+  const results = useMemo<SearchResult[]>(() => {
+    const [featureId, personaId] = source.split('/');
+    return search(query, {
+      featureId: featureId || undefined,
+      personaId,
+      since: periodDays ? Date.now() - periodDays * DAY_MS : undefined,
+    });
+  }, [query, source, periodDays, indexVersion]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+    setExpandedId(null);
+  }, [query, source, periodDays]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const openResult = ({ document }: SearchResult) => {
+    if (document.kind === 'message') {
+      onClose();
+      onOpenMessage(document);
+    } else {
+      setExpandedId(expandedId === document.id ? null : document.id);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) openResult(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const selectClass = 'bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-2 focus:ring-violet-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-start justify-center z-50 backdrop-blur-sm pt-[10vh] px-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-2xl bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden animate-zoom-in"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('search.title')}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-zinc-800">
+          <MagnifyingGlassIcon className="w-5 h-5 text-zinc-500 flex-shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('search.placeholder')}
+            className="flex-1 bg-transparent py-4 text-white placeholder-zinc-500 focus:outline-none"
+            aria-label={t('search.title')}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-zinc-800">
+          <select value={source} onChange={e => setSource(e.target.value)} className={selectClass} aria-label={t('search.source')}>
+            <option value="">{t('search.allSources')}</option>
+            {sourceOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <select value={periodDays ?? ''} onChange={e => setPeriodDays(e.target.value ? Number(e.target.value) : null)} className={selectClass} aria-label={t('search.period')}>
+            {PERIODS.map(period => <option key={period.label} value={period.days ?? ''}>{t(period.label)}</option>)}
+          </select>
+          <span className="ml-auto text-xs text-zinc-500">
+            {isIndexing ? t('search.indexing') : query.trim() ? t('search.resultCount', { count: results.length }) : ''}
+          </span>
+        </div>
+
+        <ul ref={listRef} className="max-h-[60vh] overflow-y-auto p-2" role="listbox">
+          {loadError && <li className="px-3 py-6 text-center text-sm text-red-400">{loadError}</li>}
+          {!loadError && !query.trim() && <li className="px-3 py-6 text-center text-sm text-zinc-500">{t('search.hint')}</li>}
+          {!loadError && query.trim() && results.length === 0 && !isIndexing && (
+            <li className="px-3 py-6 text-center text-sm text-zinc-500">{t('search.noResults')}</li>
+          )}
+          {results.map((result, index) => {
+            const { document, snippet } = result;
+            const feature = features.find(f => f.id === document.featureId);
+            const Icon = feature?.Icon || SparklesIcon;
+            const isExpanded = expandedId === document.id;
+            const details = [
+              document.featureId ? conversationSource({ featureId: document.featureId, personaId: document.personaId }) : null,
+              document.kind === 'generation' ? t('search.generation') : t(document.role === 'user' ? 'search.roles.user' : 'search.roles.model'),
+              formatDate(document.timestamp),
+            ].filter(Boolean).join(' · ');
+            return (
+              <li
+                key={document.id}
+                data-index={index}
+                role="option"
+                aria-selected={index === activeIndex}
+                aria-expanded={document.kind === 'generation' ? isExpanded : undefined}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => openResult(result)}
+                className={`flex items-start gap-3 px-3 py-2 rounded-lg cursor-pointer ${index === activeIndex ? 'bg-violet-500/15 text-white' : 'text-zinc-300'}`}
+              >
+                <Icon className="w-5 h-5 mt-0.5 flex-shrink-0 text-violet-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{document.title}</p>
+                  <p className="text-sm text-zinc-400 break-words">
+                    {snippet.map((part, i) => part.match
+                      ? <mark key={i} className="bg-yellow-400/25 text-yellow-100 rounded px-0.5">{part.text}</mark>
+                      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+                  </p>
+                  <p className="text-xs text-zinc-500 truncate">{details}</p>
+                  {isExpanded && (
+                    <div className="mt-2" onClick={e => e.stopPropagation()}>
+                      <div className="max-h-60 overflow-y-auto p-3 bg-zinc-950 border border-zinc-800 rounded-lg text-sm text-zinc-200 whitespace-pre-wrap">{document.text}</div>
+                      <div className="flex gap-2 mt-2">
+                        <button
+                          onClick={() => navigator.clipboard.writeText(document.text).catch(err => console.error('Failed to copy text: ', err))}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+                        >
+                          <ClipboardIcon className="w-4 h-4" />
+                          {t('search.copy')}
+                        </button>
+                        {feature && (
+                          <button
+                            onClick={() => { onClose(); onOpenFeature(feature); }}
+                            className="px-3 py-1.5 text-xs font-semibold text-white bg-violet-600 hover:bg-violet-700 rounded-lg transition-colors"
+                          >
+                            {t('search.openFeature', { feature: t(feature.name) })}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -1,19 +1,36 @@
 import React from 'react';
-import type { Feature } from '../types';
-import { LockClosedIcon, SparklesIcon, HomeIcon } from './icons/FeatureIcons';
+import type { Feature, Tier } from '../types';
+import type { PremiumAccess } from '../services/accessService';
+import { TIERS, requiredTier } from '../services/entitlements';
+import { getLocale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import LanguageSwitcher from './LanguageSwitcher';
+import { LockClosedIcon, SparklesIcon, HomeIcon, StarIcon, ArrowRightOnRectangleIcon, ChartBarIcon, AdjustmentsHorizontalIcon, MagnifyingGlassIcon } from './icons/FeatureIcons';
 
 interface SidebarProps {
   features: Feature[];
   selectedFeature: Feature | null;
   onSelectFeature: (feature: Feature) => void;
-  isPremium: boolean;
+  isLocked: (feature: Feature) => boolean;
+  tier: Tier;
+  premiumAccess: PremiumAccess | null;
+  onSignOut: () => void;
+  onOpenUsage: () => void;
+  onOpenSearch: () => void;
+  onOpenApiKey: () => void;
+  onOpenModelSettings: () => void;
   isSidebarOpen: boolean;
+  // Hidden on wide screens too (it is always shown there otherwise).
+  isCollapsed: boolean;
   onGoHome: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ features, selectedFeature, onSelectFeature, isPremium, isSidebarOpen, onGoHome }) => {
-  const freeFeatures = features.filter(f => !f.isPremium);
-  const premiumFeatures = features.filter(f => f.isPremium);
+const Sidebar: React.FC<SidebarProps> = ({ features, selectedFeature, onSelectFeature, isLocked, tier, premiumAccess, onSignOut, onOpenUsage, onOpenSearch, onOpenApiKey, onOpenModelSettings, isSidebarOpen, isCollapsed, onGoHome }) => {
+  const { t } = useTranslation();
+  // One section per tier, holding the features that tier is the first to unlock.
+  const sections = TIERS
+    .map(t => ({ tier: t, features: features.filter(f => requiredTier(f.id).id === t.id) }))
+    .filter(section => section.features.length > 0);
 
   const renderFeatureList = (list: Feature[], title: string) => (
     <div>
@@ -33,8 +50,13 @@ const Sidebar: React.FC<SidebarProps> = ({ features, selectedFeature, onSelectFe
                 <span className="absolute left-0 top-1/2 -translate-y-1/2 h-5 w-1 bg-violet-500 rounded-r-full"></span>
               )}
               <feature.Icon className="w-5 h-5 mr-3 flex-shrink-0" />
-              <span className="flex-1 text-left truncate">{feature.name}</span>
-              {feature.isPremium && !isPremium && <LockClosedIcon className="w-4 h-4 text-yellow-500 flex-shrink-0" />}
+              <span className="flex-1 text-left truncate">{t(feature.name)}</span>
+              {isLocked(feature) && (
+                <span className="flex items-center gap-1 text-[10px] font-semibold uppercase text-yellow-500 flex-shrink-0" title={t('common.requiresTier', { tier: t(requiredTier(feature.id).name) })}>
+                  <LockClosedIcon className="w-3.5 h-3.5" />
+                  {t(requiredTier(feature.id).name)}
+                </span>
+              )}
             </button>
           </li>
         ))}
@@ -43,7 +65,7 @@ const Sidebar: React.FC<SidebarProps> = ({ features, selectedFeature, onSelectFe
   );
 
   return (
-    <aside className={`fixed top-0 left-0 h-full bg-zinc-900/70 backdrop-blur-lg border-r border-zinc-800/50 transition-transform duration-300 ease-in-out z-40 w-64 flex flex-col ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} md:translate-x-0`}>
+    <aside className={`fixed top-0 left-0 h-full bg-zinc-900/70 backdrop-blur-lg border-r border-zinc-800/50 transition-transform duration-300 ease-in-out z-40 w-64 flex flex-col ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} ${isCollapsed ? 'md:-translate-x-full' : 'md:translate-x-0'}`}>
       <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
          <div className="flex items-center space-x-2">
             <SparklesIcon className="w-7 h-7 text-violet-400"/>
@@ -59,15 +81,65 @@ const Sidebar: React.FC<SidebarProps> = ({ features, selectedFeature, onSelectFe
             className="w-full flex items-center p-2 rounded-md text-sm font-medium transition-all duration-200 group text-zinc-300 bg-zinc-800/50 hover:bg-zinc-700/50 hover:text-white border border-zinc-700"
             >
                 <HomeIcon className="w-5 h-5 mr-3 flex-shrink-0" />
-                <span className="flex-1 text-left truncate">Kembali ke Beranda</span>
+                <span className="flex-1 text-left truncate">{t('sidebar.home')}</span>
+            </button>
+           <button
+            onClick={onOpenSearch}
+            className="mt-2 w-full flex items-center p-2 rounded-md text-sm font-medium transition-all duration-200 group text-zinc-300 hover:bg-zinc-700/50 hover:text-white"
+            >
+                <MagnifyingGlassIcon className="w-5 h-5 mr-3 flex-shrink-0" />
+                <span className="flex-1 text-left truncate">{t('sidebar.search')}</span>
             </button>
+           <button
+            onClick={onOpenUsage}
+            className="mt-1 w-full flex items-center p-2 rounded-md text-sm font-medium transition-all duration-200 group text-zinc-300 hover:bg-zinc-700/50 hover:text-white"
+            >
+                <ChartBarIcon className="w-5 h-5 mr-3 flex-shrink-0" />
+                <span className="flex-1 text-left truncate">{t('sidebar.usage')}</span>
+            </button>
+           <button
+            onClick={onOpenApiKey}
+            className="mt-1 w-full flex items-center p-2 rounded-md text-sm font-medium transition-all duration-200 group text-zinc-300 hover:bg-zinc-700/50 hover:text-white"
+            >
+                <LockClosedIcon className="w-5 h-5 mr-3 flex-shrink-0" />
+                <span className="flex-1 text-left truncate">{t('sidebar.apiKey')}</span>
+            </button>
+           <button
+            onClick={onOpenModelSettings}
+            className="mt-1 w-full flex items-center p-2 rounded-md text-sm font-medium transition-all duration-200 group text-zinc-300 hover:bg-zinc-700/50 hover:text-white"
+            >
+                <AdjustmentsHorizontalIcon className="w-5 h-5 mr-3 flex-shrink-0" />
+                <span className="flex-1 text-left truncate">{t('sidebar.modelSettings')}</span>
+            </button>
+           <LanguageSwitcher className="mt-1 p-2" />
        </div>
 
       <nav className="flex-1 py-2 overflow-y-auto">
-        {renderFeatureList(freeFeatures, 'Fitur Gratis')}
-        <div className="my-4 border-t border-zinc-800/50"></div>
-        {renderFeatureList(premiumFeatures, 'Fitur Premium')}
+        {sections.map((section, index) => (
+          <React.Fragment key={section.tier.id}>
+            {index > 0 && <div className="my-4 border-t border-zinc-800/50"></div>}
+            {renderFeatureList(section.features, t('common.tierFeatures', { tier: t(section.tier.name) }))}
+          </React.Fragment>
+        ))}
       </nav>
+      {premiumAccess && (
+        <div className="mx-2 mb-2 p-3 rounded-lg border border-violet-500/30 bg-violet-500/10">
+          <div className="flex items-center gap-2 text-sm font-semibold text-violet-300">
+            <StarIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{t('sidebar.tierActive', { tier: t(tier.name) })}</span>
+          </div>
+          <p className="mt-1 text-xs text-zinc-400">
+            {t('sidebar.validUntil', { date: new Date(premiumAccess.expiresAt).toLocaleString(getLocale(), { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }) })}
+          </p>
+          <button
+            onClick={onSignOut}
+            className="mt-2 flex items-center gap-1.5 text-xs font-medium text-zinc-400 hover:text-white transition-colors"
+          >
+            <ArrowRightOnRectangleIcon className="w-4 h-4" />
+            {t('sidebar.signOut')}
+          </button>
+        </div>
+      )}
        <div className="p-4 border-t border-zinc-800 text-center">
           <p className="text-xs text-zinc-500">© YAN OFFICIAL</p>
       </div>
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { clearUsage, listUsage, subscribeToUsage, toDayKey, totalTokens } from '../services/usageLedger';
+import { getLocale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import type { Feature, Tier, UsageEntry } from '../types';
+import { TrashIcon } from './icons/FeatureIcons';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  features: Feature[];
+  tier: Tier;
+}
+
+interface UsageTotals {
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  responseTokens: number;
+  media: number;
+  latencyMs: number;
+  estimated: boolean;
+}
+
+const HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, errors: 0, promptTokens: 0, responseTokens: 0, media: 0, latencyMs: 0, estimated: false });
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry) => {
+  totals.requests += 1;
+  if (entry.status === 'error') totals.errors += 1;
+  totals.promptTokens += entry.promptTokens;
+  totals.responseTokens += entry.responseTokens;
+  totals.media += entry.media;
+  totals.latencyMs += entry.latencyMs;
+  totals.estimated ||= entry.estimated;
+};
+
+const groupBy = (entries: UsageEntry[], key: (entry: UsageEntry) => string) => {
+  const groups = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const totals = groups.get(key(entry)) || emptyTotals();
+    addEntry(totals, entry);
+    groups.set(key(entry), totals);
+  }
+  return groups;
+};
+
+const formatNumber = (value: number) => value.toLocaleString(getLocale());
+
+// Estimated counts are marked with "~" so they aren't read as exact.
+const formatTokens = (totals: UsageTotals) =>
+  `${totals.estimated ? '~' : ''}${formatNumber(totals.promptTokens + totals.responseTokens)}`;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(getLocale(), { weekday: 'short', day: 'numeric', month: 'short' });
+
+const LimitBar: React.FC<{ label: string; used: number; limit: number | null }> = ({ label, used, limit }) => {
+  const { t } = useTranslation();
+  const ratio = limit ? Math.min(1, used / limit) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-zinc-400">{label}</span>
+        <span className="text-zinc-200">{formatNumber(used)}{limit !== null ? ` / ${formatNumber(limit)}` : ` ${t('usage.unlimited')}`}</span>
+      </div>
+      {limit !== null && (
+        <div className="mt-1.5 h-2 rounded-full bg-zinc-800 overflow-hidden">
+          <div className={`h-full rounded-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-violet-500'}`} style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, features, tier }) => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = () => {
+      listUsage(Date.now() - HISTORY_DAYS * DAY_MS)
+        .then(result => {
+          setEntries(result);
+          setLoadError(null);
+        })
+        .catch(error => {
+          console.error('Failed to load usage:', error);
+          setLoadError(t('usage.loadFailed'));
+        });
+    };
+    load();
+    return subscribeToUsage(load);
+  }, [isOpen]);
+
+  const { today, days, byFeature } = useMemo(() => {
+    const todayKey = toDayKey(Date.now());
+    const todayEntries = entries.filter(entry => entry.day === todayKey && entry.status !== 'error');
+    return {
+      today: {
+        requests: todayEntries.length,
+        tokens: todayEntries.reduce((sum, entry) => sum + totalTokens(entry), 0),
+      },
+      days: [...groupBy(entries, entry => entry.day)].sort(([a], [b]) => b.localeCompare(a)),
+      byFeature: [...groupBy(entries, entry => entry.featureId ?? '')].sort(([, a], [, b]) => b.requests - a.requests),
+    };
+  }, [entries]);
+
+  if (!isOpen) return null;
+
+  const featureName = (featureId: string) => {
+    const feature = features.find(f => f.id === featureId);
+    return feature ? t(feature.name) : featureId || t('usage.other');
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usage.confirmClear'))) return;
+    try {
+      await clearUsage();
+    } catch (error) {
+      console.error('Failed to clear usage:', error);
+    }
+  };
+
+  const headerCell = 'px-3 py-2 text-left text-xs font-semibold text-zinc-500 uppercase tracking-wider';
+  const cell = 'px-3 py-2 text-sm text-zinc-300 whitespace-nowrap';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-md" onMouseDown={onClose}>
+      <div
+        className="bg-zinc-900 rounded-2xl shadow-2xl p-6 md:p-8 border border-zinc-800 w-full max-w-3xl m-4 max-h-[90vh] overflow-y-auto animate-zoom-in"
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('usage.title')}
+      >
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{t('usage.title')}</h2>
+            <p className="text-zinc-400 mt-1">{t('usage.subtitle', { days: HISTORY_DAYS })}</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors text-2xl leading-none" aria-label={t('common.close')}>&times;</button>
+        </div>
+
+        {loadError && <p className="mb-4 text-sm text-red-400">{loadError}</p>}
+
+        <section className="bg-zinc-800/50 border border-zinc-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-sm font-semibold text-white">{t('usage.today', { tier: t(tier.name) })}</h3>
+          <LimitBar label={t('usage.requests')} used={today.requests} limit={tier.quotas.dailyRequests} />
+          <LimitBar label={t('usage.tokens')} used={today.tokens} limit={tier.quotas.dailyTokens} />
+        </section>
+
+        {entries.length === 0 ? (
+          <p className="mt-6 text-center text-sm text-zinc-500">{t('usage.empty')}</p>
+        ) : (
+          <>
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-white">{t('usage.byFeature')}</h3>
+            <div className="overflow-x-auto border border-zinc-800 rounded-lg">
+              <table className="w-full">
+                <thead className="bg-zinc-800/50">
+                  <tr>
+                    <th className={headerCell}>{t('usage.feature')}</th>
+                    <th className={headerCell}>{t('usage.requests')}</th>
+                    <th className={headerCell}>{t('usage.tokens')}</th>
+                    <th className={headerCell}>{t('usage.media')}</th>
+                    <th className={headerCell}>{t('usage.averageLatency')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {byFeature.map(([featureId, totals]) => (
+                    <tr key={featureId}>
+                      <td className={`${cell} text-white`}>{featureName(featureId)}</td>
+                      <td className={cell}>
+                        {formatNumber(totals.requests)}
+                        {totals.errors > 0 && <span className="ml-1 text-xs text-red-400">{t('usage.failed', { count: totals.errors })}</span>}
+                      </td>
+                      <td className={cell}>{formatTokens(totals)}</td>
+                      <td className={cell}>{totals.media ? formatNumber(totals.media) : '–'}</td>
+                      <td className={cell}>{t('usage.seconds', { value: (totals.latencyMs / totals.requests / 1000).toFixed(1) })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-white">{t('usage.byDay')}</h3>
+            <div className="overflow-x-auto border border-zinc-800 rounded-lg">
+              <table className="w-full">
+                <thead className="bg-zinc-800/50">
+                  <tr>
+                    <th className={headerCell}>{t('usage.date')}</th>
+                    <th className={headerCell}>{t('usage.requests')}</th>
+                    <th className={headerCell}>{t('usage.promptTokens')}</th>
+                    <th className={headerCell}>{t('usage.responseTokens')}</th>
+                    <th className={headerCell}>{t('usage.media')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {days.map(([day, totals]) => (
+                    <tr key={day}>
+                      <td className={`${cell} text-white`}>{formatDay(day)}</td>
+                      <td className={cell}>{formatNumber(totals.requests)}</td>
+                      <td className={cell}>{totals.estimated ? '~' : ''}{formatNumber(totals.promptTokens)}</td>
+                      <td className={cell}>{totals.estimated ? '~' : ''}{formatNumber(totals.responseTokens)}</td>
+                      <td className={cell}>{totals.media ? formatNumber(totals.media) : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={handleClear}
+              className="mt-6 flex items-center gap-1.5 text-sm font-medium text-zinc-400 hover:text-red-400 transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+              {t('usage.clear')}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -49,100 +49,76 @@ import {
   MapIcon,
 } from './components/icons/FeatureIcons';
 
-export const ACCESS_CODES = {
-  PRIVATE: '030910',
-  PUBLIC: '090311',
-};
-
+// Which tier unlocks each feature is configured in services/entitlements.ts.
 export const FEATURES: Feature[] = [
   // --- Gratis ---
   {
     id: 'ai-chat',
-    name: 'AI Chat',
-    description: 'Chat serbaguna untuk tanya apa pun — dari ilmu pengetahuan sampai ide kreatif.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.ai-chat.name',
+    description: 'features.ai-chat.description',
     Icon: SparklesIcon,
     component: AiChat,
   },
   {
     id: 'teman-curhat',
-    name: 'Teman Curhat',
-    description: 'Ngobrol santai dengan AI yang bisa mendengarkan keluh kesah Anda.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.teman-curhat.name',
+    description: 'features.teman-curhat.description',
     Icon: ChatBubbleIcon,
     component: TemanCurhat,
   },
   {
     id: 'mail-composer',
-    name: 'Mail Composer',
-    description: 'Buat draf email profesional atau santai dari poin-poin singkat.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.mail-composer.name',
+    description: 'features.mail-composer.description',
     Icon: EnvelopeIcon,
     component: MailComposer,
   },
   {
     id: 'text-summarizer',
-    name: 'Text Summarizer',
-    description: 'Meringkas teks atau artikel panjang secara otomatis untuk menghemat waktu.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.text-summarizer.name',
+    description: 'features.text-summarizer.description',
     Icon: ScissorsIcon,
     component: TextSummarizer,
   },
   {
     id: 'code-assistant',
-    name: 'Code Generator',
-    description: 'Hasilkan cuplikan kode, fungsi, atau seluruh skrip dari deskripsi teks.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.code-assistant.name',
+    description: 'features.code-assistant.description',
     Icon: CodeBracketIcon,
     component: CodeAssistant,
   },
    {
     id: 'image-analyzer',
-    name: 'Image Analyzer',
-    description: 'Unggah gambar lalu ajukan pertanyaan untuk mendapatkan analisis dari AI.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.image-analyzer.name',
+    description: 'features.image-analyzer.description',
     Icon: ViewfinderIcon,
     component: ImageAnalyzer,
   },
   {
     id: 'audio-transcriber',
-    name: 'Audio Transcriber',
-    description: 'Mengubah rekaman suara atau audio menjadi teks secara otomatis.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.audio-transcriber.name',
+    description: 'features.audio-transcriber.description',
     Icon: WaveformIcon,
     component: AudioTranscriber,
   },
   {
     id: 'text-to-speech',
-    name: 'Text-to-Speech',
-    description: 'Mengubah teks menjadi suara AI natural dengan pilihan gaya bicara.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.text-to-speech.name',
+    description: 'features.text-to-speech.description',
     Icon: SpeakerWaveIcon,
     component: TextToSpeech,
   },
   {
     id: 'lyrics-generator',
-    name: 'Lyrics Generator',
-    description: 'Menciptakan lirik lagu orisinal berdasarkan genre dan tema.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.lyrics-generator.name',
+    description: 'features.lyrics-generator.description',
     Icon: MusicNoteIcon,
     component: LyricsGenerator,
   },
   {
     id: 'eli5-explainer',
-    name: 'ELI5 Explainer',
-    description: 'Menjelaskan topik rumit dengan bahasa sederhana.',
-    isPremium: false,
-    category: 'Gratis',
+    name: 'features.eli5-explainer.name',
+    description: 'features.eli5-explainer.description',
     Icon: FaceSmileIcon,
     component: Eli5Explainer,
   },
@@ -150,118 +126,92 @@ export const FEATURES: Feature[] = [
   // --- Premium ---
   {
     id: 'code-refiner',
-    name: 'Code Refiner',
-    description: 'Dapatkan review kode mendalam untuk menemukan bug dan meningkatkan kualitas.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.code-refiner.name',
+    description: 'features.code-refiner.description',
     Icon: PencilSquareIcon,
     component: CodeRefiner,
   },
   {
     id: 'ai-image-generator',
-    name: 'AI Image Generator',
-    description: 'Menghasilkan gambar artistik atau realistis dari deskripsi teks.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.ai-image-generator.name',
+    description: 'features.ai-image-generator.description',
     Icon: PhotoIcon,
     component: ImageCreator,
   },
   {
     id: 'image-editor',
-    name: 'AI Image Editor',
-    description: 'Unggah dan edit gambar menggunakan perintah teks sederhana.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.image-editor.name',
+    description: 'features.image-editor.description',
     Icon: PaintBrushIcon,
     component: ImageEditor,
   },
   {
     id: 'video-generator',
-    name: 'Video Generator',
-    description: 'Buat video pendek dari gambar dan teks.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.video-generator.name',
+    description: 'features.video-generator.description',
     Icon: VideoCameraIcon,
     component: VideoGenerator,
   },
   {
     id: 'essay-writer',
-    name: 'Penulis Esai',
-    description: 'Bantuan AI untuk menyusun draf esai, artikel, atau tugas menulis.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.essay-writer.name',
+    description: 'features.essay-writer.description',
     Icon: BookOpenIcon,
     component: EssayWriter,
   },
   {
     id: 'story-writer',
-    name: 'Story Writer',
-    description: 'Hasilkan cerita pendek atau panjang berdasarkan ide Anda.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.story-writer.name',
+    description: 'features.story-writer.description',
     Icon: PencilSquareIcon, // Re-using this icon as it also fits "writing"
     component: StoryWriter,
   },
    {
     id: 'tanya-web',
-    name: 'Tanya Web',
-    description: 'Dapatkan jawaban akurat dan terkini dari internet, didukung oleh Google Search.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.tanya-web.name',
+    description: 'features.tanya-web.description',
     Icon: GlobeIcon,
     component: TanyaWeb,
   },
   {
     id: 'location-finder',
-    name: 'Pencari Lokasi',
-    description: 'Temukan tempat menarik di sekitar Anda atau di lokasi mana pun, didukung oleh Google Maps.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.location-finder.name',
+    description: 'features.location-finder.description',
     Icon: MapIcon,
     component: LocationFinder,
   },
   {
     id: 'persona-chat',
-    name: 'Persona Chat',
-    description: 'Ngobrol dengan AI yang berperan sebagai berbagai karakter ahli.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.persona-chat.name',
+    description: 'features.persona-chat.description',
     Icon: UserGroupIcon,
     component: PersonaChat,
   },
   {
     id: 'github-assistant',
-    name: 'GitHub Assistant',
-    description: 'Generate READMEs, commit messages, .gitignore files, and more.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.github-assistant.name',
+    description: 'features.github-assistant.description',
     Icon: GitHubIcon,
     component: GitHubAssistant,
   },
   {
     id: 'live-ai-chat',
-    name: 'Live AI Chat',
-    description: 'Chat real-time dengan suara — Anda bicara dan AI menjawab langsung.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.live-ai-chat.name',
+    description: 'features.live-ai-chat.description',
     Icon: MicrophoneIcon,
     component: LiveAiChat,
   },
   {
     id: 'email-header-analyzer',
-    name: 'Email Header Analyzer',
-    description: 'Analisis jejak email dan periksa protokol keamanan untuk mendeteksi ancaman.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.email-header-analyzer.name',
+    description: 'features.email-header-analyzer.description',
     Icon: ShieldCheckIcon,
     component: EmailHeaderAnalyzer,
   },
   {
     id: 'code-packager',
-    name: 'APK Builder',
-    description: 'Menganalisis package.json Anda untuk membuat APK, log build, dan semua file konfigurasi Android yang diperlukan.',
-    isPremium: true,
-    category: 'Premium',
+    name: 'features.code-packager.name',
+    description: 'features.code-packager.description',
     Icon: CubeTransparentIcon,
     component: CodePackager,
   },
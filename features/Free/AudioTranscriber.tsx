@@ -1,11 +1,14 @@
 import React, { useState, useRef } from 'react';
-import { transcribeAudio } from '../../services/geminiService';
+import { transcribeAudio, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { useTranslation } from '../../hooks/useTranslation';
 import { blobToBase64 } from '../../utils/helpers';
 import { MicrophoneIcon } from '../../components/icons/FeatureIcons';
 
 type RecordingState = 'idle' | 'recording' | 'processing';
 
 const AudioTranscriber: React.FC = () => {
+  const { t } = useTranslation();
   const [state, setState] = useState<RecordingState>('idle');
   const [transcript, setTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -31,7 +34,7 @@ const AudioTranscriber: React.FC = () => {
           const result = await transcribeAudio(base64, audioBlob.type);
           setTranscript(result);
         } catch (err) {
-          setError('Failed to transcribe audio. Please try again.');
+          setError(getErrorMessage(err, t('transcriber.failed')));
           console.error(err);
         } finally {
           setState('idle');
@@ -44,7 +47,7 @@ const AudioTranscriber: React.FC = () => {
       setError(null);
       setTranscript('');
     } catch (err) {
-      setError('Microphone access denied. Please allow microphone access in your browser settings.');
+      setError(t('common.microphoneDenied'));
       console.error(err);
     }
   };
@@ -60,13 +63,13 @@ const AudioTranscriber: React.FC = () => {
       case 'idle':
         return (
           <button onClick={handleStartRecording} className="w-full bg-violet-600 hover:bg-violet-700 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)]">
-            Start Recording
+            {t('transcriber.start')}
           </button>
         );
       case 'recording':
         return (
           <button onClick={handleStopRecording} className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-lg transition-all flex items-center justify-center shadow-[0_0_20px_rgba(220,38,38,0.4)] animate-pulse">
-            Stop Recording
+            {t('transcriber.stop')}
           </button>
         );
       case 'processing':
@@ -76,7 +79,7 @@ const AudioTranscriber: React.FC = () => {
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            Transcribing...
+            {t('transcriber.transcribing')}
           </button>
         );
     }
@@ -85,8 +88,8 @@ const AudioTranscriber: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Audio Transcriber</h2>
-        <p className="text-sm text-zinc-400">Mengubah rekaman suara menjadi teks secara otomatis.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.audio-transcriber.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.audio-transcriber.description')}</p>
       </div>
       
       <div className="flex-shrink-0 mb-4">{getButton()}</div>
@@ -96,12 +99,12 @@ const AudioTranscriber: React.FC = () => {
           {state === 'recording' && (
             <div className="flex items-center text-red-400 animate-pulse">
               <MicrophoneIcon className="w-5 h-5 mr-2" />
-              Recording in progress...
+              {t('transcriber.recording')}
             </div>
           )}
-          {error && <p className="text-red-400">{error}</p>}
+          <ErrorNotice message={error} />
           {transcript}
-          {state === 'idle' && !transcript && !error && <p className="text-zinc-500">Your transcript will appear here.</p>}
+          {state === 'idle' && !transcript && !error && <p className="text-zinc-500">{t('transcriber.empty')}</p>}
         </div>
       </div>
     </div>
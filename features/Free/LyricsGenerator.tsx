@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { generateText } from '../../services/geminiService';
+import { generateText, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const LyricsGenerator: React.FC = () => {
+  const { t } = useTranslation();
   const [genre, setGenre] = useState('');
   const [theme, setTheme] = useState('');
   const [lyrics, setLyrics] = useState('');
@@ -22,7 +25,7 @@ const LyricsGenerator: React.FC = () => {
       const result = await generateText(prompt, systemInstruction);
       setLyrics(result);
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -32,15 +35,15 @@ const LyricsGenerator: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Lyrics Generator</h2>
-        <p className="text-sm text-zinc-400">Menciptakan lirik lagu orisinal berdasarkan genre dan tema.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.lyrics-generator.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.lyrics-generator.description')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4 mb-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label htmlFor="genre" className="block text-sm font-medium text-zinc-300 mb-2">
-                Genre
+                {t('lyrics.genre')}
               </label>
               <input
                 id="genre"
@@ -48,13 +51,13 @@ const LyricsGenerator: React.FC = () => {
                 value={genre}
                 onChange={(e) => setGenre(e.target.value)}
                 className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-                placeholder="Contoh: Pop, Rock, Rap"
+                placeholder={t('lyrics.genrePlaceholder')}
                 required
               />
             </div>
             <div>
               <label htmlFor="theme" className="block text-sm font-medium text-zinc-300 mb-2">
-                Tema / Topik
+                {t('lyrics.theme')}
               </label>
               <input
                 id="theme"
@@ -62,7 +65,7 @@ const LyricsGenerator: React.FC = () => {
                 value={theme}
                 onChange={(e) => setTheme(e.target.value)}
                 className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-                placeholder="Contoh: Patah hati, Perjalanan, Semangat"
+                placeholder={t('lyrics.themePlaceholder')}
                 required
               />
             </div>
@@ -78,16 +81,16 @@ const LyricsGenerator: React.FC = () => {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Writing...
+              {t('lyrics.writing')}
             </>
-          ) : "Generate Lyrics"}
+          ) : t('lyrics.submit')}
         </button>
       </form>
       
       <div className="flex-1 overflow-y-auto pr-2">
         <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 min-h-[200px] text-zinc-300 whitespace-pre-wrap leading-relaxed">
-          {isLoading && <p className="text-zinc-500 animate-pulse">Crafting your next hit...</p>}
-          {error && <p className="text-red-400">{error}</p>}
+          {isLoading && <p className="text-zinc-500 animate-pulse">{t('lyrics.loading')}</p>}
+          <ErrorNotice message={error} />
           {lyrics}
         </div>
       </div>
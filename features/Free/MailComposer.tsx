@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
-import { generateEmail } from '../../services/geminiService';
+import { generateEmail, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
 import { ClipboardIcon, CheckIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
-const TONES = ['Formal', 'Santai', 'Persuasif', 'Langsung ke Poin', 'Ramah'];
+// Sent to the model as is (in English); the labels come from mailComposer.tones.
+const TONES = ['formal', 'casual', 'persuasive', 'direct', 'friendly'] as const;
 
 const MailComposer: React.FC = () => {
+    const { t } = useTranslation();
     const [to, setTo] = useState('');
     const [from, setFrom] = useState('');
     const [subject, setSubject] = useState('');
-    const [tone, setTone] = useState(TONES[0]);
+    const [tone, setTone] = useState<typeof TONES[number]>(TONES[0]);
     const [points, setPoints] = useState('');
     const [generatedEmail, setGeneratedEmail] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -28,8 +32,8 @@ const MailComposer: React.FC = () => {
             const result = await generateEmail(to, from, subject, tone, points);
             setGeneratedEmail(result);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An error occurred. Please try again.';
-            setError(errorMessage);
+            setError(getErrorMessage(err));
+            console.error(err);
         } finally {
             setIsLoading(false);
         }
@@ -46,8 +50,8 @@ const MailComposer: React.FC = () => {
     return (
         <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
             <div className="flex-shrink-0 mb-4">
-                <h2 className="text-xl font-bold text-white">Mail Composer</h2>
-                <p className="text-sm text-zinc-400">Buat draf email profesional atau santai dari poin-poin singkat.</p>
+                <h2 className="text-xl font-bold text-white">{t('features.mail-composer.name')}</h2>
+                <p className="text-sm text-zinc-400">{t('features.mail-composer.description')}</p>
             </div>
 
             <div className="flex-1 flex flex-col md:flex-row gap-6 overflow-hidden">
@@ -55,49 +59,49 @@ const MailComposer: React.FC = () => {
                 <form onSubmit={handleSubmit} className="w-full md:w-1/2 flex flex-col space-y-4 overflow-y-auto pr-2">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div>
-                            <label htmlFor="to" className="block text-sm font-medium text-zinc-300 mb-2">Untuk (Opsional)</label>
-                            <input id="to" type="email" value={to} onChange={(e) => setTo(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder="penerima@email.com"/>
+                            <label htmlFor="to" className="block text-sm font-medium text-zinc-300 mb-2">{t('mailComposer.to')}</label>
+                            <input id="to" type="email" value={to} onChange={(e) => setTo(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder={t('mailComposer.toPlaceholder')}/>
                         </div>
                         <div>
-                            <label htmlFor="from" className="block text-sm font-medium text-zinc-300 mb-2">Dari (Opsional)</label>
-                            <input id="from" type="email" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder="pengirim@email.com"/>
+                            <label htmlFor="from" className="block text-sm font-medium text-zinc-300 mb-2">{t('mailComposer.from')}</label>
+                            <input id="from" type="email" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder={t('mailComposer.fromPlaceholder')}/>
                         </div>
                     </div>
                     <div>
-                        <label htmlFor="subject" className="block text-sm font-medium text-zinc-300 mb-2">Subjek</label>
-                        <input id="subject" type="text" value={subject} onChange={(e) => setSubject(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder="Contoh: Lamaran Posisi Frontend Developer" required/>
+                        <label htmlFor="subject" className="block text-sm font-medium text-zinc-300 mb-2">{t('mailComposer.subject')}</label>
+                        <input id="subject" type="text" value={subject} onChange={(e) => setSubject(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder={t('mailComposer.subjectPlaceholder')} required/>
                     </div>
                     <div>
-                        <label htmlFor="tone" className="block text-sm font-medium text-zinc-300 mb-2">Gaya Bahasa</label>
-                        <select id="tone" value={tone} onChange={(e) => setTone(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1">
-                            {TONES.map(t => <option key={t} value={t}>{t}</option>)}
+                        <label htmlFor="tone" className="block text-sm font-medium text-zinc-300 mb-2">{t('mailComposer.tone')}</label>
+                        <select id="tone" value={tone} onChange={(e) => setTone(e.target.value as typeof TONES[number])} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1">
+                            {TONES.map(option => <option key={option} value={option}>{t(`mailComposer.tones.${option}`)}</option>)}
                         </select>
                     </div>
                     <div className="flex-1 flex flex-col">
-                        <label htmlFor="points" className="block text-sm font-medium text-zinc-300 mb-2">Poin-poin Utama</label>
-                        <textarea id="points" rows={6} value={points} onChange={(e) => setPoints(e.target.value)} className="w-full flex-1 bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder="- Perkenalkan diri&#10;- Sampaikan ketertarikan pada posisi X&#10;- Lampirkan CV" required/>
+                        <label htmlFor="points" className="block text-sm font-medium text-zinc-300 mb-2">{t('mailComposer.points')}</label>
+                        <textarea id="points" rows={6} value={points} onChange={(e) => setPoints(e.target.value)} className="w-full flex-1 bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1" placeholder={t('mailComposer.pointsPlaceholder')} required/>
                     </div>
                     <button
                         type="submit"
                         disabled={isLoading || !subject.trim() || !points.trim()}
                         className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
                     >
-                        {isLoading ? 'Menulis...' : 'Generate Email'}
+                        {isLoading ? t('mailComposer.writing') : t('mailComposer.submit')}
                     </button>
                 </form>
 
                 {/* Right Panel: Result */}
                 <div className="w-full md:w-1/2 flex flex-col">
                     <div className="flex justify-between items-center mb-2">
-                        <label className="block text-sm font-medium text-zinc-300">Hasil Draf</label>
+                        <label className="block text-sm font-medium text-zinc-300">{t('mailComposer.result')}</label>
                         <button onClick={handleCopy} disabled={!generatedEmail || isLoading} className="flex items-center gap-2 text-sm text-zinc-400 hover:text-white disabled:opacity-50 transition-colors">
                             {isCopied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
-                            {isCopied ? 'Tersalin!' : 'Salin'}
+                            {isCopied ? t('common.copied') : t('common.copy')}
                         </button>
                     </div>
                     <div className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg p-4 text-zinc-300 whitespace-pre-wrap overflow-y-auto">
-                        {isLoading && <p className="text-zinc-500 animate-pulse">Menyusun email...</p>}
-                        {error && <p className="text-red-400">{error}</p>}
+                        {isLoading && <p className="text-zinc-500 animate-pulse">{t('mailComposer.loading')}</p>}
+                        <ErrorNotice message={error} />
                         {generatedEmail}
                     </div>
                 </div>
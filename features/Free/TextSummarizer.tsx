@@ -1,61 +1,73 @@
 import React, { useState } from 'react';
-import { generateText } from '../../services/geminiService';
+import { generateText, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import CachedNotice from '../../components/CachedNotice';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const TextSummarizer: React.FC = () => {
+  const { t } = useTranslation();
   const [inputText, setInputText] = useState('');
   const [summary, setSummary] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // A text summarized before is answered from the response cache unless `fresh` is set.
+  const summarize = async (fresh: boolean) => {
     if (!inputText.trim() || isLoading) return;
 
     setIsLoading(true);
     setError(null);
     setSummary('');
+    setCachedAt(null);
 
     try {
       const systemInstruction = "You are a highly skilled text summarizer. Your task is to read the following text and provide a concise, clear, and accurate summary. Capture the main points and key information, ignoring any trivial details. The summary should be easy to read and understand.";
-      const result = await generateText(inputText, systemInstruction);
+      const result = await generateText(inputText, systemInstruction, { cache: { fresh, onHit: setCachedAt } });
       setSummary(result);
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    summarize(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Text Summarizer</h2>
-        <p className="text-sm text-zinc-400">Meringkas teks atau artikel panjang secara otomatis.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.text-summarizer.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('summarizer.subtitle')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4 flex-1 flex flex-col">
         <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="flex flex-col">
               <label htmlFor="inputText" className="block text-sm font-medium text-zinc-300 mb-2">
-                Teks Asli
+                {t('summarizer.original')}
               </label>
               <textarea
                 id="inputText"
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
                 className="w-full flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-                placeholder="Tempel teks yang ingin diringkas di sini..."
+                placeholder={t('summarizer.placeholder')}
                 required
               />
             </div>
              <div className="flex flex-col">
               <label htmlFor="summary" className="block text-sm font-medium text-zinc-300 mb-2">
-                Ringkasan
+                {t('summarizer.summary')}
               </label>
               <div className="w-full flex-1 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-zinc-300 whitespace-pre-wrap overflow-y-auto">
-                {isLoading ? <p className="text-zinc-500 animate-pulse">Summarizing...</p> : summary}
-                {error && <p className="text-red-400">{error}</p>}
+                <CachedNotice cachedAt={cachedAt} onRegenerate={() => summarize(true)} disabled={isLoading} className="mb-2" />
+                {isLoading ? <p className="text-zinc-500 animate-pulse">{t('summarizer.loading')}</p> : summary}
+                <ErrorNotice message={error} />
               </div>
             </div>
         </div>
@@ -70,9 +82,9 @@ const TextSummarizer: React.FC = () => {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Processing...
+              {t('common.processing')}
             </>
-          ) : "Summarize Text"}
+          ) : t('summarizer.submit')}
         </button>
       </form>
     </div>
@@ -1,11 +1,15 @@
 import React, { useState, useRef } from 'react';
-import { generateSpeech } from '../../services/geminiService';
-
-const VOICES = ['Kore', 'Puck', 'Zephyr', 'Charon', 'Fenrir'];
+import { generateSpeech, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useSpeech } from '../../hooks/useSpeech';
+import { VOICES, setSpeechVoice } from '../../services/speech';
 
 const TextToSpeech: React.FC = () => {
+  const { t } = useTranslation();
   const [text, setText] = useState('');
-  const [voice, setVoice] = useState(VOICES[0]);
+  // Also the voice chats read replies with.
+  const { voice } = useSpeech();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
@@ -24,10 +28,10 @@ const TextToSpeech: React.FC = () => {
       if (audioBase64) {
         setAudioSrc(`data:audio/mpeg;base64,${audioBase64}`);
       } else {
-        setError('Gagal menghasilkan audio. Silakan coba lagi.');
+        setError(t('textToSpeech.failed'));
       }
     } catch (err) {
-      setError('Terjadi kesalahan. Silakan coba lagi.');
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -37,15 +41,15 @@ const TextToSpeech: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 space-y-4 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0">
-        <h2 className="text-xl font-bold text-white">Text-to-Speech</h2>
-        <p className="text-sm text-zinc-400">Mengubah teks menjadi suara AI natural.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.text-to-speech.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.text-to-speech.description')}</p>
       </div>
 
       <div className="flex-1 flex flex-col overflow-hidden">
         <form onSubmit={handleSubmit} className="space-y-4 flex-1 flex flex-col">
           <div className="flex-1 flex flex-col">
             <label htmlFor="text" className="block text-sm font-medium text-zinc-300 mb-2">
-              Teks
+              {t('textToSpeech.text')}
             </label>
             <textarea
               id="text"
@@ -53,26 +57,26 @@ const TextToSpeech: React.FC = () => {
               value={text}
               onChange={(e) => setText(e.target.value)}
               className="w-full flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-              placeholder="Ketik teks yang ingin diubah menjadi suara di sini..."
+              placeholder={t('textToSpeech.placeholder')}
               required
             />
           </div>
 
           <div>
             <label htmlFor="voice" className="block text-sm font-medium text-zinc-300 mb-2">
-              Pilih Suara
+              {t('textToSpeech.voice')}
             </label>
             <select
               id="voice"
               value={voice}
-              onChange={(e) => setVoice(e.target.value)}
+              onChange={(e) => setSpeechVoice(e.target.value)}
               className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
             >
               {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
             </select>
           </div>
           
-          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <ErrorNotice message={error} />
 
           <button
             type="submit"
@@ -85,20 +89,20 @@ const TextToSpeech: React.FC = () => {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Generating...
+                {t('textToSpeech.generating')}
               </>
-            ) : "Generate Speech"}
+            ) : t('textToSpeech.submit')}
           </button>
         </form>
 
         <div className="pt-4 mt-4 border-t border-zinc-800">
-           <h3 className="text-lg font-semibold mb-2 text-white">Result</h3>
+           <h3 className="text-lg font-semibold mb-2 text-white">{t('textToSpeech.result')}</h3>
            <div className="w-full h-16 bg-zinc-950 rounded-lg flex items-center justify-center border border-zinc-800">
                 {audioSrc && !isLoading && (
                     <audio ref={audioRef} src={audioSrc} controls autoPlay className="w-full px-2" />
                 )}
-                {isLoading && <p className="text-zinc-400 animate-pulse">Generating audio...</p>}
-                {!audioSrc && !isLoading && <p className="text-zinc-500">Audio akan muncul di sini</p>}
+                {isLoading && <p className="text-zinc-400 animate-pulse">{t('textToSpeech.loading')}</p>}
+                {!audioSrc && !isLoading && <p className="text-zinc-500">{t('textToSpeech.empty')}</p>}
            </div>
         </div>
       </div>
@@ -1,36 +1,47 @@
 import React, { useState } from 'react';
-import { reviewCode } from '../../services/geminiService';
+import { reviewCode, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import CachedNotice from '../../components/CachedNotice';
 import type { CodeReviewResult } from '../../services/geminiService';
 import MessageContent from '../../components/MessageContent';
 import { SparklesIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const LANGUAGES = ['JavaScript', 'Python', 'TypeScript', 'Java', 'Go', 'HTML', 'CSS', 'SQL'];
 
 const CodeRefiner: React.FC = () => {
+    const { t } = useTranslation();
     const [code, setCode] = useState('');
     const [language, setLanguage] = useState(LANGUAGES[0]);
     const [result, setResult] = useState<CodeReviewResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // Code reviewed before is answered from the response cache unless `fresh` is set.
+    const review = async (fresh: boolean) => {
         if (!code.trim() || isLoading) return;
 
         setIsLoading(true);
         setError(null);
         setResult(null);
+        setCachedAt(null);
 
         try {
-            const reviewResult = await reviewCode(code, language);
+            const reviewResult = await reviewCode(code, language, { cache: { fresh, onHit: setCachedAt } });
             setResult(reviewResult);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An error occurred. Please check the code and try again.';
-            setError(errorMessage);
+            setError(getErrorMessage(err));
+            console.error(err);
         } finally {
             setIsLoading(false);
         }
     };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        review(false);
+    };
     
     const ResultSection: React.FC<{ title: string; items: string[] | undefined; icon: React.ReactNode }> = ({ title, items, icon }) => {
         if (!items || items.length === 0) return null;
@@ -57,21 +68,21 @@ const CodeRefiner: React.FC = () => {
     return (
         <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
             <div className="flex-shrink-0 mb-4">
-                <h2 className="text-xl font-bold text-white">Code Refiner</h2>
-                <p className="text-sm text-zinc-400">Dapatkan review kode mendalam untuk menemukan bug, meningkatkan performa, dan menerapkan praktik terbaik.</p>
+                <h2 className="text-xl font-bold text-white">{t('features.code-refiner.name')}</h2>
+                <p className="text-sm text-zinc-400">{t('codeRefiner.subtitle')}</p>
             </div>
 
             <div className="flex-1 flex flex-col md:flex-row gap-6 overflow-hidden">
                 {/* Left Panel: Form */}
                 <form onSubmit={handleSubmit} className="w-full md:w-1/2 flex flex-col space-y-4 overflow-y-auto pr-2">
                     <div>
-                        <label htmlFor="language" className="block text-sm font-medium text-zinc-300 mb-2">Bahasa Pemrograman</label>
+                        <label htmlFor="language" className="block text-sm font-medium text-zinc-300 mb-2">{t('codeRefiner.language')}</label>
                         <select id="language" value={language} onChange={(e) => setLanguage(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 focus:ring-violet-500 focus:outline-none focus:ring-1">
                             {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
                         </select>
                     </div>
                     <div className="flex-1 flex flex-col">
-                        <label htmlFor="code-input" className="block text-sm font-medium text-zinc-300 mb-2">Tempelkan Kode Anda</label>
+                        <label htmlFor="code-input" className="block text-sm font-medium text-zinc-300 mb-2">{t('codeRefiner.code')}</label>
                         <div className="flex-1 relative">
                              <textarea
                                 id="code-input"
@@ -89,33 +100,34 @@ const CodeRefiner: React.FC = () => {
                         className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
                     >
                         <SparklesIcon className="w-5 h-5 mr-2" />
-                        {isLoading ? 'Menganalisis...' : 'Refine Code'}
+                        {isLoading ? t('codeRefiner.analyzing') : t('codeRefiner.submit')}
                     </button>
                 </form>
 
                 {/* Right Panel: Result */}
                 <div className="w-full md:w-1/2 flex flex-col">
-                    <label className="block text-sm font-medium text-zinc-300 mb-2">Hasil Review</label>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">{t('codeRefiner.result')}</label>
                     <div className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg p-4 overflow-y-auto">
-                        {isLoading && <p className="text-zinc-500 animate-pulse text-center pt-10">Menganalisis kode Anda...</p>}
-                        {error && <p className="text-red-400">{error}</p>}
+                        {isLoading && <p className="text-zinc-500 animate-pulse text-center pt-10">{t('codeRefiner.loading')}</p>}
+                        <ErrorNotice message={error} />
+                        <CachedNotice cachedAt={cachedAt} onRegenerate={() => review(true)} disabled={isLoading} className="mb-4" />
                         {result && (
                             <div className="space-y-4 animate-fade-in">
                                 <div>
-                                    <h3 className="font-semibold text-lg text-white mb-2">Ringkasan</h3>
+                                    <h3 className="font-semibold text-lg text-white mb-2">{t('codeRefiner.summary')}</h3>
                                     <div className="text-sm text-zinc-300">
                                         <MessageContent text={result.summary} />
                                     </div>
                                 </div>
-                                <ResultSection title="Potential Bugs" items={result.bugs} icon={<span>🐞</span>} />
-                                <ResultSection title="Performance" items={result.performance} icon={<span>🚀</span>} />
-                                <ResultSection title="Style & Readability" items={result.style} icon={<span>🎨</span>} />
-                                <ResultSection title="Best Practices" items={result.bestPractices} icon={<span>✅</span>} />
+                                <ResultSection title={t('codeRefiner.bugs')} items={result.bugs} icon={<span>🐞</span>} />
+                                <ResultSection title={t('codeRefiner.performance')} items={result.performance} icon={<span>🚀</span>} />
+                                <ResultSection title={t('codeRefiner.style')} items={result.style} icon={<span>🎨</span>} />
+                                <ResultSection title={t('codeRefiner.bestPractices')} items={result.bestPractices} icon={<span>✅</span>} />
                             </div>
                         )}
                          {!isLoading && !result && !error && (
                             <div className="flex items-center justify-center h-full text-center text-zinc-500">
-                                <p>Hasil review kode akan muncul di sini.</p>
+                                <p>{t('codeRefiner.empty')}</p>
                             </div>
                         )}
                     </div>
@@ -1,34 +1,44 @@
 import React, { useState } from 'react';
-import { analyzeEmailHeader } from '../../services/geminiService';
+import { analyzeEmailHeader, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import CachedNotice from '../../components/CachedNotice';
 import type { EmailAnalysisResult } from '../../services/geminiService';
 import { ShieldCheckIcon, CheckIcon, XCircleIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const EmailHeaderAnalyzer: React.FC = () => {
+    const { t } = useTranslation();
     const [header, setHeader] = useState('');
     const [result, setResult] = useState<EmailAnalysisResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // A header analyzed before is answered from the response cache unless `fresh` is set.
+    const analyze = async (fresh: boolean) => {
         if (!header.trim() || isLoading) return;
 
         setIsLoading(true);
         setError(null);
         setResult(null);
+        setCachedAt(null);
 
         try {
-            const analysisResult = await analyzeEmailHeader(header);
+            const analysisResult = await analyzeEmailHeader(header, { cache: { fresh, onHit: setCachedAt } });
             setResult(analysisResult);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An error occurred. Please check the header and try again.';
-            setError(errorMessage);
+            setError(getErrorMessage(err));
             console.error(err);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        analyze(false);
+    };
+
     const RiskBadge: React.FC<{ level: EmailAnalysisResult['summary']['riskLevel'] }> = ({ level }) => {
         const styles = {
             Low: 'bg-green-900/50 text-green-300 border-green-700/50',
@@ -36,7 +46,7 @@ const EmailHeaderAnalyzer: React.FC = () => {
             High: 'bg-red-900/50 text-red-300 border-red-700/50',
             Informational: 'bg-blue-900/50 text-blue-300 border-blue-700/50',
         };
-        return <span className={`px-3 py-1 text-sm font-semibold rounded-full border ${styles[level]}`}>{level} Risk</span>;
+        return <span className={`px-3 py-1 text-sm font-semibold rounded-full border ${styles[level]}`}>{t(`emailAnalyzer.risk.${level}`)}</span>;
     };
     
     const SecurityCheckRow: React.FC<{ name: string; result: string; details: string }> = ({ name, result, details }) => {
@@ -57,14 +67,14 @@ const EmailHeaderAnalyzer: React.FC = () => {
     return (
         <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
             <div className="flex-shrink-0 mb-4">
-                <h2 className="text-xl font-bold text-white">Email Header Analyzer</h2>
-                <p className="text-sm text-zinc-400">Analisis jejak email dan periksa protokol keamanan untuk mendeteksi ancaman.</p>
+                <h2 className="text-xl font-bold text-white">{t('features.email-header-analyzer.name')}</h2>
+                <p className="text-sm text-zinc-400">{t('features.email-header-analyzer.description')}</p>
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-4 mb-4">
                 <div>
                     <label htmlFor="header-input" className="block text-sm font-medium text-zinc-300 mb-2">
-                        Tempelkan Header Email Mentah
+                        {t('emailAnalyzer.header')}
                     </label>
                     <textarea
                         id="header-input"
@@ -81,7 +91,7 @@ const EmailHeaderAnalyzer: React.FC = () => {
                     disabled={isLoading || !header.trim()}
                     className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
                 >
-                    {isLoading ? 'Menganalisis...' : 'Analyze Header'}
+                    {isLoading ? t('emailAnalyzer.analyzing') : t('emailAnalyzer.submit')}
                 </button>
             </form>
 
@@ -89,16 +99,17 @@ const EmailHeaderAnalyzer: React.FC = () => {
                 {isLoading && (
                     <div className="flex items-center justify-center h-full text-zinc-500 animate-pulse">
                         <ShieldCheckIcon className="w-10 h-10 mr-4" />
-                        <p>Memeriksa jejak digital...</p>
+                        <p>{t('emailAnalyzer.loading')}</p>
                     </div>
                 )}
-                {error && <p className="text-red-400 text-center p-4 bg-red-900/20 border border-red-800 rounded-lg">{error}</p>}
-                
+                <ErrorNotice message={error} />
+                <CachedNotice cachedAt={cachedAt} onRegenerate={() => analyze(true)} disabled={isLoading} className="mb-4" />
+
                 {result && (
                     <div className="space-y-6 animate-fade-in">
                         {/* Summary */}
                         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-lg">
-                            <h3 className="text-lg font-semibold text-white mb-3">Analysis Summary</h3>
+                            <h3 className="text-lg font-semibold text-white mb-3">{t('emailAnalyzer.summary')}</h3>
                             <div className="flex items-center justify-between mb-3">
                                 <RiskBadge level={result.summary.riskLevel} />
                             </div>
@@ -108,7 +119,7 @@ const EmailHeaderAnalyzer: React.FC = () => {
 
                         {/* Security Checks */}
                         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-lg">
-                            <h3 className="text-lg font-semibold text-white mb-3">Authentication Checks</h3>
+                            <h3 className="text-lg font-semibold text-white mb-3">{t('emailAnalyzer.checks')}</h3>
                             <div className="space-y-2">
                                 <SecurityCheckRow name="SPF" result={result.securityChecks.spf.result} details={result.securityChecks.spf.details} />
                                 <SecurityCheckRow name="DKIM" result={result.securityChecks.dkim.result} details={result.securityChecks.dkim.details} />
@@ -118,14 +129,14 @@ const EmailHeaderAnalyzer: React.FC = () => {
 
                         {/* Path Trace */}
                         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-lg">
-                            <h3 className="text-lg font-semibold text-white mb-3">Delivery Path</h3>
+                            <h3 className="text-lg font-semibold text-white mb-3">{t('emailAnalyzer.path')}</h3>
                             <div className="space-y-3">
                                 {result.path.map((hop) => (
                                     <div key={hop.hop} className="text-xs font-mono p-3 bg-zinc-900 rounded-lg relative">
                                         <span className="absolute -top-2 -left-2 bg-violet-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-sans font-bold">{hop.hop}</span>
-                                        <p><span className="text-zinc-500">From:</span> <span className="text-zinc-300">{hop.from}</span></p>
-                                        <p><span className="text-zinc-500">By:  </span> <span className="text-zinc-300">{hop.by}</span></p>
-                                        <p><span className="text-zinc-500">With:</span> <span className="text-zinc-300">{hop.with}</span> | <span className="text-zinc-500">Delay:</span> <span className="text-yellow-400">{hop.delay}</span></p>
+                                        <p><span className="text-zinc-500">{t('emailAnalyzer.hop.from')}:</span> <span className="text-zinc-300">{hop.from}</span></p>
+                                        <p><span className="text-zinc-500">{t('emailAnalyzer.hop.by')}:</span> <span className="text-zinc-300">{hop.by}</span></p>
+                                        <p><span className="text-zinc-500">{t('emailAnalyzer.hop.with')}:</span> <span className="text-zinc-300">{hop.with}</span> | <span className="text-zinc-500">{t('emailAnalyzer.hop.delay')}:</span> <span className="text-yellow-400">{hop.delay}</span></p>
                                         <p className="text-zinc-500 mt-1">{hop.timestamp}</p>
                                     </div>
                                 ))}
@@ -1,16 +1,33 @@
-import React, { useState } from 'react';
-import { generateText } from '../../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateText, getErrorMessage, isAbortError } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { StopIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
-const TONES = ['Formal', 'Santai', 'Akademis', 'Kreatif', 'Persuasif'];
-const LENGTHS = ['Pendek (1-2 paragraf)', 'Sedang (3-4 paragraf)', 'Panjang (5+ paragraf)'];
+// Both are sent to the model in English; the labels come from essayWriter.tones and essayWriter.lengths.
+const TONES = ['formal', 'casual', 'academic', 'creative', 'persuasive'] as const;
+const LENGTHS = {
+  short: '1-2 paragraphs',
+  medium: '3-4 paragraphs',
+  long: '5+ paragraphs',
+};
 
 const EssayWriter: React.FC = () => {
+  const { t } = useTranslation();
   const [topic, setTopic] = useState('');
-  const [tone, setTone] = useState(TONES[0]);
-  const [length, setLength] = useState(LENGTHS[0]);
+  const [tone, setTone] = useState<typeof TONES[number]>(TONES[0]);
+  const [length, setLength] = useState<keyof typeof LENGTHS>('short');
   const [essay, setEssay] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Don't keep a request running for a feature that is no longer on screen.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,16 +36,21 @@ const EssayWriter: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setEssay('');
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const systemInstruction = `You are an expert essay writing assistant. Your task is to write a well-structured and coherent essay on the given topic in Indonesian. Adhere to the specified tone and length. The output should be high-quality and ready to use as a strong draft.`;
-      const prompt = `Tulis sebuah esai tentang "${topic}". Gaya penulisannya harus ${tone}, dan panjangnya sekitar ${length}.`;
-      const result = await generateText(prompt, systemInstruction);
+      const systemInstruction = `You are an expert essay writing assistant. Your task is to write a well-structured and coherent essay on the given topic. Adhere to the specified tone and length. The output should be high-quality and ready to use as a strong draft.`;
+      const prompt = `Write an essay about "${topic}". The tone should be ${tone}, and it should be about ${LENGTHS[length]} long.`;
+      const result = await generateText(prompt, systemInstruction, { signal: controller.signal });
       setEssay(result);
     } catch (err) {
-      setError('Terjadi kesalahan. Silakan coba lagi.');
-      console.error(err);
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err));
+        console.error(err);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -36,14 +58,14 @@ const EssayWriter: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Penulis Esai</h2>
-        <p className="text-sm text-zinc-400">Bantuan AI untuk menyusun draf esai, artikel, atau tugas menulis.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.essay-writer.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.essay-writer.description')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4 mb-4">
         <div>
           <label htmlFor="topic" className="block text-sm font-medium text-zinc-300 mb-2">
-            Topik Esai
+            {t('essayWriter.topic')}
           </label>
           <input
             id="topic"
@@ -51,41 +73,53 @@ const EssayWriter: React.FC = () => {
             value={topic}
             onChange={(e) => setTopic(e.target.value)}
             className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-            placeholder="Contoh: Dampak AI pada pendidikan modern"
+            placeholder={t('essayWriter.topicPlaceholder')}
             required
           />
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label htmlFor="tone" className="block text-sm font-medium text-zinc-300 mb-2">
-              Gaya Penulisan
+              {t('essayWriter.tone')}
             </label>
-            <select id="tone" value={tone} onChange={e => setTone(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
-              {TONES.map(t => <option key={t} value={t}>{t}</option>)}
+            <select id="tone" value={tone} onChange={e => setTone(e.target.value as typeof TONES[number])} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
+              {TONES.map(option => <option key={option} value={option}>{t(`essayWriter.tones.${option}`)}</option>)}
             </select>
           </div>
           <div>
             <label htmlFor="length" className="block text-sm font-medium text-zinc-300 mb-2">
-              Panjang Esai
+              {t('essayWriter.length')}
             </label>
-            <select id="length" value={length} onChange={e => setLength(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
-              {LENGTHS.map(l => <option key={l} value={l}>{l}</option>)}
+            <select id="length" value={length} onChange={e => setLength(e.target.value as keyof typeof LENGTHS)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
+              {(Object.keys(LENGTHS) as (keyof typeof LENGTHS)[]).map(option => <option key={option} value={option}>{t(`essayWriter.lengths.${option}`)}</option>)}
             </select>
           </div>
         </div>
-        <button
-          type="submit"
-          disabled={isLoading || !topic.trim()}
-          className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
-        >
-          {isLoading ? 'Menulis...' : "Tulis Esai"}
-        </button>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isLoading || !topic.trim()}
+            className="flex-1 bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
+          >
+            {isLoading ? t('essayWriter.writing') : t('essayWriter.submit')}
+          </button>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-zinc-300 hover:text-red-400 font-semibold transition-colors"
+            >
+              <StopIcon className="w-5 h-5" />
+              {t('chat.stop')}
+            </button>
+          )}
+        </div>
       </form>
       
       <div className="flex-1 overflow-y-auto pr-2">
         <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 min-h-[200px] text-zinc-300 whitespace-pre-wrap leading-relaxed">
-          {isLoading && <p className="text-zinc-500 animate-pulse">Menyusun esai Anda...</p>}
-          {error && <p className="text-red-400">{error}</p>}
+          {isLoading && <p className="text-zinc-500 animate-pulse">{t('essayWriter.loading')}</p>}
+          <ErrorNotice message={error} />
           {essay}
         </div>
       </div>
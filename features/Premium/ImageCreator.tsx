@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { generateImages } from '../../services/geminiService';
+import { generateImages, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { getActiveQuotas } from '../../services/entitlements';
 import { PhotoIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const ImageCreator: React.FC = () => {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -21,11 +25,10 @@ const ImageCreator: React.FC = () => {
       if (result && result.length > 0) {
         setImageUrls(result);
       } else {
-        setError('Gagal membuat gambar. Coba prompt yang berbeda.');
+        setError(t('imageCreator.failed'));
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan. Silakan coba lagi.';
-      setError(errorMessage);
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -35,8 +38,8 @@ const ImageCreator: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl shadow-2xl shadow-black/20 p-4 md:p-6 space-y-4">
       <div className="flex-shrink-0">
-        <h2 className="text-xl font-bold text-white">AI Image Generator</h2>
-        <p className="text-sm text-zinc-400">Hasilkan 3 gambar unik dari imajinasi Anda.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.ai-image-generator.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('imageCreator.subtitle', { count: getActiveQuotas().imagesPerGeneration })}</p>
       </div>
 
       {/* Control Panel */}
@@ -44,7 +47,7 @@ const ImageCreator: React.FC = () => {
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="prompt" className="block text-sm font-medium text-zinc-300 mb-2 sr-only">
-                Deskripsi Gambar
+                {t('imageCreator.prompt')}
               </label>
               <textarea
                 id="prompt"
@@ -52,11 +55,11 @@ const ImageCreator: React.FC = () => {
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-4 py-3 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-                placeholder="Contoh: seekor kucing adu panco sama domba, digital art"
+                placeholder={t('imageCreator.placeholder')}
                 required
               />
             </div>
-            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <ErrorNotice message={error} />
             <button
               type="submit"
               disabled={isLoading || !prompt.trim()}
@@ -68,9 +71,9 @@ const ImageCreator: React.FC = () => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Generating...
+                  {t('imageCreator.generating')}
                 </>
-              ) : "Generate"}
+              ) : t('imageCreator.submit')}
             </button>
           </form>
       </div>
@@ -79,7 +82,7 @@ const ImageCreator: React.FC = () => {
       <div className="flex-1 bg-zinc-950/50 rounded-lg p-4 border border-zinc-800 overflow-y-auto">
           {isLoading && (
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {[...Array(3)].map((_, i) => (
+                {[...Array(getActiveQuotas().imagesPerGeneration)].map((_, i) => (
                     <div key={i} className="aspect-square bg-zinc-800/50 rounded-lg flex items-center justify-center animate-pulse">
                         <PhotoIcon className="w-12 h-12 text-zinc-700"/>
                     </div>
@@ -90,7 +93,7 @@ const ImageCreator: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {imageUrls.map((url, index) => (
                     <div key={index} className="aspect-square rounded-lg overflow-hidden border border-zinc-700/50 shadow-lg">
-                        <img src={url} alt={`AI Image Generator - ${prompt} - ${index + 1}`} className="w-full h-full object-cover animate-fade-in" />
+                        <img src={url} alt={`${t('features.ai-image-generator.name')} - ${prompt} - ${index + 1}`} className="w-full h-full object-cover animate-fade-in" />
                     </div>
                 ))}
             </div>
@@ -99,7 +102,7 @@ const ImageCreator: React.FC = () => {
             <div className="flex items-center justify-center h-full text-center text-zinc-500">
                 <div>
                     <PhotoIcon className="w-16 h-16 mx-auto" />
-                    <p className="mt-2">Gambar Anda akan muncul di sini</p>
+                    <p className="mt-2">{t('imageCreator.empty')}</p>
                 </div>
             </div>
           )}
@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { editImage } from '../../services/geminiService';
+import { editImage, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
 import { fileToBase64 } from '../../utils/helpers';
 import { PhotoIcon, ArrowDownTrayIcon, XCircleIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const ImageEditor: React.FC = () => {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState('');
   const [originalImageFile, setOriginalImageFile] = useState<File | null>(null);
   const [originalImagePreview, setOriginalImagePreview] = useState<string | null>(null);
@@ -39,10 +42,10 @@ const ImageEditor: React.FC = () => {
       if (result) {
         setEditedImageUrl(result);
       } else {
-        setError('Gagal mengedit gambar. Coba prompt yang berbeda.');
+        setError(t('imageEditor.failed'));
       }
     } catch (err) {
-      setError('Terjadi kesalahan. Silakan coba lagi.');
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -76,8 +79,8 @@ const ImageEditor: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl shadow-2xl shadow-black/20 p-4 md:p-6 space-y-4">
       <div className="flex-shrink-0">
-        <h2 className="text-xl font-bold text-white">AI Image Editor</h2>
-        <p className="text-sm text-zinc-400">Unggah dan edit gambar menggunakan perintah teks sederhana.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.image-editor.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.image-editor.description')}</p>
       </div>
 
       <div className="flex-1 flex flex-col md:flex-row gap-4 overflow-hidden">
@@ -85,12 +88,12 @@ const ImageEditor: React.FC = () => {
         <div className="w-full md:w-1/2 flex flex-col gap-4">
           <div className="flex-1 flex flex-col">
              <label htmlFor="image-upload" className="block text-sm font-medium text-zinc-300 mb-2">
-                Gambar Asli
+                {t('imageEditor.original')}
               </label>
               <div className="mt-2 flex-1 flex justify-center items-center rounded-lg border border-dashed border-zinc-700 p-4 hover:border-violet-500 transition-colors">
                 <div className="text-center">
                   {originalImagePreview ? (
-                    <img src={originalImagePreview} alt="Original" className="mx-auto max-h-48 w-auto object-contain rounded-md" />
+                    <img src={originalImagePreview} alt={t('imageEditor.original')} className="mx-auto max-h-48 w-auto object-contain rounded-md" />
                   ) : (
                     <PhotoIcon className="mx-auto h-12 w-12 text-zinc-500" />
                   )}
@@ -99,7 +102,7 @@ const ImageEditor: React.FC = () => {
                       htmlFor="image-upload"
                       className="relative cursor-pointer rounded-md bg-transparent font-semibold text-violet-400 focus-within:outline-none hover:text-violet-500"
                     >
-                      <span>Upload file</span>
+                      <span>{t('common.uploadFile')}</span>
                       <input id="image-upload" name="image-upload" type="file" className="sr-only" onChange={handleImageChange} accept="image/*" />
                     </label>
                   </div>
@@ -110,7 +113,7 @@ const ImageEditor: React.FC = () => {
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="prompt" className="block text-sm font-medium text-zinc-300 mb-2">
-                Perintah Edit
+                {t('imageEditor.prompt')}
               </label>
               <textarea
                 id="prompt"
@@ -118,7 +121,7 @@ const ImageEditor: React.FC = () => {
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-                placeholder="Contoh: tambahkan kacamata hitam, ubah latar belakang menjadi luar angkasa"
+                placeholder={t('imageEditor.placeholder')}
                 required
               />
             </div>
@@ -128,13 +131,13 @@ const ImageEditor: React.FC = () => {
                 disabled={isLoading || !prompt.trim() || !originalImageFile}
                 className="flex-1 bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
               >
-                {isLoading ? 'Editing...' : "Edit Image"}
+                {isLoading ? t('imageEditor.editing') : t('imageEditor.submit')}
               </button>
                <button
                   type="button"
                   onClick={handleClear}
                   className="p-3 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-zinc-300 transition-colors disabled:opacity-50"
-                  aria-label="Clear form"
+                  aria-label={t('imageEditor.clear')}
                   disabled={isLoading}
                 >
                   <XCircleIcon className="w-6 h-6"/>
@@ -146,17 +149,17 @@ const ImageEditor: React.FC = () => {
         {/* Right Panel: Edited Image */}
         <div className="w-full md:w-1/2 flex flex-col">
            <label className="block text-sm font-medium text-zinc-300 mb-2">
-            Hasil Edit
+            {t('imageEditor.result')}
            </label>
             <div className="flex-1 bg-zinc-950/50 rounded-lg p-4 border border-zinc-800 flex items-center justify-center overflow-hidden">
-                {isLoading && <div className="animate-pulse text-zinc-500">Editing your image...</div>}
-                {error && <p className="text-red-400 text-center">{error}</p>}
+                {isLoading && <div className="animate-pulse text-zinc-500">{t('imageEditor.loading')}</div>}
+                <ErrorNotice message={error} />
                 {editedImageUrl && !isLoading && (
-                    <img src={editedImageUrl} alt="Edited" className="w-full h-full object-contain animate-fade-in" />
+                    <img src={editedImageUrl} alt={t('imageEditor.result')} className="w-full h-full object-contain animate-fade-in" />
                 )}
                 {!isLoading && !editedImageUrl && !error && (
                     <div className="text-center text-zinc-500">
-                        <p>Hasil editan akan muncul di sini</p>
+                        <p>{t('imageEditor.empty')}</p>
                     </div>
                 )}
             </div>
@@ -167,7 +170,7 @@ const ImageEditor: React.FC = () => {
                   className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors shadow-[0_0_20px_rgba(34,197,94,0.4)]"
                 >
                   <ArrowDownTrayIcon className="w-5 h-5" />
-                  Download Image
+                  {t('imageEditor.download')}
                 </button>
               </div>
             )}
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { connectLiveChat } from '../../services/geminiService';
+import { connectLiveChat, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { useTranslation } from '../../hooks/useTranslation';
 // FIX: Use renamed 'decode' and 'encode' functions to align with documentation.
 import { decode, decodeAudioData, encode } from '../../utils/helpers';
 import type { LiveServerMessage, Blob as GenAiBlob } from '@google/genai';
@@ -16,8 +18,10 @@ enum ConnectionState {
 }
 
 const LiveAiChat: React.FC = () => {
+  const { t } = useTranslation();
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [isMuted, setIsMuted] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -66,6 +70,7 @@ const LiveAiChat: React.FC = () => {
     if (connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR) return;
     
     setConnectionState(ConnectionState.CONNECTING);
+    setErrorMessage(null);
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -145,9 +150,18 @@ const LiveAiChat: React.FC = () => {
         },
       });
       sessionPromiseRef.current = sessionPromise;
+      sessionPromise.catch(error => {
+        console.error('Failed to start live chat:', error);
+        if (sessionPromiseRef.current !== sessionPromise) return;
+        sessionPromiseRef.current = null;
+        stopAudioProcessing();
+        setErrorMessage(getErrorMessage(error));
+        setConnectionState(ConnectionState.ERROR);
+      });
 
     } catch (error) {
       console.error('Failed to start live chat:', error);
+      setErrorMessage(getErrorMessage(error, t('liveChat.connectionFailed')));
       setConnectionState(ConnectionState.ERROR);
     }
   };
@@ -168,10 +182,10 @@ const LiveAiChat: React.FC = () => {
   
   const getButtonState = () => {
     switch(connectionState) {
-        case ConnectionState.DISCONNECTED: return { text: "Start Session", action: connect, color: "violet", icon: <PlayIcon/> };
-        case ConnectionState.CONNECTING: return { text: "Connecting...", action: () => {}, color: "yellow", icon: <SpinnerIcon/> };
-        case ConnectionState.CONNECTED: return { text: "End Session", action: disconnect, color: "red", icon: <StopIcon/> };
-        case ConnectionState.ERROR: return { text: "Try Again", action: connect, color: "zinc", icon: <RefreshIcon/> };
+        case ConnectionState.DISCONNECTED: return { text: t('liveChat.start'), action: connect, color: "violet", icon: <PlayIcon/> };
+        case ConnectionState.CONNECTING: return { text: t('liveChat.connecting'), action: () => {}, color: "yellow", icon: <SpinnerIcon/> };
+        case ConnectionState.CONNECTED: return { text: t('liveChat.end'), action: disconnect, color: "red", icon: <StopIcon/> };
+        case ConnectionState.ERROR: return { text: t('common.retry'), action: connect, color: "zinc", icon: <RefreshIcon/> };
     }
   };
   
@@ -190,8 +204,8 @@ const LiveAiChat: React.FC = () => {
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-6 items-center justify-center text-center overflow-hidden shadow-2xl shadow-black/20">
       <div className="absolute inset-0 bg-grid-zinc-800/50 [mask-image:radial-gradient(100%_100%_at_50%_0%,white,transparent)]"></div>
       <div className="relative z-10">
-        <h2 className="text-2xl font-bold text-white mb-2">Live AI Chat</h2>
-        <p className="text-zinc-400 mb-8 max-w-md">Speak directly with YAN OFFICIAL. Press 'Start Session' and begin the conversation.</p>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('features.live-ai-chat.name')}</h2>
+        <p className="text-zinc-400 mb-8 max-w-md">{t('liveChat.subtitle', { start: t('liveChat.start') })}</p>
 
         <div className="relative w-48 h-48 flex items-center justify-center mb-8">
            <div className={`absolute inset-0 rounded-full ${currentColors.bg} opacity-20 blur-2xl ${connectionState === ConnectionState.CONNECTED ? 'animate-pulse' : ''}`}></div>
@@ -213,12 +227,12 @@ const LiveAiChat: React.FC = () => {
             }`}
           >
             {isMuted ? <MutedIcon /> : <UnmutedIcon />}
-            {isMuted ? 'Unmute' : 'Mute'}
+            {isMuted ? t('liveChat.unmute') : t('liveChat.mute')}
           </button>
         )}
 
         {connectionState === ConnectionState.ERROR && (
-          <p className="text-red-400 mt-4">Connection failed. Please check your microphone permissions and try again.</p>
+          <ErrorNotice message={errorMessage || t('liveChat.connectionFailed')} className="mt-4 text-left" />
         )}
       </div>
     </div>
@@ -1,19 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateWithGoogleMaps } from '../../services/geminiService';
+import { generateWithGoogleMaps, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
 import type { GroundedMapsResult } from '../../services/geminiService';
 import MessageContent from '../../components/MessageContent';
 import { MapIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { MessageKey, MessageParams } from '../../services/i18n';
 
 // Use 'any' for Leaflet to avoid complex type installation in this environment
 declare const L: any;
 
 const LocationFinder: React.FC = () => {
+    const { t } = useTranslation();
     const [prompt, setPrompt] = useState('');
     const [result, setResult] = useState<GroundedMapsResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [userLocation, setUserLocation] = useState<{ lat: number, lng: number } | null>(null);
-    const [locationStatus, setLocationStatus] = useState('Meminta lokasi...');
+    // Kept as a message key so the status follows a language change.
+    const [locationStatus, setLocationStatus] = useState<{ key: MessageKey; params?: MessageParams }>({ key: 'locationFinder.locating' });
 
     const mapRef = useRef<any>(null);
     const mapContainerRef = useRef<HTMLDivElement>(null);
@@ -26,16 +31,16 @@ const LocationFinder: React.FC = () => {
                 (position) => {
                     const { latitude, longitude } = position.coords;
                     setUserLocation({ lat: latitude, lng: longitude });
-                    setLocationStatus(`Lokasi ditemukan: ${latitude.toFixed(4)}, ${longitude.toFixed(4)}`);
+                    setLocationStatus({ key: 'locationFinder.located', params: { coords: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}` } });
                 },
                 (err) => {
                     console.error("Error getting location:", err);
-                    setLocationStatus('Gagal mendapatkan lokasi. Pencarian berbasis lokasi mungkin tidak akurat.');
+                    setLocationStatus({ key: 'locationFinder.locationFailed' });
                 },
                 { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
             );
         } else {
-            setLocationStatus('Geolocation tidak didukung oleh browser ini.');
+            setLocationStatus({ key: 'locationFinder.unsupported' });
         }
     }, []);
     
@@ -65,7 +70,7 @@ const LocationFinder: React.FC = () => {
                     iconSize: [16, 16],
                 });
                 userMarkerRef.current = L.marker([userLocation.lat, userLocation.lng], { icon: userIcon }).addTo(mapRef.current)
-                    .bindPopup('<b>Lokasi Anda</b>');
+                    .bindPopup(`<b>${t('locationFinder.yourLocation')}</b>`);
             }
         }
     }, [userLocation]);
@@ -88,8 +93,8 @@ const LocationFinder: React.FC = () => {
                 setResult(response);
             }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan. Silakan coba lagi.';
-            setError(errorMessage);
+            setError(getErrorMessage(err));
+            console.error(err);
         } finally {
             setIsLoading(false);
         }
@@ -98,9 +103,9 @@ const LocationFinder: React.FC = () => {
     return (
         <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
             <div className="flex-shrink-0 mb-4">
-                <h2 className="text-xl font-bold text-white">Pencari Lokasi</h2>
-                <p className="text-sm text-zinc-400">Temukan tempat menarik di sekitar Anda, didukung oleh Google Maps.</p>
-                <p className="text-xs text-zinc-500 mt-1">{locationStatus}</p>
+                <h2 className="text-xl font-bold text-white">{t('features.location-finder.name')}</h2>
+                <p className="text-sm text-zinc-400">{t('locationFinder.subtitle')}</p>
+                <p className="text-xs text-zinc-500 mt-1">{t(locationStatus.key, locationStatus.params)}</p>
             </div>
             
             <div className="flex-1 flex flex-col md:flex-row gap-6 overflow-hidden">
@@ -112,7 +117,7 @@ const LocationFinder: React.FC = () => {
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
                             className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-3 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
-                            placeholder="Contoh: restoran Italia di dekat sini"
+                            placeholder={t('locationFinder.placeholder')}
                             required
                         />
                         <button
@@ -120,20 +125,20 @@ const LocationFinder: React.FC = () => {
                             disabled={isLoading || !prompt.trim()}
                             className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none disabled:cursor-not-allowed"
                         >
-                            {isLoading ? 'Mencari...' : 'Cari Tempat'}
+                            {isLoading ? t('locationFinder.searching') : t('locationFinder.submit')}
                         </button>
                     </form>
 
                     <div className="flex-1 overflow-y-auto pr-2">
                         <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 min-h-[200px]">
-                            {isLoading && <p className="text-zinc-500 animate-pulse">Mencari di Google Maps...</p>}
-                            {error && <p className="text-red-400">{error}</p>}
+                            {isLoading && <p className="text-zinc-500 animate-pulse">{t('locationFinder.loading')}</p>}
+                            <ErrorNotice message={error} />
                             {result && (
                                 <div className="space-y-4 animate-fade-in">
                                     <MessageContent text={result.text} />
                                     {result.places.length > 0 && (
                                         <div className="pt-4 border-t border-zinc-700/50">
-                                            <h3 className="text-sm font-semibold text-zinc-400 mb-2">Tempat yang Ditemukan:</h3>
+                                            <h3 className="text-sm font-semibold text-zinc-400 mb-2">{t('locationFinder.places')}</h3>
                                             <ul className="space-y-1">
                                                 {result.places.map((place, index) => (
                                                     <li key={index} className="truncate">
@@ -149,7 +154,7 @@ const LocationFinder: React.FC = () => {
                             )}
                              {!isLoading && !result && !error && (
                                 <div className="flex items-center justify-center h-full text-center text-zinc-500">
-                                    <p>Hasil pencarian lokasi akan muncul di sini.</p>
+                                    <p>{t('locationFinder.empty')}</p>
                                 </div>
                             )}
                         </div>
@@ -161,7 +166,7 @@ const LocationFinder: React.FC = () => {
                     <div ref={mapContainerRef} className="w-full h-full min-h-[300px] md:min-h-0 bg-zinc-950 rounded-lg border border-zinc-800">
                          {!userLocation && (
                             <div className="flex items-center justify-center h-full text-zinc-500">
-                                Memuat peta...
+                                {t('locationFinder.loadingMap')}
                             </div>
                          )}
                     </div>
@@ -1,14 +1,31 @@
-import React, { useState } from 'react';
-import { generateText, generateImages } from '../../services/geminiService';
-import { PhotoIcon } from '../../components/icons/FeatureIcons';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateText, generateImages, getErrorMessage, isAbortError } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
+import { PhotoIcon, StopIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
 
-const GENRES = ['Fantasy', 'Science Fiction', 'Mystery', 'Romance', 'Thriller', 'Horror', 'Adventure', 'Comedy'];
-const LENGTHS = ['Short Story (≈500 words)', 'Medium Story (≈1500 words)', 'Long Story (≈3000 words)'];
+// Both are sent to the model in English; the labels come from storyWriter.genres and storyWriter.lengths.
+const GENRES = {
+  fantasy: 'Fantasy',
+  sciFi: 'Science Fiction',
+  mystery: 'Mystery',
+  romance: 'Romance',
+  thriller: 'Thriller',
+  horror: 'Horror',
+  adventure: 'Adventure',
+  comedy: 'Comedy',
+};
+const LENGTHS = {
+  short: 'Short Story (≈500 words)',
+  medium: 'Medium Story (≈1500 words)',
+  long: 'Long Story (≈3000 words)',
+};
 
 const StoryWriter: React.FC = () => {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState('');
-  const [genre, setGenre] = useState(GENRES[0]);
-  const [length, setLength] = useState(LENGTHS[0]);
+  const [genre, setGenre] = useState<keyof typeof GENRES>('fantasy');
+  const [length, setLength] = useState<keyof typeof LENGTHS>('short');
   const [story, setStory] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -16,6 +33,14 @@ const StoryWriter: React.FC = () => {
   const [generateImage, setGenerateImage] = useState(false);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [isImageLoading, setIsImageLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Don't keep a request running for a feature that is no longer on screen.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,19 +51,22 @@ const StoryWriter: React.FC = () => {
     setError(null);
     setStory('');
     setImageUrl(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const systemInstruction = `You are a master storyteller. Write a captivating story based on the user's prompt. The story should be in the ${genre} genre and be approximately the length of a ${length}. Ensure the story has a clear plot, engaging characters, vivid descriptions, and a satisfying conclusion.`;
+      const systemInstruction = `You are a master storyteller. Write a captivating story based on the user's prompt. The story should be in the ${GENRES[genre]} genre and be approximately the length of a ${LENGTHS[length]}. Ensure the story has a clear plot, engaging characters, vivid descriptions, and a satisfying conclusion.`;
       const fullPrompt = `Story Idea: "${prompt}"`;
-      const result = await generateText(fullPrompt, systemInstruction);
+      const result = await generateText(fullPrompt, systemInstruction, { signal: controller.signal });
+      abortRef.current = null;
       setStory(result);
       setIsLoading(false);
 
       if (generateImage) {
         setIsImageLoading(true);
         try {
-            const imagePrompt = `An illustration for a ${genre} story about: ${prompt}. Cinematic, vibrant, digital art style.`;
-            const imageResult = await generateImages(imagePrompt, 1);
+            const imagePrompt = `An illustration for a ${GENRES[genre]} story about: ${prompt}. Cinematic, vibrant, digital art style.`;
+            const imageResult = await generateImages(imagePrompt, 1, controller.signal);
             
             if (imageResult && imageResult.length > 0) {
                 setImageUrl(imageResult[0]);
@@ -53,31 +81,33 @@ const StoryWriter: React.FC = () => {
         }
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred while writing the story. Please try again.';
-      setError(errorMessage);
-      console.error(err);
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err));
+        console.error(err);
+      }
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
       setIsImageLoading(false);
     }
   };
 
   const buttonText = () => {
-    if (isLoading) return 'Menulis Cerita...';
-    if (isImageLoading) return 'Membuat Gambar...';
-    return 'Write Story';
+    if (isLoading) return t('storyWriter.writing');
+    if (isImageLoading) return t('storyWriter.illustrating');
+    return t('storyWriter.submit');
   }
 
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Story Writer</h2>
-        <p className="text-sm text-zinc-400">Hasilkan cerita pendek atau panjang berdasarkan ide Anda.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.story-writer.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.story-writer.description')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4 mb-4">
         <div>
           <label htmlFor="prompt" className="block text-sm font-medium text-zinc-300 mb-2">
-            Ide Cerita Anda
+            {t('storyWriter.idea')}
           </label>
           <textarea
             id="prompt"
@@ -85,25 +115,25 @@ const StoryWriter: React.FC = () => {
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-            placeholder="Contoh: Seorang detektif di Mars menemukan konspirasi kuno..."
+            placeholder={t('storyWriter.placeholder')}
             required
           />
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label htmlFor="genre" className="block text-sm font-medium text-zinc-300 mb-2">
-              Genre
+              {t('storyWriter.genre')}
             </label>
-            <select id="genre" value={genre} onChange={e => setGenre(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
-              {GENRES.map(g => <option key={g} value={g}>{g}</option>)}
+            <select id="genre" value={genre} onChange={e => setGenre(e.target.value as keyof typeof GENRES)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
+              {(Object.keys(GENRES) as (keyof typeof GENRES)[]).map(option => <option key={option} value={option}>{t(`storyWriter.genres.${option}`)}</option>)}
             </select>
           </div>
           <div>
             <label htmlFor="length" className="block text-sm font-medium text-zinc-300 mb-2">
-              Panjang Cerita
+              {t('storyWriter.length')}
             </label>
-            <select id="length" value={length} onChange={e => setLength(e.target.value)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
-              {LENGTHS.map(l => <option key={l} value={l}>{l}</option>)}
+            <select id="length" value={length} onChange={e => setLength(e.target.value as keyof typeof LENGTHS)} className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-violet-500">
+              {(Object.keys(LENGTHS) as (keyof typeof LENGTHS)[]).map(option => <option key={option} value={option}>{t(`storyWriter.lengths.${option}`)}</option>)}
             </select>
           </div>
         </div>
@@ -118,36 +148,48 @@ const StoryWriter: React.FC = () => {
             disabled={isLoading || isImageLoading}
             />
             <label htmlFor="generate-image" className="ml-2 block text-sm text-zinc-300">
-            Sertakan gambar ilustrasi
+            {t('storyWriter.withImage')}
             </label>
         </div>
 
-        <button
-          type="submit"
-          disabled={isLoading || isImageLoading || !prompt.trim()}
-          className="w-full bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
-        >
-          {buttonText()}
-        </button>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isLoading || isImageLoading || !prompt.trim()}
+            className="flex-1 bg-violet-600 hover:bg-violet-700 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center shadow-[0_0_20px_rgba(139,92,246,0.4)] disabled:shadow-none"
+          >
+            {buttonText()}
+          </button>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="flex items-center justify-center gap-2 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-zinc-300 hover:text-red-400 font-semibold transition-colors"
+            >
+              <StopIcon className="w-5 h-5" />
+              {t('chat.stop')}
+            </button>
+          )}
+        </div>
       </form>
       
       <div className="flex-1 overflow-y-auto pr-2">
         <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 min-h-[200px] text-zinc-300 whitespace-pre-wrap leading-relaxed space-y-4">
-          {isLoading && <p className="text-zinc-500 animate-pulse">Cerita sedang dirangkai...</p>}
-          {error && <p className="text-red-400">{error}</p>}
+          {isLoading && <p className="text-zinc-500 animate-pulse">{t('storyWriter.loading')}</p>}
+          <ErrorNotice message={error} />
           
           {isImageLoading && (
             <div className="aspect-video w-full max-w-md mx-auto bg-zinc-800/50 rounded-lg flex items-center justify-center animate-pulse">
                 <div className="text-center text-zinc-500">
                     <PhotoIcon className="w-12 h-12 text-zinc-700 mx-auto"/>
-                    <p className="mt-2">Membuat ilustrasi...</p>
+                    <p className="mt-2">{t('storyWriter.loadingImage')}</p>
                 </div>
             </div>
           )}
 
           {imageUrl && (
             <div className="rounded-lg overflow-hidden border border-zinc-700/50 shadow-lg max-w-md mx-auto">
-                <img src={imageUrl} alt={`Illustration for: ${prompt}`} className="w-full h-auto object-contain" />
+                <img src={imageUrl} alt={t('storyWriter.imageAlt', { prompt })} className="w-full h-auto object-contain" />
             </div>
           )}
           
@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { generateWithGoogleSearch } from '../../services/geminiService';
+import { generateWithGoogleSearch, getErrorMessage } from '../../services/geminiService';
+import ErrorNotice from '../../components/ErrorNotice';
 import type { GroundedSearchResult } from '../../services/geminiService';
 import MessageContent from '../../components/MessageContent';
+import { useTranslation } from '../../hooks/useTranslation';
 
 const TanyaWeb: React.FC = () => {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState('');
   const [result, setResult] = useState<GroundedSearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -25,8 +28,7 @@ const TanyaWeb: React.FC = () => {
         setResult(response);
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred. Please try again.';
-      setError(errorMessage);
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -36,14 +38,14 @@ const TanyaWeb: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0 mb-4">
-        <h2 className="text-xl font-bold text-white">Tanya Web</h2>
-        <p className="text-sm text-zinc-400">Dapatkan jawaban akurat dan terkini dari internet, didukung oleh Google Search.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.tanya-web.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.tanya-web.description')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4 mb-4">
         <div>
           <label htmlFor="prompt" className="sr-only">
-            Pertanyaan Anda
+            {t('tanyaWeb.question')}
           </label>
           <textarea
             id="prompt"
@@ -51,7 +53,7 @@ const TanyaWeb: React.FC = () => {
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-            placeholder="Tanyakan tentang berita terkini atau topik apa pun..."
+            placeholder={t('tanyaWeb.placeholder')}
             required
           />
         </div>
@@ -66,22 +68,22 @@ const TanyaWeb: React.FC = () => {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Searching the web...
+              {t('tanyaWeb.searching')}
             </>
-          ) : "Search"}
+          ) : t('tanyaWeb.submit')}
         </button>
       </form>
       
       <div className="flex-1 overflow-y-auto pr-2">
         <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 min-h-[200px]">
-          {isLoading && <p className="text-zinc-500 animate-pulse">Mencari informasi terbaru...</p>}
-          {error && <p className="text-red-400">{error}</p>}
+          {isLoading && <p className="text-zinc-500 animate-pulse">{t('tanyaWeb.loading')}</p>}
+          <ErrorNotice message={error} />
           {result && (
             <div className="space-y-4 animate-fade-in">
               <MessageContent text={result.text} />
               {result.sources.length > 0 && (
                 <div className="pt-4 border-t border-zinc-700/50">
-                  <h3 className="text-sm font-semibold text-zinc-400 mb-2">Sources:</h3>
+                  <h3 className="text-sm font-semibold text-zinc-400 mb-2">{t('tanyaWeb.sources')}</h3>
                   <ul className="space-y-1">
                     {result.sources.map((source, index) => (
                       <li key={index} className="truncate">
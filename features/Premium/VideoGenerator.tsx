@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { generateVideo, checkVideoOperation } from '../../services/geminiService';
+import { generateVideo, checkVideoOperation, getErrorMessage, isAiError } from '../../services/geminiService';
+import { getApiKey } from '../../services/apiKeyStore';
+import ErrorNotice from '../../components/ErrorNotice';
 import { fileToBase64 } from '../../utils/helpers';
 import type { GenerateVideosOperation } from '@google/genai';
 import { PhotoIcon } from '../../components/icons/FeatureIcons';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { MessageKey } from '../../services/i18n';
 
 // Polyfill for window.aistudio
 // FIX: Define the AIStudio interface to resolve the type conflict.
@@ -18,16 +22,17 @@ declare global {
     }
 }
 
-const LOADING_MESSAGES = [
-    "Mengumpulkan foton untuk video Anda...",
-    "Mengajari piksel cara menari...",
-    "Merangkai adegan sinematik...",
-    "Menambahkan sedikit keajaiban digital...",
-    "Hampir selesai, sedang proses rendering akhir!",
-    "Video Anda sedang dalam perjalanan...",
+const LOADING_MESSAGES: MessageKey[] = [
+    'videoGenerator.progress.photons',
+    'videoGenerator.progress.pixels',
+    'videoGenerator.progress.scenes',
+    'videoGenerator.progress.magic',
+    'videoGenerator.progress.rendering',
+    'videoGenerator.progress.onItsWay',
 ];
 
 const VideoGenerator: React.FC = () => {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -42,9 +47,9 @@ const VideoGenerator: React.FC = () => {
   const messageIntervalRef = useRef<number | null>(null);
   
   const checkApiKey = useCallback(async () => {
+    // Outside AI Studio the key comes from the API key settings instead.
     if (!window.aistudio) {
-        setApiKeySelected('error');
-        setError("AI Studio environment not detected. This feature may not work correctly.");
+        setApiKeySelected(true);
         return;
     }
     try {
@@ -53,7 +58,7 @@ const VideoGenerator: React.FC = () => {
     } catch (e) {
         console.error("Error checking for API key:", e);
         setApiKeySelected('error');
-        setError("Could not verify API key status.");
+        setError(t('videoGenerator.keyCheckFailed'));
     }
   }, []);
 
@@ -100,7 +105,7 @@ const VideoGenerator: React.FC = () => {
         setError(null);
       } catch(e) {
         console.error("Error opening select key dialog", e);
-        setError("Failed to open the API key selection dialog.");
+        setError(t('videoGenerator.keyDialogFailed'));
       }
     }
   };
@@ -116,25 +121,22 @@ const VideoGenerator: React.FC = () => {
               if (pollerRef.current) clearInterval(pollerRef.current);
               
               const downloadLink = updatedOperation.response?.generatedVideos?.[0]?.video?.uri;
-              const apiKey = (typeof process !== 'undefined' && process.env?.API_KEY) || undefined;
+              const apiKey = getApiKey();
               
               if (downloadLink && apiKey) {
                   const response = await fetch(`${downloadLink}&key=${apiKey}`);
                   const blob = await response.blob();
                   setGeneratedVideoUrl(URL.createObjectURL(blob));
               } else {
-                  setError("Video generated, but failed to retrieve the download link. API key may be missing.");
+                  setError(t('videoGenerator.noDownloadLink'));
               }
               setIsLoading(false);
           }
       } catch (error) {
           console.error("Error polling video operation:", error);
-          if (error instanceof Error && error.message.includes("Requested entity was not found")) {
-              setError("API Key error. Please re-select your API key.");
-              setApiKeySelected(false);
-          } else {
-              setError("An error occurred while checking video status.");
-          }
+          setError(getErrorMessage(error, t('videoGenerator.statusFailed')));
+          // The selected key can't use Veo (e.g. no billing); ask for another one.
+          if (isAiError(error, 'auth') && window.aistudio) setApiKeySelected(false);
           if (pollerRef.current) clearInterval(pollerRef.current);
           setIsLoading(false);
       }
@@ -165,34 +167,30 @@ const VideoGenerator: React.FC = () => {
 
     } catch (error) {
       console.error("Error generating video:", error);
-      if (error instanceof Error && error.message.includes("Requested entity was not found")) {
-         setError("API Key error. Please re-select your API key.");
-         setApiKeySelected(false);
-      } else {
-        setError("Failed to start video generation. Please try again.");
-      }
+      setError(getErrorMessage(error, t('videoGenerator.startFailed')));
+      if (isAiError(error, 'auth') && window.aistudio) setApiKeySelected(false);
       setIsLoading(false);
     }
   };
 
   if (apiKeySelected === 'checking') {
-      return <div className="flex items-center justify-center h-full text-zinc-400">Checking API Key...</div>;
+      return <div className="flex items-center justify-center h-full text-zinc-400">{t('videoGenerator.checkingKey')}</div>;
   }
 
   if (!apiKeySelected || apiKeySelected === 'error') {
       return (
           <div className="flex flex-col items-center justify-center h-full text-center bg-zinc-900/50 border border-zinc-800 p-8 rounded-2xl">
-              <h2 className="text-2xl font-bold mb-4 text-white">API Key Required</h2>
+              <h2 className="text-2xl font-bold mb-4 text-white">{t('videoGenerator.keyRequired')}</h2>
               <p className="mb-6 text-zinc-400 max-w-md">
-                This premium feature requires an API key for billing and quota management.
+                {t('videoGenerator.keyRequiredHint')}
                 <br/><br/>
                 <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-violet-400 hover:underline">
-                    Learn more about billing
+                    {t('videoGenerator.billing')}
                 </a>
               </p>
-              {error && <p className="text-red-400 mb-4">{error}</p>}
+              <ErrorNotice message={error} className="mb-4 text-left" />
               <button onClick={handleSelectKey} className="bg-violet-600 hover:bg-violet-700 text-white font-bold py-2 px-6 rounded-lg transition-colors shadow-[0_0_20px_rgba(139,92,246,0.4)]">
-                  Select API Key
+                  {t('videoGenerator.selectKey')}
               </button>
           </div>
       );
@@ -201,15 +199,15 @@ const VideoGenerator: React.FC = () => {
   return (
     <div className="flex flex-col h-full bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 md:p-6 space-y-4 shadow-2xl shadow-black/20">
       <div className="flex-shrink-0">
-        <h2 className="text-xl font-bold text-white">Video Generator</h2>
-        <p className="text-sm text-zinc-400">Buat video pendek dari gambar dan teks.</p>
+        <h2 className="text-xl font-bold text-white">{t('features.video-generator.name')}</h2>
+        <p className="text-sm text-zinc-400">{t('features.video-generator.description')}</p>
       </div>
       
       <div className="flex-1 overflow-y-auto pr-2 space-y-6">
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label htmlFor="prompt" className="block text-sm font-medium text-zinc-300 mb-2">
-              Prompt (Opsional jika ada gambar)
+              {t('videoGenerator.prompt')}
             </label>
             <textarea
               id="prompt"
@@ -217,18 +215,18 @@ const VideoGenerator: React.FC = () => {
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-colors"
-              placeholder="Contoh: A neon hologram of a cat driving at top speed"
+              placeholder={t('videoGenerator.placeholder')}
             />
           </div>
 
           <div>
             <label htmlFor="image-upload" className="block text-sm font-medium text-zinc-300 mb-2">
-              Gambar Awal (Opsional)
+              {t('videoGenerator.image')}
             </label>
             <div className="mt-2 flex justify-center rounded-lg border border-dashed border-zinc-700 px-6 py-10 hover:border-violet-500 transition-colors">
               <div className="text-center">
                 {imagePreview ? (
-                  <img src={imagePreview} alt="Image preview" className="mx-auto h-32 w-auto object-contain rounded-md" />
+                  <img src={imagePreview} alt={t('common.preview')} className="mx-auto h-32 w-auto object-contain rounded-md" />
                 ) : (
                   <PhotoIcon className="mx-auto h-12 w-12 text-zinc-500" />
                 )}
@@ -237,10 +235,10 @@ const VideoGenerator: React.FC = () => {
                     htmlFor="image-upload"
                     className="relative cursor-pointer rounded-md bg-transparent font-semibold text-violet-400 focus-within:outline-none hover:text-violet-500"
                   >
-                    <span>Upload file</span>
+                    <span>{t('common.uploadFile')}</span>
                     <input id="image-upload" name="image-upload" type="file" className="sr-only" onChange={handleImageChange} accept="image/*" />
                   </label>
-                  <p className="pl-1">atau drag and drop</p>
+                  <p className="pl-1">{t('common.orDragDrop')}</p>
                 </div>
                 <p className="text-xs leading-5 text-zinc-500">PNG, JPG, GIF</p>
               </div>
@@ -258,27 +256,27 @@ const VideoGenerator: React.FC = () => {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Processing...
+                {t('common.processing')}
               </>
-            ) : "Generate Video"}
+            ) : t('videoGenerator.submit')}
           </button>
         </form>
       </div>
 
       <div className="flex-shrink-0 pt-4 border-t border-zinc-800">
-        <h3 className="text-lg font-semibold mb-2 text-white">Result</h3>
+        <h3 className="text-lg font-semibold mb-2 text-white">{t('videoGenerator.result')}</h3>
         <div className="w-full aspect-video bg-zinc-950 rounded-lg flex items-center justify-center overflow-hidden border border-zinc-800">
           {isLoading ? (
              <div className="text-center p-4">
-                <p key={loadingMessage} className="text-zinc-300 animate-fade-in">{loadingMessage}</p>
-                <p className="text-sm text-zinc-500 mt-2">(This can take a few minutes)</p>
+                <p key={loadingMessage} className="text-zinc-300 animate-fade-in">{t(loadingMessage)}</p>
+                <p className="text-sm text-zinc-500 mt-2">{t('videoGenerator.wait')}</p>
             </div>
           ) : error ? (
-            <p className="text-red-400 p-4">{error}</p>
+            <ErrorNotice message={error} className="m-4" />
           ) : generatedVideoUrl ? (
             <video src={generatedVideoUrl} controls autoPlay loop className="w-full h-full object-contain" />
           ) : (
-            <p className="text-zinc-500">Your video will appear here</p>
+            <p className="text-zinc-500">{t('videoGenerator.empty')}</p>
           )}
         </div>
       </div>
@@ -0,0 +1,48 @@
+import React from 'react';
+import ChatView from '../components/ChatView';
+import { useChatEngine } from '../hooks/useChatEngine';
+import { useTranslation } from '../hooks/useTranslation';
+import type { MessageKey } from '../services/i18n';
+
+// The texts shown to the user are message keys (locales/); the system instruction is
+// written for the model and stays in English.
+export interface ChatFeatureDefinition {
+  featureId: string;
+  title: MessageKey;
+  subtitle: MessageKey;
+  systemInstruction: string;
+  welcomeMessage: MessageKey;
+  errorMessage?: MessageKey;
+  placeholder: MessageKey;
+  unavailablePlaceholder?: MessageKey;
+  // Accepted attachments, e.g. 'image/*,.md' (see TEXT_ATTACHMENTS). No attach button when unset.
+  acceptAttachments?: string;
+  multiline?: boolean;
+  wide?: boolean;
+}
+
+// Builds a complete chat feature component from its texts and settings.
+export const defineChatFeature = (definition: ChatFeatureDefinition): React.FC => {
+  const ChatFeature: React.FC = () => {
+    const { t } = useTranslation();
+    // A new welcome message (after switching language) starts a new controller, whose
+    // session asks the model to answer in the new language.
+    const engine = useChatEngine({
+      ...definition,
+      welcomeMessage: t(definition.welcomeMessage),
+      errorMessage: definition.errorMessage && t(definition.errorMessage),
+    });
+    return (
+      <ChatView
+        engine={engine}
+        title={t(definition.title)}
+        subtitle={t(definition.subtitle)}
+        placeholder={t(definition.placeholder)}
+        unavailablePlaceholder={definition.unavailablePlaceholder && t(definition.unavailablePlaceholder)}
+        multiline={definition.multiline}
+        wide={definition.wide}
+      />
+    );
+  };
+  return ChatFeature;
+};
@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { API_KEY_STORAGE_KEY, getApiKeyStatus, reloadApiKey, subscribeToApiKey } from '../services/apiKeyStore';
+
+// The status of the Gemini API key (see services/apiKeyStore.ts), kept in sync with
+// changes made in this tab and in other tabs.
+export const useApiKeyStatus = () => {
+  const status = useSyncExternalStore(subscribeToApiKey, getApiKeyStatus);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === API_KEY_STORAGE_KEY || e.key === null) reloadApiKey();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return status;
+};
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+
+// What the chat on screen can do for keyboard shortcuts and the command palette.
+export interface ChatCommands {
+  send(): void;
+  stop(): void;
+  regenerate(): void;
+  focusInput(): void;
+  newConversation(): void;
+  // Text of the latest model answer, or null if there is none yet.
+  lastAnswer(): string | null;
+}
+
+// Only one chat is on screen at a time, so a single slot is enough, in the same way
+// the service layer tracks the active feature.
+let activeChat: { current: ChatCommands } | null = null;
+
+export const getActiveChatCommands = (): ChatCommands | null => activeChat?.current ?? null;
+
+// Makes the calling chat view the target of global shortcuts while it is mounted. The
+// commands are read through a ref, so they always see the view's latest state.
+export const useRegisterChatCommands = (commands: ChatCommands) => {
+  const ref = useRef(commands);
+  ref.current = commands;
+
+  useEffect(() => {
+    activeChat = ref;
+    return () => {
+      if (activeChat === ref) activeChat = null;
+    };
+  }, []);
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { createChatController } from '../services/chatController';
+import { useRoute } from './useRoute';
+import type { ChatController, ChatEngineConfig, ChatEngineState } from '../services/chatController';
+
+export type ChatEngine = ChatEngineState
+  & Omit<ChatController, 'getState' | 'subscribe'>
+  & Pick<ChatEngineConfig, 'featureId' | 'personaId' | 'acceptAttachments'>
+  & {
+    // A message linked to in the URL (e.g. from search), once its conversation is open.
+    focusedMessageIndex?: number;
+    // Drops the message from the URL after the view has scrolled to it.
+    clearFocusedMessage(): void;
+  };
+
+// Binds a chat controller to a component. A new controller (and session) is created
+// whenever the feature, persona or instruction changes; the conversation linked in the
+// URL, or else the latest saved one, is resumed on mount and any in-flight reply is
+// cancelled on unmount. The URL follows the open conversation so it can be bookmarked.
+export const useChatEngine = (config: ChatEngineConfig): ChatEngine => {
+  const { featureId, personaId, systemInstruction, welcomeMessage, errorMessage, acceptAttachments, persist } = config;
+
+  const controller = useMemo(
+    () => createChatController({ featureId, personaId, systemInstruction, welcomeMessage, errorMessage, acceptAttachments, persist }),
+    [featureId, personaId, systemInstruction, welcomeMessage, errorMessage, acceptAttachments, persist],
+  );
+
+  const state = useSyncExternalStore(controller.subscribe, controller.getState);
+
+  const { route, navigate } = useRoute();
+  const ownRoute = route.name === 'feature' && route.featureId === featureId && route.personaId === personaId ? route : null;
+  const routeConversationId = ownRoute?.conversationId;
+  const latestRouteConversationId = useRef(routeConversationId);
+  latestRouteConversationId.current = routeConversationId;
+  // Nothing is written to the URL until the linked conversation has been loaded.
+  const [isResumed, setIsResumed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsResumed(false);
+    controller.resume(latestRouteConversationId.current).finally(() => {
+      if (!cancelled) setIsResumed(true);
+    });
+    return () => {
+      cancelled = true;
+      controller.cancel();
+    };
+  }, [controller]);
+
+  // Following a link (or the back button) to another conversation of this feature.
+  useEffect(() => {
+    if (isResumed && routeConversationId && routeConversationId !== controller.getState().conversationId) {
+      controller.resume(routeConversationId);
+    }
+  }, [isResumed, routeConversationId, controller]);
+
+  // Only conversations with a user message are saved, so only those get a link.
+  const linkedConversationId = state.messages.some(m => m.role === 'user') ? state.conversationId : undefined;
+  useEffect(() => {
+    if (isResumed && ownRoute && ownRoute.conversationId !== linkedConversationId) {
+      navigate({ ...ownRoute, conversationId: linkedConversationId, messageIndex: undefined }, { replace: true });
+    }
+    // Deliberately not re-run on route changes: a new route is handled by the effect above.
+  }, [isResumed, linkedConversationId]);
+
+  const routeMessageIndex = ownRoute?.messageIndex;
+  const focusedMessageIndex = routeMessageIndex !== undefined && routeConversationId === state.conversationId && routeMessageIndex < state.messages.length
+    ? routeMessageIndex
+    : undefined;
+  const latestRoute = useRef(ownRoute);
+  latestRoute.current = ownRoute;
+  const clearFocusedMessage = useCallback(() => {
+    const current = latestRoute.current;
+    if (current?.messageIndex !== undefined) navigate({ ...current, messageIndex: undefined }, { replace: true });
+  }, [navigate]);
+
+  return {
+    ...state,
+    focusedMessageIndex,
+    clearFocusedMessage,
+    featureId,
+    personaId,
+    acceptAttachments,
+    send: controller.send,
+    cancel: controller.cancel,
+    retry: controller.retry,
+    regenerate: controller.regenerate,
+    editMessage: controller.editMessage,
+    selectVersion: controller.selectVersion,
+    addAttachments: controller.addAttachments,
+    removeAttachment: controller.removeAttachment,
+    summarize: controller.summarize,
+    updateSummary: controller.updateSummary,
+    clearSummary: controller.clearSummary,
+    setAutoSummarize: controller.setAutoSummarize,
+    newConversation: controller.newConversation,
+    discardConversation: controller.discardConversation,
+    openConversation: controller.openConversation,
+    resume: controller.resume,
+  };
+};
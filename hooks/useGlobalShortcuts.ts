@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import { getActiveChatCommands } from './useChatCommands';
+import type { MessageKey } from '../services/i18n';
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = IS_MAC ? '⌘' : 'Ctrl';
+
+// Shown in the command palette; keep in step with the handler below.
+export const SHORTCUTS: { keys: string; label: MessageKey }[] = [
+  { keys: `${MOD}+K`, label: 'shortcuts.openPalette' },
+  { keys: `${MOD}+Enter`, label: 'shortcuts.send' },
+  { keys: 'Esc', label: 'shortcuts.stop' },
+  { keys: `${MOD}+Shift+Enter`, label: 'shortcuts.regenerate' },
+  { keys: '/', label: 'shortcuts.focusInput' },
+  { keys: `${MOD}+B`, label: 'shortcuts.toggleSidebar' },
+  { keys: `${MOD}+Shift+F`, label: 'shortcuts.search' },
+];
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// App-wide keyboard shortcuts. Chat shortcuts go to whichever chat is on screen (see
+// useChatCommands). Keys a focused element already handled (e.g. Enter in the chat
+// input, Escape in the palette) are left alone.
+export const useGlobalShortcuts = (handlers: { togglePalette(): void; toggleSidebar(): void; openSearch(): void }) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      const chat = getActiveChatCommands();
+
+      let handle: (() => void) | undefined;
+      if (mod && key === 'k') handle = handlersRef.current.togglePalette;
+      else if (mod && key === 'b') handle = handlersRef.current.toggleSidebar;
+      else if (mod && e.shiftKey && key === 'f') handle = handlersRef.current.openSearch;
+      else if (mod && e.shiftKey && key === 'enter') handle = chat?.regenerate;
+      else if (mod && key === 'enter') handle = chat?.send;
+      else if (key === 'escape') handle = chat?.stop;
+      else if (key === '/' && !mod && !e.altKey && !isEditable(e.target)) handle = chat?.focusInput;
+
+      if (handle) {
+        e.preventDefault();
+        handle();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { MODEL_SETTINGS_STORAGE_KEY, getModelOverrides, reloadModelSettings, subscribeToModelSettings } from '../services/modelSettings';
+
+// The user's model overrides for a feature (see services/modelSettings.ts), kept in sync
+// with changes made in this tab and in other tabs.
+export const useModelOverrides = (featureId: string) => {
+  const getSnapshot = useCallback(() => getModelOverrides(featureId), [featureId]);
+  const overrides = useSyncExternalStore(subscribeToModelSettings, getSnapshot);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === MODEL_SETTINGS_STORAGE_KEY || e.key === null) reloadModelSettings();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return overrides;
+};
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getTier } from '../services/entitlements';
+import { isAccessDenied, loadStoredAccess, redeemAccessCode, storeAccess, verifyAccessToken, ACCESS_STORAGE_KEY } from '../services/accessService';
+import type { PremiumAccess } from '../services/accessService';
+
+// How often the token is re-checked with the server while the tab is in use,
+// so a revoked code locks premium features without a reload.
+const REVALIDATE_INTERVAL_MS = 5 * 60 * 1000;
+// Switching back to the tab re-checks too, but not more often than this.
+const MIN_REVALIDATE_GAP_MS = 60 * 1000;
+const EXPIRY_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Premium access that survives reloads. The stored token is trusted until the server
+// says otherwise: it is re-verified on startup and periodically, and dropped as soon
+// as it expires, is revoked or the user signs out. If the server can't be reached the
+// stored access is kept until its own expiry.
+export const usePremiumAccess = () => {
+  const [access, setAccess] = useState<PremiumAccess | null>(loadStoredAccess);
+
+  const update = useCallback((next: PremiumAccess | null) => {
+    storeAccess(next);
+    setAccess(next);
+  }, []);
+
+  const unlock = useCallback(async (code: string) => {
+    const redeemed = await redeemAccessCode(code);
+    update(redeemed);
+    return redeemed;
+  }, [update]);
+
+  const signOut = useCallback(() => update(null), [update]);
+
+  const token = access?.token;
+  const expiresAt = access?.expiresAt;
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => {
+      if (Date.now() >= expiresAt) update(null);
+    }, EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [expiresAt, update]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    let lastChecked = 0;
+
+    const revalidate = () => {
+      if (document.visibilityState !== 'visible' || Date.now() - lastChecked < MIN_REVALIDATE_GAP_MS) return;
+      lastChecked = Date.now();
+      verifyAccessToken(token).then(
+        verified => { if (!cancelled) update(verified); },
+        error => {
+          if (cancelled) return;
+          if (isAccessDenied(error)) {
+            update(null);
+          } else {
+            console.warn('Could not verify premium access:', error);
+          }
+        },
+      );
+    };
+
+    revalidate();
+    const revalidateTimer = setInterval(revalidate, REVALIDATE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', revalidate);
+    return () => {
+      cancelled = true;
+      clearInterval(revalidateTimer);
+      document.removeEventListener('visibilitychange', revalidate);
+    };
+  }, [token, update]);
+
+  // Keep other open tabs in step with an unlock or sign-out here.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ACCESS_STORAGE_KEY) setAccess(loadStoredAccess());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return { access, tier: getTier(access?.tier), unlock, signOut };
+};
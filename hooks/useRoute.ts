@@ -0,0 +1,79 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+// Hash routes, so links work on any static host without server rewrites:
+//   #/                                   landing page
+//   #/f/<feature-id>                     a feature
+//   #/f/persona-chat/p/<persona-id>      a persona in Persona Chat
+//   #/f/<feature-id>/c/<conversation-id> a saved conversation (also after /p/<persona-id>)
+//   #/f/<feature-id>/c/<id>/m/<index>    a message in it, e.g. a search result
+export type Route =
+  | { name: 'landing' }
+  | { name: 'feature'; featureId: string; personaId?: string; conversationId?: string; messageIndex?: number };
+
+export type FeatureRoute = Extract<Route, { name: 'feature' }>;
+
+export type Navigate = (route: Route, options?: { replace?: boolean }) => void;
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const parseRoute = (hash: string): Route => {
+  const segments = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeSegment);
+  if (segments[0] !== 'f' || !segments[1]) return { name: 'landing' };
+
+  const route: Route = { name: 'feature', featureId: segments[1] };
+  for (let i = 2; i + 1 < segments.length; i += 2) {
+    if (segments[i] === 'p') route.personaId = segments[i + 1];
+    if (segments[i] === 'c') route.conversationId = segments[i + 1];
+    if (segments[i] === 'm' && /^\d+$/.test(segments[i + 1])) route.messageIndex = Number(segments[i + 1]);
+  }
+  return route;
+};
+
+export const routeToHash = (route: Route): string => {
+  if (route.name === 'landing') return '#/';
+  let hash = `#/f/${encodeURIComponent(route.featureId)}`;
+  if (route.personaId) hash += `/p/${encodeURIComponent(route.personaId)}`;
+  if (route.conversationId) hash += `/c/${encodeURIComponent(route.conversationId)}`;
+  if (route.conversationId && route.messageIndex !== undefined) hash += `/m/${route.messageIndex}`;
+  return hash;
+};
+
+// Owns the current route; used once, by App. Pushing a hash adds a history entry, so the
+// browser's back and forward buttons move between features.
+export const useHashRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback<Navigate>((next, options = {}) => {
+    const hash = routeToHash(next);
+    if (hash === window.location.hash) return;
+    if (options.replace) {
+      // replaceState doesn't fire `hashchange`, so update the state directly.
+      window.history.replaceState(window.history.state, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return { route, navigate };
+};
+
+export const RouteContext = createContext<{ route: Route; navigate: Navigate }>({
+  route: { name: 'landing' },
+  navigate: () => {},
+});
+
+// The current route and a way to change it, for components below App.
+export const useRoute = () => useContext(RouteContext);
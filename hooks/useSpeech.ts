@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { SPEECH_STORAGE_KEY, getSpeechState, reloadSpeechPreferences, subscribeToSpeech } from '../services/speech';
+
+// Read-aloud settings and playback (see services/speech.ts), kept in sync with changes
+// made in this tab and in other tabs.
+export const useSpeech = () => {
+  const speech = useSyncExternalStore(subscribeToSpeech, getSpeechState);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === SPEECH_STORAGE_KEY || e.key === null) reloadSpeechPreferences();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return speech;
+};
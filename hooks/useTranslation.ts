@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { LANGUAGE_STORAGE_KEY, getLanguage, reloadLanguage, setLanguage, subscribeToLanguage, translate } from '../services/i18n';
+
+// The UI language (see services/i18n.ts) and a `t` bound to it. Components re-render
+// when the language changes in this tab or in another one.
+export const useTranslation = () => {
+  const language = useSyncExternalStore(subscribeToLanguage, getLanguage);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === LANGUAGE_STORAGE_KEY || e.key === null) reloadLanguage();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // `t` reads the current language itself, so it is the same function in every render;
+  // memos and effects that translate should depend on `language`.
+  return { t: translate, language, setLanguage };
+};
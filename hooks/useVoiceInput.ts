@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { transcribeAudio, getErrorMessage } from '../services/geminiService';
+import { translate } from '../services/i18n';
+import { blobToBase64 } from '../utils/helpers';
+
+export type VoiceInputState = 'idle' | 'recording' | 'transcribing';
+
+// Records from the microphone until `stop` and hands the transcript to `onTranscript`.
+// Recording stops, and a pending transcript is dropped, when the component unmounts.
+export const useVoiceInput = (onTranscript: (text: string) => void) => {
+  const [state, setState] = useState<VoiceInputState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const isMountedRef = useRef(true);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+  }, []);
+
+  const start = async () => {
+    if (state !== 'idle') return;
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error(err);
+      if (isMountedRef.current) setError(translate('common.microphoneDenied'));
+      return;
+    }
+    // The permission prompt can outlast the component; release a microphone nobody will use.
+    if (!isMountedRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      if (!isMountedRef.current) return;
+      setState('transcribing');
+      try {
+        const audio = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+        const text = (await transcribeAudio(await blobToBase64(audio), audio.type)).trim();
+        if (isMountedRef.current && text) onTranscriptRef.current(text);
+      } catch (err) {
+        console.error('Failed to transcribe the recording:', err);
+        if (isMountedRef.current) setError(getErrorMessage(err, translate('transcriber.failed')));
+      } finally {
+        if (isMountedRef.current) setState('idle');
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setState('recording');
+  };
+
+  const stop = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  return { state, error, start, stop };
+};
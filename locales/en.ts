@@ -0,0 +1,752 @@
+import type { Messages } from './id';
+
+// English messages. Keys and placeholders follow locales/id.ts.
+const en: Messages = {
+  common: {
+    language: 'Language',
+    close: 'Close',
+    cancel: 'Cancel',
+    save: 'Save',
+    remove: 'Remove',
+    copy: 'Copy',
+    copied: 'Copied!',
+    download: 'Download',
+    retry: 'Try again',
+    processing: 'Processing...',
+    tierFeatures: '{tier} features',
+    requiresTier: 'Requires the {tier} plan',
+    genericError: 'Something went wrong. Please try again.',
+    microphoneDenied: 'Microphone access denied. Please allow microphone access in your browser settings.',
+    uploadFile: 'Upload file',
+    orDragDrop: 'or drag and drop',
+    preview: 'Preview',
+  },
+  tiers: {
+    free: 'Free',
+    pro: 'Pro',
+    team: 'Team',
+  },
+  features: {
+    'ai-chat': {
+      name: 'AI Chat',
+      description: 'An all-purpose chat for any question — from science to creative ideas.',
+    },
+    'teman-curhat': {
+      name: 'Listening Friend',
+      description: 'A relaxed chat with an AI that listens to whatever is on your mind.',
+    },
+    'mail-composer': {
+      name: 'Mail Composer',
+      description: 'Draft professional or casual emails from a few bullet points.',
+    },
+    'text-summarizer': {
+      name: 'Text Summarizer',
+      description: 'Automatically summarize long texts or articles to save time.',
+    },
+    'code-assistant': {
+      name: 'Code Generator',
+      description: 'Generate code snippets, functions or whole scripts from a text description.',
+    },
+    'image-analyzer': {
+      name: 'Image Analyzer',
+      description: 'Upload an image and ask questions to get an analysis from the AI.',
+    },
+    'audio-transcriber': {
+      name: 'Audio Transcriber',
+      description: 'Automatically turn voice recordings or audio into text.',
+    },
+    'text-to-speech': {
+      name: 'Text-to-Speech',
+      description: 'Turn text into natural AI speech with a choice of speaking styles.',
+    },
+    'lyrics-generator': {
+      name: 'Lyrics Generator',
+      description: 'Write original song lyrics based on a genre and theme.',
+    },
+    'eli5-explainer': {
+      name: 'ELI5 Explainer',
+      description: 'Explain complicated topics in simple language.',
+    },
+    'code-refiner': {
+      name: 'Code Refiner',
+      description: 'Get an in-depth code review to find bugs and improve quality.',
+    },
+    'ai-image-generator': {
+      name: 'AI Image Generator',
+      description: 'Generate artistic or realistic images from a text description.',
+    },
+    'image-editor': {
+      name: 'AI Image Editor',
+      description: 'Upload an image and edit it with simple text instructions.',
+    },
+    'video-generator': {
+      name: 'Video Generator',
+      description: 'Create short videos from an image and text.',
+    },
+    'essay-writer': {
+      name: 'Essay Writer',
+      description: 'AI help with drafting essays, articles or writing assignments.',
+    },
+    'story-writer': {
+      name: 'Story Writer',
+      description: 'Generate short or long stories from your ideas.',
+    },
+    'tanya-web': {
+      name: 'Ask the Web',
+      description: 'Get accurate, up-to-date answers from the internet, powered by Google Search.',
+    },
+    'location-finder': {
+      name: 'Location Finder',
+      description: 'Find interesting places around you or anywhere else, powered by Google Maps.',
+    },
+    'persona-chat': {
+      name: 'Persona Chat',
+      description: 'Chat with an AI playing a range of expert characters.',
+    },
+    'github-assistant': {
+      name: 'GitHub Assistant',
+      description: 'Generate READMEs, commit messages, .gitignore files, and more.',
+    },
+    'live-ai-chat': {
+      name: 'Live AI Chat',
+      description: 'Real-time voice chat — you speak and the AI answers right away.',
+    },
+    'email-header-analyzer': {
+      name: 'Email Header Analyzer',
+      description: 'Trace an email\'s route and check its security protocols to detect threats.',
+    },
+    'code-packager': {
+      name: 'APK Builder',
+      description: 'Analyzes your package.json to produce an APK, a build log and every Android configuration file it needs.',
+    },
+  },
+  sidebar: {
+    home: 'Back to Home',
+    usage: 'AI usage',
+    apiKey: 'API key',
+    modelSettings: 'Model settings',
+    search: 'Search history',
+    tierActive: '{tier} plan active',
+    validUntil: 'Valid until {date}',
+    signOut: 'Leave Premium',
+  },
+  landing: {
+    title: 'Welcome to YAN OFFICIAL',
+    intro: 'A complete suite of advanced AI tools to help you with all kinds of tasks, from creativity to productivity. Explore the available features and boost your efficiency today.',
+    quote: 'Welcome to your safe space. This app was born from a simple idea by YAN OFFICIAL: to create a digital friend who is always there, whenever you need one. It is an answer to an emptiness, a work built to make sure no one feels alone on their journey anymore.',
+  },
+  placeholder: {
+    comingSoon: 'Feature Coming Soon!',
+  },
+  app: {
+    toggleSidebar: 'Toggle sidebar',
+    codeTierTooLow: 'This code unlocks the {tier} plan, but {feature} needs the {required} plan.',
+    invalidCode: 'Invalid access code. Please try again.',
+  },
+  accessCode: {
+    title: 'Premium Feature Access',
+    subtitle: 'Get full access to every advanced tool.',
+    requiresTier: 'This feature needs the {tier} plan.',
+    howToGet: 'To get an access code, send a request by email to:',
+    emailSubject: 'Premium Access Code Request',
+    haveCode: 'Already have a code?',
+    label: 'Access code',
+    placeholder: 'Enter your access code here...',
+    checking: 'Checking...',
+    unlock: 'Unlock Now',
+    serverUnreachable: 'The access code server could not be reached. Try again later.',
+    serverStatus: 'The access code server answered with status {status}.',
+    errors: {
+      invalidRequest: 'The request was invalid.',
+      rateLimited: 'Too many attempts. Please try again later.',
+      codeRequired: 'Please enter an access code.',
+      invalidCode: 'The access code is not valid.',
+      codeExpired: 'The access code has expired.',
+      codeUsedUp: 'The access code has reached its usage limit.',
+      invalidToken: 'The token is not valid.',
+      sessionExpired: 'Your premium session has ended.',
+      accessRevoked: 'Premium access has been revoked.',
+    },
+  },
+  shortcuts: {
+    openPalette: 'Open the command palette',
+    send: 'Send message',
+    stop: 'Stop the answer',
+    regenerate: 'Regenerate the last answer',
+    focusInput: 'Focus the message box',
+    toggleSidebar: 'Show/hide the sidebar',
+    search: 'Search the history',
+  },
+  palette: {
+    title: 'Command palette',
+    search: 'Search commands',
+    placeholder: 'Search features, conversations or actions...',
+    noResults: 'No results.',
+    sections: {
+      actions: 'Actions',
+      features: 'Features',
+      conversations: 'Conversations',
+    },
+    newChat: 'New chat',
+    copyAnswer: 'Copy the last answer',
+    toggleSidebar: 'Show/hide the sidebar',
+    usage: 'View AI usage',
+    apiKey: 'Set the API key',
+    modelSettings: 'Model settings',
+    searchHistory: 'Search conversations and AI results',
+    switchLanguage: 'Switch language to {language}',
+  },
+  errors: {
+    missingKey: 'No API key is configured. Add your key in the API key menu to use the AI features.',
+    auth: 'The API key was rejected or has no access to this model. Check your API key or pick it again.',
+    rateLimit: 'The AI service is receiving too many requests. Wait a moment, then try again.',
+    safety: 'The request or its answer was blocked by the safety filter. Try rewording it.',
+    network: 'Could not connect to the AI service. Check your internet connection, then try again.',
+    server: 'The AI service is busy or having problems. Please try again in a little while.',
+    invalidJson: 'The AI returned data that could not be read. Please try again.',
+    unsupported: '{capability} is not supported by the "{provider}" AI provider.',
+    capabilities: {
+      webSearch: 'Web search',
+      maps: 'Google Maps search',
+      imageEditing: 'Image editing',
+      video: 'Video generation',
+      fileUpload: 'Large file uploads',
+      liveChat: 'Live voice chat',
+    },
+    dailyRequests: 'The {tier} plan\'s daily limit was reached: {limit} AI requests per day. The quota resets at midnight; upgrade your plan for a higher limit.',
+    dailyTokens: 'The {tier} plan\'s daily limit was reached: {limit} tokens per day. The quota resets at midnight; upgrade your plan for a higher limit.',
+  },
+  history: {
+    title: 'History',
+    new: 'New Conversation',
+    untitled: 'New conversation',
+    empty: 'No saved conversations yet.',
+    titleLabel: 'Conversation title',
+    saveTitle: 'Save title',
+    rename: 'Rename conversation',
+    delete: 'Delete conversation',
+    confirmDelete: 'Delete the conversation "{title}"?',
+  },
+  chat: {
+    send: 'Send',
+    stop: 'Stop',
+    unavailable: 'Service unavailable',
+    editMessage: 'Edit message',
+    previousVersion: 'Previous version',
+    nextVersion: 'Next version',
+    truncated: 'Stopped before it finished.',
+    regenerate: 'Regenerate',
+    regenerateAnswer: 'Regenerate answer',
+    attachFile: 'Attach file',
+    uploadFile: 'Upload file',
+    removeFile: 'Remove file',
+    replyError: 'Sorry, I encountered an error. Please try again later.',
+    unsupportedFile: 'File type "{type}" is not supported.',
+    fileTooLarge: 'File size cannot exceed {size}MB.',
+    attachFailed: 'The file could not be attached. Please try again.',
+    uploading: 'Uploading files...',
+    dropFiles: 'Drop files to attach them',
+    uploadExpired: 'No longer available to the AI',
+    context: {
+      usage: 'Context: {used} / {limit} tokens',
+      nearLimit: "This conversation is nearing the model's context limit. Summarize older messages to keep replies fast and cheap.",
+      summarize: 'Summarize older messages',
+      summarizing: 'Summarizing...',
+      showSummary: 'Show summary',
+      hideSummary: 'Hide summary',
+      summaryTitle: 'Summary of the earlier conversation',
+      summaryHint: 'Sent to the AI in place of the first {count} messages. You can edit it.',
+      edited: 'edited',
+      removeSummary: 'Remove summary',
+      autoSummarize: 'Summarize automatically when the conversation gets long',
+      summarizedAbove: 'The messages above are covered by the summary',
+      turnTokens: '{prompt} tokens in · {response} tokens out',
+      nothingToSummarize: 'There are no older messages to summarize yet.',
+      summaryFailed: 'The conversation could not be summarized. Please try again.',
+    },
+    speech: {
+      record: 'Speak',
+      stopRecording: 'Done speaking',
+      recording: 'Recording... Click stop when you are done speaking.',
+      transcribing: 'Turning speech into text...',
+      read: 'Read aloud',
+      stop: 'Stop reading',
+      autoRead: 'Read replies aloud automatically',
+      failed: 'The message could not be read aloud. Please try again.',
+    },
+  },
+  codeBlock: {
+    copy: 'Copy code',
+    download: 'Download as {file}',
+  },
+  cached: {
+    notice: 'From cache · generated {date}',
+  },
+  apiKey: {
+    title: 'Gemini API key',
+    label: 'API key',
+    subtitle: 'Use your own key from',
+    statusLocked: 'Your key is encrypted. Enter the passphrase to use it.',
+    statusUser: 'Using your key ({hint}).',
+    statusUserEncrypted: 'Using your key ({hint}), stored encrypted.',
+    statusBuild: 'Using this site\'s built-in key ({hint}).',
+    statusNone: 'No API key yet. The Gemini AI features can\'t be used.',
+    replace: 'Replace API key',
+    encrypt: 'Encrypt with a passphrase',
+    passphrase: 'Passphrase',
+    passphraseHint: 'The passphrase is asked for every time the app opens and cannot be recovered.',
+    checking: 'Checking key...',
+    checkAndSave: 'Check & save',
+    saved: 'The API key is valid and has been saved.',
+    saveFailed: 'The API key could not be saved in this browser.',
+    remove: 'Remove saved key',
+    confirmRemove: 'Remove the API key saved in this browser?',
+    removed: 'The API key has been removed.',
+    privacy: 'The key is stored only in this browser and sent straight to Google when an AI feature is used.',
+    unlock: 'Unlock API key',
+    unlocking: 'Unlocking...',
+    unlockFailed: 'Could not unlock the API key.',
+    wrongPassphrase: 'Wrong passphrase.',
+    promptUnlockTitle: 'Unlock your API key',
+    promptUnlock: 'Your API key is stored encrypted. Enter the passphrase to use {feature}.',
+    promptSetTitle: 'Set up your API key',
+    promptSetBefore: '{feature} needs a Gemini API key. Create a free key in',
+    promptSetAfter: ', then paste it here.',
+    promptButton: 'Enter API key',
+  },
+  usage: {
+    title: 'AI usage',
+    subtitle: 'Recorded in this browser over the last {days} days. A ~ means the tokens are estimated.',
+    loadFailed: 'The usage history could not be loaded in this browser.',
+    today: 'Today · {tier} plan',
+    requests: 'Requests',
+    tokens: 'Tokens',
+    unlimited: '(no limit)',
+    empty: 'No usage recorded yet.',
+    byFeature: 'By feature',
+    byDay: 'By day',
+    feature: 'Feature',
+    other: 'Other',
+    media: 'Media',
+    averageLatency: 'Average latency',
+    failed: '({count} failed)',
+    seconds: '{value} s',
+    date: 'Date',
+    promptTokens: 'Prompt tokens',
+    responseTokens: 'Response tokens',
+    clear: 'Clear usage history',
+    confirmClear: 'Clear the whole usage history?',
+  },
+  modelSettings: {
+    title: 'Model settings',
+    subtitle: 'Pick the model and parameters for each feature.',
+    feature: 'Feature',
+    model: 'Model',
+    defaultSuffix: '(default)',
+    modelDefault: 'Model default',
+    otherProvider: '{feature} uses the "{provider}" provider, so the model choice is ignored.',
+    otherProviderSampling: '{feature} uses the "{provider}" provider, so the model choice is ignored; the parameters below still apply.',
+    temperature: 'Temperature',
+    temperatureHint: 'Higher = more creative and varied answers.',
+    topP: 'Top-P',
+    topPHint: 'Limits word choice to the most likely ones.',
+    maxOutputTokens: 'Max. output tokens',
+    maxOutputTokensHint: 'The longest an answer may be.',
+    outOfRange: 'Enter a number between {min} and {max}, or leave it empty.',
+    reset: 'Restore defaults',
+    saved: 'Settings saved. They apply to the next request.',
+    resetDone: 'Settings restored to the defaults.',
+  },
+  chats: {
+    'ai-chat': {
+      title: 'AI Chat',
+      subtitle: 'Ask anything, from general knowledge to creative ideas.',
+      welcome: 'Hi, I\'m YAN OFFICIAL, your all-purpose AI assistant. How can I help you today?',
+      placeholder: 'Type your message here...',
+    },
+    'teman-curhat': {
+      title: 'Listening Friend',
+      subtitle: 'A safe place to share your stories and worries.',
+      welcome: 'Hi! Anything you want to talk about? I\'m here to listen.',
+      error: 'Oops, something went wrong. Try again in a bit, okay?',
+      placeholder: 'Type your story here...',
+    },
+    'code-assistant': {
+      title: 'Code Generator',
+      subtitle: 'Generate code snippets, functions or whole scripts from a text description.',
+      welcome: "Ready to write code. What can I build for you? Describe what you need, e.g. 'write a Python function that validates an email address'.",
+      error: 'Sorry, I encountered an error. Please ensure your code is correct and try again.',
+      placeholder: 'Describe the code you want... (e.g. a javascript function that sorts an array)',
+    },
+    'github-assistant': {
+      title: 'GitHub Assistant',
+      subtitle: 'Your personal AI assistant for all things GitHub.',
+      welcome: "Welcome to your GitHub Assistant! How can I help you today? You can ask me to 'create a README for a Python web app', 'write a commit message for fixing a bug in the login page', or 'generate a .gitignore for a Node.js project'.",
+      placeholder: 'Ask for a README, commit message, .gitignore file...',
+    },
+  },
+  personas: {
+    title: 'Persona Chat',
+    subtitle: 'Pick an AI expert to start a conversation.',
+    start: 'Start Chat',
+    change: 'Change Persona',
+    online: 'Online',
+    placeholder: 'Type a message for {name}...',
+    marketing_guru: {
+      name: 'Marketing Guru',
+      description: 'Get brilliant strategies and ideas for your campaigns.',
+      welcome: 'Welcome! I see a world of marketing potential before us. What campaign shall we brainstorm today?',
+    },
+    fitness_coach: {
+      name: 'Fitness Coach',
+      description: 'Personalized workout plans and nutrition tips.',
+      welcome: 'Ready to sweat and get stronger? I\'m here to guide you. What are we focusing on today?',
+    },
+    historian: {
+      name: 'Historian',
+      description: 'Explore the events and figures of the past in depth.',
+      welcome: 'The past is a story waiting to be told. Which chapter of human history shall we explore today?',
+    },
+    career_counselor: {
+      name: 'Career Counselor',
+      description: 'Advice on resumes, interviews and career growth.',
+      welcome: 'Let\'s build the career of your dreams, one step at a time. How can I assist you on your professional journey today?',
+    },
+    chef: {
+      name: 'Professional Chef',
+      description: 'Recipe ideas, cooking techniques and kitchen tips from an expert.',
+      welcome: 'Bonjour! The kitchen is ready, and inspiration is on the menu. What delicious creation shall we craft today?',
+    },
+    sarcastic_friend: {
+      name: 'Sarcastic Friend',
+      description: 'Clever, slightly snarky answers for fun.',
+      welcome: 'Oh, look who it is. I was just in the middle of a very important nap. What do you want?',
+    },
+  },
+  eli5: {
+    topic: 'Topic to explain',
+    placeholder: 'E.g. Black Hole, Blockchain, Photosynthesis',
+    thinking: 'Thinking...',
+    submit: "Explain Like I'm 5",
+    loading: 'Simplifying the complex...',
+  },
+  summarizer: {
+    subtitle: 'Automatically summarizes long texts or articles.',
+    original: 'Original Text',
+    placeholder: 'Paste the text you want to summarize here...',
+    summary: 'Summary',
+    loading: 'Summarizing...',
+    submit: 'Summarize Text',
+  },
+  lyrics: {
+    genre: 'Genre',
+    genrePlaceholder: 'E.g. Pop, Rock, Rap',
+    theme: 'Theme / Topic',
+    themePlaceholder: 'E.g. Heartbreak, Travel, Motivation',
+    writing: 'Writing...',
+    submit: 'Generate Lyrics',
+    loading: 'Crafting your next hit...',
+  },
+  mailComposer: {
+    to: 'To (Optional)',
+    toPlaceholder: 'recipient@email.com',
+    from: 'From (Optional)',
+    fromPlaceholder: 'sender@email.com',
+    subject: 'Subject',
+    subjectPlaceholder: 'E.g. Application for Frontend Developer Position',
+    tone: 'Tone',
+    tones: {
+      formal: 'Formal',
+      casual: 'Casual',
+      persuasive: 'Persuasive',
+      direct: 'Straight to the Point',
+      friendly: 'Friendly',
+    },
+    points: 'Key Points',
+    pointsPlaceholder: '- Introduce yourself\n- Express interest in position X\n- Attach your CV',
+    writing: 'Writing...',
+    submit: 'Generate Email',
+    result: 'Draft',
+    loading: 'Composing your email...',
+  },
+  essayWriter: {
+    topic: 'Essay Topic',
+    topicPlaceholder: 'E.g. The impact of AI on modern education',
+    tone: 'Writing Style',
+    tones: {
+      formal: 'Formal',
+      casual: 'Casual',
+      academic: 'Academic',
+      creative: 'Creative',
+      persuasive: 'Persuasive',
+    },
+    length: 'Essay Length',
+    lengths: {
+      short: 'Short (1-2 paragraphs)',
+      medium: 'Medium (3-4 paragraphs)',
+      long: 'Long (5+ paragraphs)',
+    },
+    writing: 'Writing...',
+    submit: 'Write Essay',
+    loading: 'Composing your essay...',
+  },
+  textToSpeech: {
+    text: 'Text',
+    placeholder: 'Type the text you want to turn into speech here...',
+    voice: 'Choose a Voice',
+    generating: 'Generating...',
+    submit: 'Generate Speech',
+    result: 'Result',
+    loading: 'Generating audio...',
+    empty: 'The audio will appear here',
+    failed: 'Failed to generate audio. Please try again.',
+  },
+  transcriber: {
+    start: 'Start Recording',
+    stop: 'Stop Recording',
+    transcribing: 'Transcribing...',
+    recording: 'Recording in progress...',
+    empty: 'Your transcript will appear here.',
+    failed: 'Failed to transcribe the audio. Please try again.',
+  },
+  imageAnalyzer: {
+    image: 'Image',
+    question: 'Your Question',
+    placeholder: 'E.g. What objects are in this image? Explain this diagram.',
+    analyzing: 'Analyzing...',
+    submit: 'Analyze Image',
+    result: 'Analysis Result',
+    loading: 'Analyzing image...',
+    empty: 'The analysis will appear here',
+    failed: 'Failed to analyze the image. Please try again.',
+  },
+  tanyaWeb: {
+    question: 'Your Question',
+    placeholder: 'Ask about current news or any topic...',
+    searching: 'Searching the web...',
+    submit: 'Search',
+    loading: 'Looking for the latest information...',
+    sources: 'Sources:',
+  },
+  imageCreator: {
+    subtitle: 'Generate {count} unique images from your imagination.',
+    prompt: 'Image Description',
+    placeholder: 'E.g. a cat arm-wrestling a sheep, digital art',
+    generating: 'Generating...',
+    submit: 'Generate',
+    empty: 'Your images will appear here',
+    failed: 'Failed to create images. Try a different prompt.',
+  },
+  codeRefiner: {
+    subtitle: 'Get an in-depth code review to find bugs, improve performance and apply best practices.',
+    language: 'Programming Language',
+    code: 'Paste Your Code',
+    analyzing: 'Analyzing...',
+    submit: 'Refine Code',
+    result: 'Review',
+    loading: 'Analyzing your code...',
+    summary: 'Summary',
+    bugs: 'Potential Bugs',
+    performance: 'Performance',
+    style: 'Style & Readability',
+    bestPractices: 'Best Practices',
+    empty: 'The code review will appear here.',
+  },
+  emailAnalyzer: {
+    header: 'Paste the Raw Email Header',
+    analyzing: 'Analyzing...',
+    submit: 'Analyze Header',
+    loading: 'Checking the digital trail...',
+    summary: 'Analysis Summary',
+    checks: 'Authentication Checks',
+    path: 'Delivery Path',
+    hop: {
+      from: 'From',
+      by: 'By',
+      with: 'With',
+      delay: 'Delay',
+    },
+    risk: {
+      Low: 'Low Risk',
+      Medium: 'Medium Risk',
+      High: 'High Risk',
+      Informational: 'Informational',
+    },
+  },
+  locationFinder: {
+    subtitle: 'Find interesting places around you, powered by Google Maps.',
+    locating: 'Requesting your location...',
+    located: 'Location found: {coords}',
+    locationFailed: 'Could not get your location. Location-based searches may be inaccurate.',
+    unsupported: 'Geolocation is not supported by this browser.',
+    yourLocation: 'Your location',
+    placeholder: 'E.g. Italian restaurants nearby',
+    searching: 'Searching...',
+    submit: 'Find Places',
+    loading: 'Searching Google Maps...',
+    places: 'Places Found:',
+    empty: 'Location results will appear here.',
+    loadingMap: 'Loading map...',
+  },
+  imageEditor: {
+    original: 'Original Image',
+    prompt: 'Edit Instruction',
+    placeholder: 'E.g. add sunglasses, change the background to outer space',
+    editing: 'Editing...',
+    submit: 'Edit Image',
+    clear: 'Clear form',
+    result: 'Edited Image',
+    loading: 'Editing your image...',
+    empty: 'The edited image will appear here',
+    download: 'Download Image',
+    failed: 'Failed to edit the image. Try a different prompt.',
+  },
+  storyWriter: {
+    idea: 'Your Story Idea',
+    placeholder: 'E.g. A detective on Mars uncovers an ancient conspiracy...',
+    genre: 'Genre',
+    genres: {
+      fantasy: 'Fantasy',
+      sciFi: 'Science Fiction',
+      mystery: 'Mystery',
+      romance: 'Romance',
+      thriller: 'Thriller',
+      horror: 'Horror',
+      adventure: 'Adventure',
+      comedy: 'Comedy',
+    },
+    length: 'Story Length',
+    lengths: {
+      short: 'Short Story (≈500 words)',
+      medium: 'Medium Story (≈1500 words)',
+      long: 'Long Story (≈3000 words)',
+    },
+    withImage: 'Include an illustration',
+    writing: 'Writing Story...',
+    illustrating: 'Creating Image...',
+    submit: 'Write Story',
+    loading: 'Weaving your story...',
+    loadingImage: 'Creating the illustration...',
+    imageAlt: 'Illustration for: {prompt}',
+  },
+  liveChat: {
+    subtitle: "Speak directly with YAN OFFICIAL. Press '{start}' and begin the conversation.",
+    start: 'Start Session',
+    connecting: 'Connecting...',
+    end: 'End Session',
+    mute: 'Mute',
+    unmute: 'Unmute',
+    connectionFailed: 'Connection failed. Please check your microphone permissions and try again.',
+  },
+  codePackager: {
+    subtitle: 'Analyzes your `package.json` to create an APK and all the configuration files it needs.',
+    zip: '1. Project .zip File',
+    replaceFile: 'Replace file',
+    zipHint: 'ZIP file up to 50MB',
+    appName: '2. Application Name',
+    appNamePlaceholder: 'My Awesome App',
+    packageJson: '3. Paste `package.json` content',
+    build: 'Build My APK',
+    building: 'Build in Progress...',
+    steps: {
+      analyze: 'Analyzing project structure...',
+      validate: 'Validating `package.json`...',
+      capacitorConfig: 'Generating Capacitor config...',
+      manifest: 'Generating AndroidManifest snippet...',
+      bridge: 'Setting up Capacitor bridge...',
+      androidProject: 'Generating Android project files...',
+      compile: 'Compiling web assets (`npm run build`)...',
+      gradle: 'Running Gradle build...',
+      package: 'Packaging into .apk...',
+      finalize: 'Finalizing package...',
+    },
+    success: 'Build Successful!',
+    ready: 'Your APK for "{appName}" is ready to download.',
+    download: 'Download APK',
+    artifacts: 'Build Artifacts',
+    buildLog: 'Build Log',
+    again: 'Build Another App',
+    invalidZip: 'Please upload a valid .zip file.',
+    missingInput: 'Please provide a zip file, application name, and package.json content.',
+  },
+  videoGenerator: {
+    checkingKey: 'Checking API Key...',
+    keyRequired: 'API Key Required',
+    keyRequiredHint: 'This premium feature requires an API key for billing and quota management.',
+    billing: 'Learn more about billing',
+    selectKey: 'Select API Key',
+    prompt: 'Prompt (Optional with an image)',
+    placeholder: 'E.g. A neon hologram of a cat driving at top speed',
+    image: 'Starting Image (Optional)',
+    submit: 'Generate Video',
+    result: 'Result',
+    wait: '(This can take a few minutes)',
+    empty: 'Your video will appear here',
+    progress: {
+      photons: 'Gathering photons for your video...',
+      pixels: 'Teaching pixels how to dance...',
+      scenes: 'Stitching cinematic scenes together...',
+      magic: 'Adding a touch of digital magic...',
+      rendering: 'Almost there, doing the final render!',
+      onItsWay: 'Your video is on its way...',
+    },
+    keyCheckFailed: 'Could not verify API key status.',
+    keyDialogFailed: 'Failed to open the API key selection dialog.',
+    noDownloadLink: 'Video generated, but failed to retrieve the download link. API key may be missing.',
+    statusFailed: 'An error occurred while checking video status.',
+    startFailed: 'Failed to start video generation. Please try again.',
+  },
+  conversationExport: {
+    menu: 'Export / Import',
+    markdown: 'Export as Markdown',
+    html: 'Export as HTML page',
+    json: 'Export as JSON',
+    import: 'Import from JSON...',
+    importing: 'Importing...',
+    nothingToExport: 'There is no conversation to export yet.',
+    exportFailed: 'The conversation could not be exported.',
+    invalidFile: 'This file is not a valid conversation export.',
+    newerVersion: 'This file was made by a newer version of the app.',
+    wrongChat: 'This conversation is from {source}. Open that chat to import it.',
+    confirmSettings: 'This conversation used different model settings (model {model}). Use them for this feature?',
+    imported: 'Imported the conversation "{title}".',
+    you: 'You',
+    ai: 'AI',
+  },
+  search: {
+    title: 'Search history',
+    placeholder: 'Search conversations and AI results...',
+    hint: 'Type to search the messages in saved conversations and the cached AI results.',
+    source: 'Feature',
+    allSources: 'All features',
+    period: 'Period',
+    periods: {
+      all: 'Any time',
+      week: 'Last 7 days',
+      month: 'Last 30 days',
+      year: 'Last year',
+    },
+    indexing: 'Indexing...',
+    loadFailed: 'The history could not be loaded for searching.',
+    resultCount: '{count} results',
+    noResults: 'Nothing matches.',
+    generation: 'AI result',
+    roles: {
+      user: 'You',
+      model: 'AI',
+    },
+    copy: 'Copy',
+    openFeature: 'Open {feature}',
+  },
+  mock: {
+    replies: {
+      simulated: 'This is a simulated response from the **mock** provider. No request was sent to an AI server.',
+      offline: 'Offline mode is on. This answer is generated deterministically from the content of your message.',
+      development: 'A sample response for local development. Set `AI_PROVIDER=gemini` to use a real model.',
+    },
+    emptyMessage: '(empty message)',
+    transcript: 'This is a simulated transcript ({size} KB of audio received).',
+  },
+};
+
+export default en;
@@ -0,0 +1,754 @@
+// Indonesian messages. This catalog is the reference for the others: `Messages` is its
+// shape, so a translation that misses or misspells a key doesn't type-check.
+// Placeholders in braces, e.g. {tier}, are filled in by `translate` (services/i18n.ts).
+const id = {
+  common: {
+    language: 'Bahasa',
+    close: 'Tutup',
+    cancel: 'Batal',
+    save: 'Simpan',
+    remove: 'Hapus',
+    copy: 'Salin',
+    copied: 'Tersalin!',
+    download: 'Unduh',
+    retry: 'Coba lagi',
+    processing: 'Memproses...',
+    tierFeatures: 'Fitur {tier}',
+    requiresTier: 'Membutuhkan paket {tier}',
+    genericError: 'Terjadi kesalahan. Silakan coba lagi.',
+    microphoneDenied: 'Akses mikrofon ditolak. Izinkan akses mikrofon di pengaturan browser Anda.',
+    uploadFile: 'Unggah file',
+    orDragDrop: 'atau seret dan lepas',
+    preview: 'Pratinjau',
+  },
+  tiers: {
+    free: 'Gratis',
+    pro: 'Pro',
+    team: 'Team',
+  },
+  features: {
+    'ai-chat': {
+      name: 'AI Chat',
+      description: 'Chat serbaguna untuk tanya apa pun — dari ilmu pengetahuan sampai ide kreatif.',
+    },
+    'teman-curhat': {
+      name: 'Teman Curhat',
+      description: 'Ngobrol santai dengan AI yang bisa mendengarkan keluh kesah Anda.',
+    },
+    'mail-composer': {
+      name: 'Mail Composer',
+      description: 'Buat draf email profesional atau santai dari poin-poin singkat.',
+    },
+    'text-summarizer': {
+      name: 'Text Summarizer',
+      description: 'Meringkas teks atau artikel panjang secara otomatis untuk menghemat waktu.',
+    },
+    'code-assistant': {
+      name: 'Code Generator',
+      description: 'Hasilkan cuplikan kode, fungsi, atau seluruh skrip dari deskripsi teks.',
+    },
+    'image-analyzer': {
+      name: 'Image Analyzer',
+      description: 'Unggah gambar lalu ajukan pertanyaan untuk mendapatkan analisis dari AI.',
+    },
+    'audio-transcriber': {
+      name: 'Audio Transcriber',
+      description: 'Mengubah rekaman suara atau audio menjadi teks secara otomatis.',
+    },
+    'text-to-speech': {
+      name: 'Text-to-Speech',
+      description: 'Mengubah teks menjadi suara AI natural dengan pilihan gaya bicara.',
+    },
+    'lyrics-generator': {
+      name: 'Lyrics Generator',
+      description: 'Menciptakan lirik lagu orisinal berdasarkan genre dan tema.',
+    },
+    'eli5-explainer': {
+      name: 'ELI5 Explainer',
+      description: 'Menjelaskan topik rumit dengan bahasa sederhana.',
+    },
+    'code-refiner': {
+      name: 'Code Refiner',
+      description: 'Dapatkan review kode mendalam untuk menemukan bug dan meningkatkan kualitas.',
+    },
+    'ai-image-generator': {
+      name: 'AI Image Generator',
+      description: 'Menghasilkan gambar artistik atau realistis dari deskripsi teks.',
+    },
+    'image-editor': {
+      name: 'AI Image Editor',
+      description: 'Unggah dan edit gambar menggunakan perintah teks sederhana.',
+    },
+    'video-generator': {
+      name: 'Video Generator',
+      description: 'Buat video pendek dari gambar dan teks.',
+    },
+    'essay-writer': {
+      name: 'Penulis Esai',
+      description: 'Bantuan AI untuk menyusun draf esai, artikel, atau tugas menulis.',
+    },
+    'story-writer': {
+      name: 'Story Writer',
+      description: 'Hasilkan cerita pendek atau panjang berdasarkan ide Anda.',
+    },
+    'tanya-web': {
+      name: 'Tanya Web',
+      description: 'Dapatkan jawaban akurat dan terkini dari internet, didukung oleh Google Search.',
+    },
+    'location-finder': {
+      name: 'Pencari Lokasi',
+      description: 'Temukan tempat menarik di sekitar Anda atau di lokasi mana pun, didukung oleh Google Maps.',
+    },
+    'persona-chat': {
+      name: 'Persona Chat',
+      description: 'Ngobrol dengan AI yang berperan sebagai berbagai karakter ahli.',
+    },
+    'github-assistant': {
+      name: 'GitHub Assistant',
+      description: 'Buat README, pesan commit, file .gitignore, dan lainnya.',
+    },
+    'live-ai-chat': {
+      name: 'Live AI Chat',
+      description: 'Chat real-time dengan suara — Anda bicara dan AI menjawab langsung.',
+    },
+    'email-header-analyzer': {
+      name: 'Email Header Analyzer',
+      description: 'Analisis jejak email dan periksa protokol keamanan untuk mendeteksi ancaman.',
+    },
+    'code-packager': {
+      name: 'APK Builder',
+      description: 'Menganalisis package.json Anda untuk membuat APK, log build, dan semua file konfigurasi Android yang diperlukan.',
+    },
+  },
+  sidebar: {
+    home: 'Kembali ke Beranda',
+    usage: 'Pemakaian AI',
+    apiKey: 'Kunci API',
+    modelSettings: 'Pengaturan Model',
+    search: 'Cari riwayat',
+    tierActive: 'Paket {tier} aktif',
+    validUntil: 'Berlaku hingga {date}',
+    signOut: 'Keluar dari Premium',
+  },
+  landing: {
+    title: 'Selamat Datang di YAN OFFICIAL',
+    intro: 'Suite lengkap alat AI canggih untuk membantu Anda dengan berbagai tugas, dari kreativitas hingga produktivitas. Jelajahi fitur-fitur yang tersedia dan tingkatkan efisiensi kerja Anda hari ini.',
+    quote: 'Selamat datang di ruang amanmu. Aplikasi ini lahir dari sebuah ide sederhana oleh YAN OFFICIAL: menciptakan teman digital yang selalu ada, kapan pun kamu butuh. Ia adalah jawaban atas sebuah kekosongan, sebuah karya yang dibangun untuk memastikan tak ada lagi yang merasa sendirian dalam perjalanannya.',
+  },
+  placeholder: {
+    comingSoon: 'Fitur Segera Hadir!',
+  },
+  app: {
+    toggleSidebar: 'Tampilkan/sembunyikan sidebar',
+    codeTierTooLow: 'Kode ini membuka paket {tier}, sedangkan {feature} membutuhkan paket {required}.',
+    invalidCode: 'Kode akses tidak valid. Silakan coba lagi.',
+  },
+  accessCode: {
+    title: 'Akses Fitur Premium',
+    subtitle: 'Dapatkan akses penuh ke semua alat canggih.',
+    requiresTier: 'Fitur ini membutuhkan paket {tier}.',
+    howToGet: 'Untuk mendapatkan kode akses, silakan kirim email permintaan ke:',
+    emailSubject: 'Permintaan Kode Akses Premium',
+    haveCode: 'Sudah Punya Kode?',
+    label: 'Kode akses',
+    placeholder: 'Masukkan kode akses di sini...',
+    checking: 'Memeriksa...',
+    unlock: 'Buka Sekarang',
+    serverUnreachable: 'Server kode akses tidak dapat dihubungi. Coba lagi nanti.',
+    serverStatus: 'Server kode akses mengembalikan status {status}.',
+    errors: {
+      invalidRequest: 'Permintaan tidak valid.',
+      rateLimited: 'Terlalu banyak percobaan. Coba lagi nanti.',
+      codeRequired: 'Kode akses wajib diisi.',
+      invalidCode: 'Kode akses tidak valid.',
+      codeExpired: 'Kode akses sudah kedaluwarsa.',
+      codeUsedUp: 'Kode akses sudah mencapai batas penggunaan.',
+      invalidToken: 'Token tidak valid.',
+      sessionExpired: 'Sesi premium sudah berakhir.',
+      accessRevoked: 'Akses premium telah dicabut.',
+    },
+  },
+  shortcuts: {
+    openPalette: 'Buka palet perintah',
+    send: 'Kirim pesan',
+    stop: 'Hentikan jawaban',
+    regenerate: 'Buat ulang jawaban terakhir',
+    focusInput: 'Fokus ke kolom pesan',
+    toggleSidebar: 'Tampilkan/sembunyikan sidebar',
+    search: 'Cari di riwayat',
+  },
+  palette: {
+    title: 'Palet perintah',
+    search: 'Cari perintah',
+    placeholder: 'Cari fitur, percakapan, atau aksi...',
+    noResults: 'Tidak ada hasil.',
+    sections: {
+      actions: 'Aksi',
+      features: 'Fitur',
+      conversations: 'Percakapan',
+    },
+    newChat: 'Chat baru',
+    copyAnswer: 'Salin jawaban terakhir',
+    toggleSidebar: 'Tampilkan/sembunyikan sidebar',
+    usage: 'Lihat pemakaian AI',
+    apiKey: 'Atur kunci API',
+    modelSettings: 'Pengaturan model',
+    searchHistory: 'Cari di percakapan dan hasil AI',
+    switchLanguage: 'Ganti bahasa ke {language}',
+  },
+  errors: {
+    missingKey: 'Kunci API belum dikonfigurasi. Tambahkan kunci Anda lewat menu Kunci API untuk memakai fitur AI.',
+    auth: 'Kunci API ditolak atau tidak memiliki akses ke model ini. Periksa atau pilih ulang kunci API Anda.',
+    rateLimit: 'Layanan AI sedang menerima terlalu banyak permintaan. Tunggu sebentar, lalu coba lagi.',
+    safety: 'Permintaan atau jawabannya diblokir oleh filter keamanan. Coba ubah kata-kata Anda.',
+    network: 'Tidak dapat terhubung ke layanan AI. Periksa koneksi internet Anda, lalu coba lagi.',
+    server: 'Layanan AI sedang sibuk atau bermasalah. Silakan coba lagi beberapa saat lagi.',
+    invalidJson: 'AI mengembalikan data yang tidak dapat dibaca. Silakan coba lagi.',
+    unsupported: '{capability} tidak didukung oleh penyedia AI "{provider}".',
+    capabilities: {
+      webSearch: 'Pencarian web',
+      maps: 'Pencarian Google Maps',
+      imageEditing: 'Pengeditan gambar',
+      video: 'Pembuatan video',
+      fileUpload: 'Unggah file besar',
+      liveChat: 'Obrolan suara langsung',
+    },
+    dailyRequests: 'Batas harian paket {tier} tercapai: {limit} permintaan AI per hari. Kuota direset tengah malam; tingkatkan paket untuk batas yang lebih tinggi.',
+    dailyTokens: 'Batas harian paket {tier} tercapai: {limit} token per hari. Kuota direset tengah malam; tingkatkan paket untuk batas yang lebih tinggi.',
+  },
+  history: {
+    title: 'Riwayat',
+    new: 'Percakapan Baru',
+    untitled: 'Percakapan baru',
+    empty: 'Belum ada percakapan tersimpan.',
+    titleLabel: 'Judul percakapan',
+    saveTitle: 'Simpan judul',
+    rename: 'Ganti nama percakapan',
+    delete: 'Hapus percakapan',
+    confirmDelete: 'Hapus percakapan "{title}"?',
+  },
+  chat: {
+    send: 'Kirim',
+    stop: 'Hentikan',
+    unavailable: 'Layanan tidak tersedia',
+    editMessage: 'Edit pesan',
+    previousVersion: 'Versi sebelumnya',
+    nextVersion: 'Versi berikutnya',
+    truncated: 'Dihentikan sebelum selesai.',
+    regenerate: 'Buat ulang',
+    regenerateAnswer: 'Buat ulang jawaban',
+    attachFile: 'Lampirkan file',
+    uploadFile: 'Unggah file',
+    removeFile: 'Hapus file',
+    replyError: 'Maaf, terjadi kesalahan. Silakan coba lagi nanti.',
+    unsupportedFile: 'Jenis file "{type}" tidak didukung.',
+    fileTooLarge: 'Ukuran file tidak boleh lebih dari {size}MB.',
+    attachFailed: 'File tidak dapat dilampirkan. Silakan coba lagi.',
+    uploading: 'Mengunggah file...',
+    dropFiles: 'Lepaskan file untuk melampirkannya',
+    uploadExpired: 'Tidak lagi tersedia untuk AI',
+    context: {
+      usage: 'Konteks: {used} / {limit} token',
+      nearLimit: 'Percakapan mendekati batas konteks model. Ringkas pesan lama agar jawaban tetap cepat dan murah.',
+      summarize: 'Ringkas pesan lama',
+      summarizing: 'Meringkas...',
+      showSummary: 'Lihat ringkasan',
+      hideSummary: 'Sembunyikan ringkasan',
+      summaryTitle: 'Ringkasan percakapan sebelumnya',
+      summaryHint: 'Dikirim ke AI sebagai pengganti {count} pesan pertama. Anda dapat mengubahnya.',
+      edited: 'diedit',
+      removeSummary: 'Hapus ringkasan',
+      autoSummarize: 'Ringkas otomatis saat percakapan panjang',
+      summarizedAbove: 'Pesan di atas diwakili ringkasan',
+      turnTokens: '{prompt} token masuk · {response} token keluar',
+      nothingToSummarize: 'Belum ada pesan lama yang bisa diringkas.',
+      summaryFailed: 'Percakapan tidak dapat diringkas. Silakan coba lagi.',
+    },
+    speech: {
+      record: 'Bicara',
+      stopRecording: 'Selesai bicara',
+      recording: 'Merekam... Klik tombol berhenti setelah selesai bicara.',
+      transcribing: 'Mengubah suara menjadi teks...',
+      read: 'Bacakan',
+      stop: 'Berhenti membacakan',
+      autoRead: 'Bacakan jawaban otomatis',
+      failed: 'Pesan tidak dapat dibacakan. Silakan coba lagi.',
+    },
+  },
+  codeBlock: {
+    copy: 'Salin kode',
+    download: 'Unduh sebagai {file}',
+  },
+  cached: {
+    notice: 'Dari cache · dibuat {date}',
+  },
+  apiKey: {
+    title: 'Kunci API Gemini',
+    label: 'Kunci API',
+    subtitle: 'Pakai kunci Anda sendiri dari',
+    statusLocked: 'Kunci Anda terenkripsi. Masukkan passphrase untuk memakainya.',
+    statusUser: 'Memakai kunci Anda ({hint}).',
+    statusUserEncrypted: 'Memakai kunci Anda ({hint}), tersimpan terenkripsi.',
+    statusBuild: 'Memakai kunci bawaan situs ini ({hint}).',
+    statusNone: 'Belum ada kunci API. Fitur AI Gemini belum dapat digunakan.',
+    replace: 'Ganti kunci API',
+    encrypt: 'Enkripsi dengan passphrase',
+    passphrase: 'Passphrase',
+    passphraseHint: 'Passphrase diminta lagi setiap kali aplikasi dibuka dan tidak dapat dipulihkan.',
+    checking: 'Memeriksa kunci...',
+    checkAndSave: 'Periksa & simpan',
+    saved: 'Kunci API valid dan telah disimpan.',
+    saveFailed: 'Kunci API tidak dapat disimpan di browser ini.',
+    remove: 'Hapus kunci tersimpan',
+    confirmRemove: 'Hapus kunci API yang tersimpan di browser ini?',
+    removed: 'Kunci API telah dihapus.',
+    privacy: 'Kunci disimpan hanya di browser ini dan dikirim langsung ke Google saat fitur AI dipakai.',
+    unlock: 'Buka kunci API',
+    unlocking: 'Membuka...',
+    unlockFailed: 'Gagal membuka kunci API.',
+    wrongPassphrase: 'Passphrase salah.',
+    promptUnlockTitle: 'Buka kunci API Anda',
+    promptUnlock: 'Kunci API Anda tersimpan terenkripsi. Masukkan passphrase untuk memakai {feature}.',
+    promptSetTitle: 'Atur kunci API Anda',
+    promptSetBefore: '{feature} membutuhkan kunci API Gemini. Buat kunci gratis di',
+    promptSetAfter: ', lalu tempelkan di sini.',
+    promptButton: 'Masukkan kunci API',
+  },
+  usage: {
+    title: 'Pemakaian AI',
+    subtitle: 'Tercatat di browser ini selama {days} hari terakhir. Tanda ~ berarti token diperkirakan.',
+    loadFailed: 'Riwayat pemakaian tidak dapat dimuat di browser ini.',
+    today: 'Hari ini · Paket {tier}',
+    requests: 'Permintaan',
+    tokens: 'Token',
+    unlimited: '(tanpa batas)',
+    empty: 'Belum ada pemakaian yang tercatat.',
+    byFeature: 'Per fitur',
+    byDay: 'Per hari',
+    feature: 'Fitur',
+    other: 'Lainnya',
+    media: 'Media',
+    averageLatency: 'Rata-rata latensi',
+    failed: '({count} gagal)',
+    seconds: '{value} dtk',
+    date: 'Tanggal',
+    promptTokens: 'Token prompt',
+    responseTokens: 'Token respons',
+    clear: 'Hapus riwayat pemakaian',
+    confirmClear: 'Hapus seluruh riwayat pemakaian?',
+  },
+  modelSettings: {
+    title: 'Pengaturan Model',
+    subtitle: 'Pilih model dan parameter untuk setiap fitur.',
+    feature: 'Fitur',
+    model: 'Model',
+    defaultSuffix: '(bawaan)',
+    modelDefault: 'Bawaan model',
+    otherProvider: '{feature} memakai penyedia "{provider}", jadi pilihan model diabaikan.',
+    otherProviderSampling: '{feature} memakai penyedia "{provider}", jadi pilihan model diabaikan; parameter di bawah tetap berlaku.',
+    temperature: 'Temperature',
+    temperatureHint: 'Lebih tinggi = jawaban lebih kreatif dan beragam.',
+    topP: 'Top-P',
+    topPHint: 'Membatasi pilihan kata ke yang paling mungkin.',
+    maxOutputTokens: 'Maks. token output',
+    maxOutputTokensHint: 'Panjang jawaban maksimum.',
+    outOfRange: 'Isi angka antara {min} dan {max}, atau kosongkan.',
+    reset: 'Kembalikan bawaan',
+    saved: 'Pengaturan disimpan. Berlaku untuk permintaan berikutnya.',
+    resetDone: 'Pengaturan dikembalikan ke bawaan.',
+  },
+  chats: {
+    'ai-chat': {
+      title: 'AI Chat',
+      subtitle: 'Tanya apa saja, dari pengetahuan umum hingga ide kreatif.',
+      welcome: 'Halo, saya YAN OFFICIAL. Asisten AI serbaguna Anda. Ada yang bisa saya bantu hari ini?',
+      placeholder: 'Ketik pesan Anda di sini...',
+    },
+    'teman-curhat': {
+      title: 'Teman Curhat',
+      subtitle: 'Tempat aman untuk berbagi cerita dan keluh kesah.',
+      welcome: 'Halo! Ada yang mau diceritain? Aku di sini buat dengerin kok.',
+      error: 'Oops, sepertinya ada masalah. Coba lagi nanti ya.',
+      placeholder: 'Ketik ceritamu di sini...',
+    },
+    'code-assistant': {
+      title: 'Code Generator',
+      subtitle: 'Hasilkan cuplikan kode, fungsi, atau seluruh skrip dari deskripsi teks.',
+      welcome: "Siap untuk membuat kode. Apa yang bisa saya buatkan untuk Anda? Jelaskan kebutuhan Anda, misalnya 'buatkan fungsi Python untuk validasi email'.",
+      error: 'Maaf, terjadi kesalahan. Pastikan kode Anda benar, lalu coba lagi.',
+      placeholder: 'Jelaskan kode yang ingin dibuat... (contoh: fungsi javascript untuk mengurutkan array)',
+    },
+    'github-assistant': {
+      title: 'GitHub Assistant',
+      subtitle: 'Asisten AI pribadi Anda untuk segala hal tentang GitHub.',
+      welcome: "Selamat datang di GitHub Assistant! Ada yang bisa saya bantu hari ini? Anda bisa meminta 'buatkan README untuk aplikasi web Python', 'tulis pesan commit untuk perbaikan bug di halaman login', atau 'buat .gitignore untuk proyek Node.js'.",
+      placeholder: 'Minta README, pesan commit, file .gitignore...',
+    },
+  },
+  personas: {
+    title: 'Persona Chat',
+    subtitle: 'Pilih seorang ahli AI untuk memulai percakapan.',
+    start: 'Mulai Chat',
+    change: 'Ganti Persona',
+    online: 'Online',
+    placeholder: 'Ketik pesan untuk {name}...',
+    marketing_guru: {
+      name: 'Marketing Guru',
+      description: 'Dapatkan strategi dan ide cemerlang untuk kampanye Anda.',
+      welcome: 'Selamat datang! Saya melihat potensi pemasaran yang luar biasa di depan kita. Kampanye apa yang akan kita rancang hari ini?',
+    },
+    fitness_coach: {
+      name: 'Pelatih Fitness',
+      description: 'Rencana latihan dan tips nutrisi yang dipersonalisasi.',
+      welcome: 'Siap berkeringat dan jadi lebih kuat? Saya di sini untuk membimbing Anda. Kita fokus ke apa hari ini?',
+    },
+    historian: {
+      name: 'Sejarawan',
+      description: 'Jelajahi peristiwa dan tokoh masa lalu secara mendalam.',
+      welcome: 'Masa lalu adalah kisah yang menunggu untuk diceritakan. Bab sejarah manusia mana yang ingin kita jelajahi hari ini?',
+    },
+    career_counselor: {
+      name: 'Konselor Karier',
+      description: 'Nasihat untuk CV, wawancara, dan pengembangan karier.',
+      welcome: 'Mari bangun karier impian Anda, selangkah demi selangkah. Apa yang bisa saya bantu dalam perjalanan profesional Anda hari ini?',
+    },
+    chef: {
+      name: 'Koki Profesional',
+      description: 'Ide resep, teknik memasak, dan tips dapur dari ahlinya.',
+      welcome: 'Bonjour! Dapur sudah siap, dan inspirasi ada di menu. Kreasi lezat apa yang akan kita buat hari ini?',
+    },
+    sarcastic_friend: {
+      name: 'Teman Sarkas',
+      description: 'Jawaban cerdas dan sedikit menyindir untuk hiburan.',
+      welcome: 'Oh, lihat siapa yang datang. Aku baru saja tidur siang yang sangat penting. Mau apa?',
+    },
+  },
+  eli5: {
+    topic: 'Topik yang ingin dijelaskan',
+    placeholder: 'Contoh: Black Hole, Blockchain, Fotosintesis',
+    thinking: 'Berpikir...',
+    submit: 'Jelaskan Seperti Aku Umur 5',
+    loading: 'Menyederhanakan hal yang rumit...',
+  },
+  summarizer: {
+    subtitle: 'Meringkas teks atau artikel panjang secara otomatis.',
+    original: 'Teks Asli',
+    placeholder: 'Tempel teks yang ingin diringkas di sini...',
+    summary: 'Ringkasan',
+    loading: 'Meringkas...',
+    submit: 'Ringkas Teks',
+  },
+  lyrics: {
+    genre: 'Genre',
+    genrePlaceholder: 'Contoh: Pop, Rock, Rap',
+    theme: 'Tema / Topik',
+    themePlaceholder: 'Contoh: Patah hati, Perjalanan, Semangat',
+    writing: 'Menulis...',
+    submit: 'Buat Lirik',
+    loading: 'Meracik lagu hit Anda berikutnya...',
+  },
+  mailComposer: {
+    to: 'Untuk (Opsional)',
+    toPlaceholder: 'penerima@email.com',
+    from: 'Dari (Opsional)',
+    fromPlaceholder: 'pengirim@email.com',
+    subject: 'Subjek',
+    subjectPlaceholder: 'Contoh: Lamaran Posisi Frontend Developer',
+    tone: 'Gaya Bahasa',
+    tones: {
+      formal: 'Formal',
+      casual: 'Santai',
+      persuasive: 'Persuasif',
+      direct: 'Langsung ke Poin',
+      friendly: 'Ramah',
+    },
+    points: 'Poin-poin Utama',
+    pointsPlaceholder: '- Perkenalkan diri\n- Sampaikan ketertarikan pada posisi X\n- Lampirkan CV',
+    writing: 'Menulis...',
+    submit: 'Buat Email',
+    result: 'Hasil Draf',
+    loading: 'Menyusun email...',
+  },
+  essayWriter: {
+    topic: 'Topik Esai',
+    topicPlaceholder: 'Contoh: Dampak AI pada pendidikan modern',
+    tone: 'Gaya Penulisan',
+    tones: {
+      formal: 'Formal',
+      casual: 'Santai',
+      academic: 'Akademis',
+      creative: 'Kreatif',
+      persuasive: 'Persuasif',
+    },
+    length: 'Panjang Esai',
+    lengths: {
+      short: 'Pendek (1-2 paragraf)',
+      medium: 'Sedang (3-4 paragraf)',
+      long: 'Panjang (5+ paragraf)',
+    },
+    writing: 'Menulis...',
+    submit: 'Tulis Esai',
+    loading: 'Menyusun esai Anda...',
+  },
+  textToSpeech: {
+    text: 'Teks',
+    placeholder: 'Ketik teks yang ingin diubah menjadi suara di sini...',
+    voice: 'Pilih Suara',
+    generating: 'Membuat...',
+    submit: 'Buat Suara',
+    result: 'Hasil',
+    loading: 'Membuat audio...',
+    empty: 'Audio akan muncul di sini',
+    failed: 'Gagal menghasilkan audio. Silakan coba lagi.',
+  },
+  transcriber: {
+    start: 'Mulai Merekam',
+    stop: 'Berhenti Merekam',
+    transcribing: 'Mentranskripsi...',
+    recording: 'Sedang merekam...',
+    empty: 'Transkrip Anda akan muncul di sini.',
+    failed: 'Gagal mentranskripsi audio. Silakan coba lagi.',
+  },
+  imageAnalyzer: {
+    image: 'Gambar',
+    question: 'Pertanyaan Anda',
+    placeholder: 'Contoh: Apa saja objek dalam gambar ini? Jelaskan diagram ini.',
+    analyzing: 'Menganalisis...',
+    submit: 'Analisis Gambar',
+    result: 'Hasil Analisis',
+    loading: 'Menganalisis gambar...',
+    empty: 'Hasil analisis akan muncul di sini',
+    failed: 'Gagal menganalisis gambar. Silakan coba lagi.',
+  },
+  tanyaWeb: {
+    question: 'Pertanyaan Anda',
+    placeholder: 'Tanyakan tentang berita terkini atau topik apa pun...',
+    searching: 'Mencari di web...',
+    submit: 'Cari',
+    loading: 'Mencari informasi terbaru...',
+    sources: 'Sumber:',
+  },
+  imageCreator: {
+    subtitle: 'Hasilkan {count} gambar unik dari imajinasi Anda.',
+    prompt: 'Deskripsi Gambar',
+    placeholder: 'Contoh: seekor kucing adu panco sama domba, digital art',
+    generating: 'Membuat...',
+    submit: 'Buat Gambar',
+    empty: 'Gambar Anda akan muncul di sini',
+    failed: 'Gagal membuat gambar. Coba prompt yang berbeda.',
+  },
+  codeRefiner: {
+    subtitle: 'Dapatkan review kode mendalam untuk menemukan bug, meningkatkan performa, dan menerapkan praktik terbaik.',
+    language: 'Bahasa Pemrograman',
+    code: 'Tempelkan Kode Anda',
+    analyzing: 'Menganalisis...',
+    submit: 'Review Kode',
+    result: 'Hasil Review',
+    loading: 'Menganalisis kode Anda...',
+    summary: 'Ringkasan',
+    bugs: 'Potensi Bug',
+    performance: 'Performa',
+    style: 'Gaya & Keterbacaan',
+    bestPractices: 'Praktik Terbaik',
+    empty: 'Hasil review kode akan muncul di sini.',
+  },
+  emailAnalyzer: {
+    header: 'Tempelkan Header Email Mentah',
+    analyzing: 'Menganalisis...',
+    submit: 'Analisis Header',
+    loading: 'Memeriksa jejak digital...',
+    summary: 'Ringkasan Analisis',
+    checks: 'Pemeriksaan Autentikasi',
+    path: 'Jalur Pengiriman',
+    hop: {
+      from: 'Dari',
+      by: 'Oleh',
+      with: 'Protokol',
+      delay: 'Jeda',
+    },
+    risk: {
+      Low: 'Risiko Rendah',
+      Medium: 'Risiko Sedang',
+      High: 'Risiko Tinggi',
+      Informational: 'Informasi',
+    },
+  },
+  locationFinder: {
+    subtitle: 'Temukan tempat menarik di sekitar Anda, didukung oleh Google Maps.',
+    locating: 'Meminta lokasi...',
+    located: 'Lokasi ditemukan: {coords}',
+    locationFailed: 'Gagal mendapatkan lokasi. Pencarian berbasis lokasi mungkin tidak akurat.',
+    unsupported: 'Geolocation tidak didukung oleh browser ini.',
+    yourLocation: 'Lokasi Anda',
+    placeholder: 'Contoh: restoran Italia di dekat sini',
+    searching: 'Mencari...',
+    submit: 'Cari Tempat',
+    loading: 'Mencari di Google Maps...',
+    places: 'Tempat yang Ditemukan:',
+    empty: 'Hasil pencarian lokasi akan muncul di sini.',
+    loadingMap: 'Memuat peta...',
+  },
+  imageEditor: {
+    original: 'Gambar Asli',
+    prompt: 'Perintah Edit',
+    placeholder: 'Contoh: tambahkan kacamata hitam, ubah latar belakang menjadi luar angkasa',
+    editing: 'Mengedit...',
+    submit: 'Edit Gambar',
+    clear: 'Kosongkan formulir',
+    result: 'Hasil Edit',
+    loading: 'Mengedit gambar Anda...',
+    empty: 'Hasil editan akan muncul di sini',
+    download: 'Unduh Gambar',
+    failed: 'Gagal mengedit gambar. Coba prompt yang berbeda.',
+  },
+  storyWriter: {
+    idea: 'Ide Cerita Anda',
+    placeholder: 'Contoh: Seorang detektif di Mars menemukan konspirasi kuno...',
+    genre: 'Genre',
+    genres: {
+      fantasy: 'Fantasi',
+      sciFi: 'Fiksi Ilmiah',
+      mystery: 'Misteri',
+      romance: 'Romansa',
+      thriller: 'Thriller',
+      horror: 'Horor',
+      adventure: 'Petualangan',
+      comedy: 'Komedi',
+    },
+    length: 'Panjang Cerita',
+    lengths: {
+      short: 'Cerita Pendek (≈500 kata)',
+      medium: 'Cerita Sedang (≈1500 kata)',
+      long: 'Cerita Panjang (≈3000 kata)',
+    },
+    withImage: 'Sertakan gambar ilustrasi',
+    writing: 'Menulis Cerita...',
+    illustrating: 'Membuat Gambar...',
+    submit: 'Tulis Cerita',
+    loading: 'Cerita sedang dirangkai...',
+    loadingImage: 'Membuat ilustrasi...',
+    imageAlt: 'Ilustrasi untuk: {prompt}',
+  },
+  liveChat: {
+    subtitle: "Bicara langsung dengan YAN OFFICIAL. Tekan '{start}' dan mulai percakapan.",
+    start: 'Mulai Sesi',
+    connecting: 'Menghubungkan...',
+    end: 'Akhiri Sesi',
+    mute: 'Bisukan',
+    unmute: 'Bunyikan',
+    connectionFailed: 'Koneksi gagal. Periksa izin mikrofon Anda lalu coba lagi.',
+  },
+  codePackager: {
+    subtitle: 'Analisis `package.json` Anda untuk membuat APK dan semua file konfigurasi yang diperlukan.',
+    zip: '1. File .zip Proyek',
+    replaceFile: 'Ganti file',
+    zipHint: 'File ZIP hingga 50MB',
+    appName: '2. Nama Aplikasi',
+    appNamePlaceholder: 'Aplikasi Kerenku',
+    packageJson: '3. Tempelkan isi `package.json`',
+    build: 'Buat APK Saya',
+    building: 'Build sedang berjalan...',
+    steps: {
+      analyze: 'Menganalisis struktur proyek...',
+      validate: 'Memvalidasi `package.json`...',
+      capacitorConfig: 'Membuat konfigurasi Capacitor...',
+      manifest: 'Membuat cuplikan AndroidManifest...',
+      bridge: 'Menyiapkan bridge Capacitor...',
+      androidProject: 'Membuat file proyek Android...',
+      compile: 'Mengompilasi aset web (`npm run build`)...',
+      gradle: 'Menjalankan build Gradle...',
+      package: 'Mengemas menjadi .apk...',
+      finalize: 'Menyelesaikan paket...',
+    },
+    success: 'Build Berhasil!',
+    ready: 'APK untuk "{appName}" siap diunduh.',
+    download: 'Unduh APK',
+    artifacts: 'Artefak Build',
+    buildLog: 'Log Build',
+    again: 'Build Aplikasi Lain',
+    invalidZip: 'Unggah file .zip yang valid.',
+    missingInput: 'Lengkapi file zip, nama aplikasi, dan isi package.json.',
+  },
+  videoGenerator: {
+    checkingKey: 'Memeriksa API key...',
+    keyRequired: 'API Key Diperlukan',
+    keyRequiredHint: 'Fitur premium ini membutuhkan API key untuk penagihan dan pengelolaan kuota.',
+    billing: 'Pelajari lebih lanjut tentang penagihan',
+    selectKey: 'Pilih API Key',
+    prompt: 'Prompt (Opsional jika ada gambar)',
+    placeholder: 'Contoh: Hologram neon seekor kucing yang menyetir dengan kecepatan penuh',
+    image: 'Gambar Awal (Opsional)',
+    submit: 'Buat Video',
+    result: 'Hasil',
+    wait: '(Ini bisa memakan waktu beberapa menit)',
+    empty: 'Video Anda akan muncul di sini',
+    progress: {
+      photons: 'Mengumpulkan foton untuk video Anda...',
+      pixels: 'Mengajari piksel cara menari...',
+      scenes: 'Merangkai adegan sinematik...',
+      magic: 'Menambahkan sedikit keajaiban digital...',
+      rendering: 'Hampir selesai, sedang proses rendering akhir!',
+      onItsWay: 'Video Anda sedang dalam perjalanan...',
+    },
+    keyCheckFailed: 'Tidak dapat memeriksa status API key.',
+    keyDialogFailed: 'Gagal membuka dialog pemilihan API key.',
+    noDownloadLink: 'Video berhasil dibuat, tetapi tautan unduhannya tidak dapat diambil. API key mungkin belum diatur.',
+    statusFailed: 'Terjadi kesalahan saat memeriksa status video.',
+    startFailed: 'Gagal memulai pembuatan video. Silakan coba lagi.',
+  },
+  conversationExport: {
+    menu: 'Ekspor / Impor',
+    markdown: 'Ekspor sebagai Markdown',
+    html: 'Ekspor sebagai halaman HTML',
+    json: 'Ekspor sebagai JSON',
+    import: 'Impor dari JSON...',
+    importing: 'Mengimpor...',
+    nothingToExport: 'Belum ada percakapan untuk diekspor.',
+    exportFailed: 'Percakapan tidak dapat diekspor.',
+    invalidFile: 'File ini bukan ekspor percakapan yang valid.',
+    newerVersion: 'File ini dibuat oleh versi aplikasi yang lebih baru.',
+    wrongChat: 'Percakapan ini berasal dari {source}. Buka chat tersebut untuk mengimpornya.',
+    confirmSettings: 'Percakapan ini menggunakan pengaturan model lain (model {model}). Gunakan pengaturan tersebut untuk fitur ini?',
+    imported: 'Percakapan "{title}" telah diimpor.',
+    you: 'Anda',
+    ai: 'AI',
+  },
+  search: {
+    title: 'Cari riwayat',
+    placeholder: 'Cari di percakapan dan hasil AI...',
+    hint: 'Ketik untuk mencari pesan di percakapan tersimpan dan hasil AI yang ada di cache.',
+    source: 'Fitur',
+    allSources: 'Semua fitur',
+    period: 'Periode',
+    periods: {
+      all: 'Kapan saja',
+      week: '7 hari terakhir',
+      month: '30 hari terakhir',
+      year: 'Setahun terakhir',
+    },
+    indexing: 'Mengindeks...',
+    loadFailed: 'Riwayat tidak dapat dimuat untuk pencarian.',
+    resultCount: '{count} hasil',
+    noResults: 'Tidak ada yang cocok.',
+    generation: 'Hasil AI',
+    roles: {
+      user: 'Anda',
+      model: 'AI',
+    },
+    copy: 'Salin',
+    openFeature: 'Buka {feature}',
+  },
+  mock: {
+    replies: {
+      simulated: 'Ini adalah respons simulasi dari penyedia **mock**. Tidak ada permintaan yang dikirim ke server AI.',
+      offline: 'Mode offline aktif. Jawaban ini dibuat secara deterministik berdasarkan isi pesan Anda.',
+      development: 'Respons contoh untuk pengembangan lokal. Atur `AI_PROVIDER=gemini` untuk memakai model sungguhan.',
+    },
+    emptyMessage: '(pesan kosong)',
+    transcript: 'Ini adalah transkrip simulasi ({size} KB audio diterima).',
+  },
+};
+
+export default id;
+
+export type Messages = typeof id;
@@ -0,0 +1,176 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Access codes and the signed premium tokens they are exchanged for. Codes are stored
+// only as SHA-256 hashes, so the codes file can't be used to recover them.
+
+export interface AccessCodeRecord {
+    id: string;
+    codeHash: string;
+    tier: string;
+    // Free-form label shown by the admin CLI, e.g. who the code was sent to.
+    note?: string;
+    createdAt: string;
+    // ISO date after which the code can no longer be redeemed; null for no expiry.
+    expiresAt: string | null;
+    // Maximum number of redemptions; null for unlimited.
+    maxUses: number | null;
+    uses: number;
+    revokedAt: string | null;
+}
+
+export interface TokenPayload {
+    // Id of the access code the token was issued for, so revoking the code revokes the token.
+    sub: string;
+    tier: string;
+    iat: number;
+    exp: number;
+}
+
+export interface Entitlement {
+    token: string;
+    tier: string;
+    expiresAt: number;
+}
+
+// Stable identifiers for the app, which shows each one in the user's language; the
+// message is for logs.
+export type AccessErrorCode =
+    | 'invalid-request'
+    | 'request-too-large'
+    | 'rate-limited'
+    | 'code-required'
+    | 'token-required'
+    | 'invalid-code'
+    | 'code-expired'
+    | 'code-used-up'
+    | 'invalid-token'
+    | 'session-expired'
+    | 'access-revoked';
+
+export class AccessError extends Error {
+    constructor(readonly code: AccessErrorCode, readonly status: number, message: string) {
+        super(message);
+        this.name = 'AccessError';
+    }
+}
+
+const DATA_FILE = process.env.ACCESS_CODES_FILE || path.resolve(process.cwd(), 'server/data/access-codes.json');
+const TOKEN_TTL_MS = Number(process.env.ACCESS_TOKEN_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+
+// 32 symbols without look-alikes (0/O, 1/I), so a byte maps onto it without bias.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 10;
+
+let secret: string | undefined;
+const getSecret = () => {
+    if (!secret) {
+        secret = process.env.ACCESS_TOKEN_SECRET;
+        if (!secret) {
+            secret = randomBytes(32).toString('hex');
+            console.warn('ACCESS_TOKEN_SECRET is not set; using a random secret. Issued tokens stop working when the server restarts.');
+        }
+    }
+    return secret;
+};
+
+export const hashCode = (code: string) => createHash('sha256').update(code.trim().toUpperCase()).digest('hex');
+
+export const generateCode = () => Array.from(randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+
+export const loadCodes = async (): Promise<AccessCodeRecord[]> => {
+    try {
+        return JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+};
+
+// Writes via a temp file so a crash mid-write can't leave a truncated codes file.
+export const saveCodes = async (codes: AccessCodeRecord[]) => {
+    await mkdir(path.dirname(DATA_FILE), { recursive: true });
+    const tempFile = `${DATA_FILE}.tmp`;
+    await writeFile(tempFile, `${JSON.stringify(codes, null, 2)}\n`);
+    await rename(tempFile, DATA_FILE);
+};
+
+// Runs read-modify-write updates of the codes file one at a time, so two redemptions
+// arriving together can't both pass a usage limit or overwrite each other's count.
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+const serialized = <T,>(update: () => Promise<T>): Promise<T> => {
+    const result = pendingUpdate.then(update);
+    pendingUpdate = result.catch(() => undefined);
+    return result;
+};
+
+export const createCode = (options: { tier: string; expiresAt?: string | null; maxUses?: number | null; note?: string }) => serialized(async () => {
+    const code = generateCode();
+    const record: AccessCodeRecord = {
+        id: randomUUID(),
+        codeHash: hashCode(code),
+        tier: options.tier,
+        note: options.note,
+        createdAt: new Date().toISOString(),
+        expiresAt: options.expiresAt ?? null,
+        maxUses: options.maxUses ?? null,
+        uses: 0,
+        revokedAt: null,
+    };
+    await saveCodes([...(await loadCodes()), record]);
+    return { code, record };
+});
+
+// Accepts a full id or an unambiguous prefix of one, as printed by the admin CLI.
+export const revokeCode = (id: string) => serialized(async () => {
+    const codes = await loadCodes();
+    const matches = codes.filter(c => c.id.startsWith(id));
+    if (matches.length !== 1) return null;
+    const [record] = matches;
+    record.revokedAt = record.revokedAt || new Date().toISOString();
+    await saveCodes(codes);
+    return record;
+});
+
+const isExpired = (record: AccessCodeRecord, now: number) =>
+    record.expiresAt !== null && Date.parse(record.expiresAt) <= now;
+
+const sign = (data: string) => createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+export const issueToken = (record: AccessCodeRecord, now = Date.now()): Entitlement => {
+    // A token never outlives the code it was issued for.
+    const codeExpiry = record.expiresAt ? Date.parse(record.expiresAt) : Infinity;
+    const payload: TokenPayload = { sub: record.id, tier: record.tier, iat: now, exp: Math.min(now + TOKEN_TTL_MS, codeExpiry) };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return { token: `${body}.${sign(body)}`, tier: payload.tier, expiresAt: payload.exp };
+};
+
+// Exchanges a code for a token, counting it against the code's usage limit.
+export const redeemCode = (code: string, now = Date.now()): Promise<Entitlement> => serialized(async () => {
+    const codes = await loadCodes();
+    const hash = hashCode(code);
+    const record = codes.find(c => c.codeHash === hash);
+    if (!record || record.revokedAt) throw new AccessError('invalid-code', 401, 'Unknown or revoked access code.');
+    if (isExpired(record, now)) throw new AccessError('code-expired', 401, 'The access code has expired.');
+    if (record.maxUses !== null && record.uses >= record.maxUses) throw new AccessError('code-used-up', 401, 'The access code has no uses left.');
+    record.uses += 1;
+    await saveCodes(codes);
+    return issueToken(record, now);
+});
+
+// Checks the signature and expiry of a token, and that its code hasn't been revoked since.
+export const verifyToken = async (token: string, now = Date.now()): Promise<TokenPayload> => {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) throw new AccessError('invalid-token', 401, 'Malformed token.');
+    const expected = Buffer.from(sign(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new AccessError('invalid-token', 401, 'Bad token signature.');
+    }
+    const payload: TokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (payload.exp <= now) throw new AccessError('session-expired', 401, 'The token has expired.');
+    const record = (await loadCodes()).find(c => c.id === payload.sub);
+    if (!record || record.revokedAt) throw new AccessError('access-revoked', 401, 'The code behind the token was revoked.');
+    return payload;
+};
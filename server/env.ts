@@ -0,0 +1,5 @@
+import { existsSync } from 'node:fs';
+
+// Loads the same .env.local the Vite dev server reads, so one file configures both.
+// Imported first by the server entry points, before anything reads process.env.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
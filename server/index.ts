@@ -0,0 +1,145 @@
+import './env';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AccessError, redeemCode, verifyToken } from './accessCodes';
+
+const PORT = Number(process.env.ACCESS_SERVER_PORT || 8787);
+// Only needed when the app is served from another origin; the Vite dev server proxies /api.
+const ALLOWED_ORIGIN = process.env.ACCESS_ALLOWED_ORIGIN || '';
+const MAX_BODY_BYTES = 10 * 1024;
+
+// Failed redemptions allowed per client address within the window, to stop code guessing.
+const MAX_FAILED_ATTEMPTS = 10;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const failedAttempts = new Map<string, { count: number; resetAt: number }>();
+// Requests from these addresses come through a proxy on this machine (the Vite dev server),
+// which appends the address it was called from to X-Forwarded-For.
+const LOCAL_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// The address failed attempts are counted against. Only the last X-Forwarded-For entry,
+// the one the local proxy added, is trusted; anything before it came from the client.
+const clientAddress = (req: IncomingMessage) => {
+    const address = req.socket.remoteAddress || 'unknown';
+    const forwarded = req.headers['x-forwarded-for'];
+    if (!LOCAL_ADDRESSES.has(address) || typeof forwarded !== 'string') return address;
+    return forwarded.split(',').pop()!.trim() || address;
+};
+
+const isRateLimited = (client: string) => {
+    const entry = failedAttempts.get(client);
+    if (entry && entry.resetAt <= Date.now()) failedAttempts.delete(client);
+    return !!entry && entry.resetAt > Date.now() && entry.count >= MAX_FAILED_ATTEMPTS;
+};
+
+const recordFailure = (client: string) => {
+    const now = Date.now();
+    // Windows that have passed are dropped, so the map only holds clients that failed recently.
+    failedAttempts.forEach((expired, key) => {
+        if (expired.resetAt <= now) failedAttempts.delete(key);
+    });
+    const entry = failedAttempts.get(client);
+    if (!entry) {
+        failedAttempts.set(client, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+    } else {
+        entry.count += 1;
+    }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new AccessError('request-too-large', 413, 'Request body too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch {
+            reject(new AccessError('invalid-request', 400, 'Request body is not JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// The request's JSON object; anything else (an array, a string, `null`) is a bad request.
+const readJsonObject = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    const body = await readJsonBody(req);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new AccessError('invalid-request', 400, 'Request body must be a JSON object.');
+    }
+    return body as Record<string, unknown>;
+};
+
+const handleRedeem = async (req: IncomingMessage, res: ServerResponse) => {
+    const client = clientAddress(req);
+    if (isRateLimited(client)) {
+        throw new AccessError('rate-limited', 429, 'Too many failed attempts.');
+    }
+    const { code } = await readJsonObject(req);
+    if (typeof code !== 'string' || !code.trim()) {
+        throw new AccessError('code-required', 400, 'Missing access code.');
+    }
+    try {
+        sendJson(res, 200, await redeemCode(code));
+    } catch (error) {
+        if (error instanceof AccessError && error.status === 401) recordFailure(client);
+        throw error;
+    }
+};
+
+const handleVerify = async (req: IncomingMessage, res: ServerResponse) => {
+    const { token } = await readJsonObject(req);
+    if (typeof token !== 'string') {
+        throw new AccessError('token-required', 400, 'Missing token.');
+    }
+    const payload = await verifyToken(token);
+    sendJson(res, 200, { valid: true, tier: payload.tier, expiresAt: payload.exp });
+};
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+    'POST /api/access/redeem': handleRedeem,
+    'POST /api/access/verify': handleVerify,
+};
+
+const server = createServer(async (req, res) => {
+    if (ALLOWED_ORIGIN) {
+        res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    const route = routes[`${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`];
+    if (!route) {
+        sendJson(res, 404, { code: 'not-found', error: 'Not found.' });
+        return;
+    }
+    try {
+        await route(req, res);
+    } catch (error) {
+        if (error instanceof AccessError) {
+            sendJson(res, error.status, { code: error.code, error: error.message });
+        } else {
+            console.error('Access server error:', error);
+            sendJson(res, 500, { code: 'server-error', error: 'Internal server error.' });
+        }
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Access code server listening on http://localhost:${PORT}`);
+});
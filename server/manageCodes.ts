@@ -0,0 +1,85 @@
+import './env';
+import { parseArgs } from 'node:util';
+import { createCode, loadCodes, revokeCode } from './accessCodes';
+import type { AccessCodeRecord } from './accessCodes';
+import { TIERS } from '../services/entitlements';
+
+// Tiers a code can unlock; everyone already has the free tier.
+const CODE_TIERS = TIERS.map(t => t.id).filter(id => id !== 'free');
+
+const USAGE = `Usage:
+  npm run access-codes -- add [--tier ${CODE_TIERS.join('|')}] [--expires 2025-12-31] [--max-uses 10] [--note "for Budi"]
+  npm run access-codes -- list
+  npm run access-codes -- revoke <id>`;
+
+const status = (record: AccessCodeRecord) => {
+    if (record.revokedAt) return 'revoked';
+    if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) return 'expired';
+    if (record.maxUses !== null && record.uses >= record.maxUses) return 'used up';
+    return 'active';
+};
+
+const fail = (message: string): never => {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+const add = async (args: string[]) => {
+    const { values } = parseArgs({
+        args,
+        options: {
+            tier: { type: 'string', default: 'pro' },
+            expires: { type: 'string' },
+            'max-uses': { type: 'string' },
+            note: { type: 'string' },
+        },
+    });
+
+    if (!CODE_TIERS.includes(values.tier as typeof CODE_TIERS[number])) fail(`Invalid --tier: ${values.tier}`);
+    let expiresAt: string | null = null;
+    if (values.expires) {
+        const time = Date.parse(values.expires);
+        if (Number.isNaN(time)) fail(`Invalid --expires date: ${values.expires}`);
+        expiresAt = new Date(time).toISOString();
+    }
+    let maxUses: number | null = null;
+    if (values['max-uses']) {
+        maxUses = Number(values['max-uses']);
+        if (!Number.isInteger(maxUses) || maxUses < 1) fail(`Invalid --max-uses: ${values['max-uses']}`);
+    }
+
+    const { code, record } = await createCode({ tier: values.tier, expiresAt, maxUses, note: values.note });
+    console.log(`Created code ${code} (id ${record.id.slice(0, 8)}, tier ${record.tier}).`);
+    console.log('Only a hash is stored, so note the code down now; it cannot be shown again.');
+};
+
+const list = async () => {
+    const codes = await loadCodes();
+    if (codes.length === 0) {
+        console.log('No access codes yet.');
+        return;
+    }
+    console.table(codes.map(record => ({
+        id: record.id.slice(0, 8),
+        tier: record.tier,
+        status: status(record),
+        uses: record.maxUses === null ? `${record.uses}` : `${record.uses}/${record.maxUses}`,
+        expires: record.expiresAt?.slice(0, 10) ?? '-',
+        note: record.note ?? '',
+    })));
+};
+
+const revoke = async (id?: string) => {
+    if (!id) return fail('Missing code id.');
+    const record = await revokeCode(id);
+    if (!record) return fail(`No single code matches id "${id}".`);
+    console.log(`Revoked code ${record.id.slice(0, 8)}. Tokens issued for it stop working on their next check.`);
+};
+
+const [command, ...args] = process.argv.slice(2);
+switch (command) {
+    case 'add': await add(args); break;
+    case 'list': await list(); break;
+    case 'revoke': await revoke(args[0]); break;
+    default: fail(command ? `Unknown command: ${command}` : 'Missing command.');
+}
@@ -0,0 +1,102 @@
+import { translate } from './i18n';
+import type { MessageKey } from './i18n';
+
+// Client for the access code server in server/. Codes are only ever checked there;
+// the app just keeps the signed token it hands back.
+
+export interface PremiumAccess {
+    token: string;
+    tier: string;
+    // Epoch milliseconds after which the token is no longer accepted.
+    expiresAt: number;
+}
+
+// `status` is the HTTP status the server answered with, or 0 when it couldn't be reached.
+export class AccessRequestError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'AccessRequestError';
+    }
+}
+
+// True when the server rejected the code or token itself, as opposed to being unreachable.
+export const isAccessDenied = (error: unknown) =>
+    error instanceof AccessRequestError && error.status === 401;
+
+// The server answers errors with a stable `code` (see server/accessCodes.ts).
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+    'invalid-request': 'accessCode.errors.invalidRequest',
+    'request-too-large': 'accessCode.errors.invalidRequest',
+    'rate-limited': 'accessCode.errors.rateLimited',
+    'code-required': 'accessCode.errors.codeRequired',
+    'token-required': 'accessCode.errors.invalidToken',
+    'invalid-code': 'accessCode.errors.invalidCode',
+    'code-expired': 'accessCode.errors.codeExpired',
+    'code-used-up': 'accessCode.errors.codeUsedUp',
+    'invalid-token': 'accessCode.errors.invalidToken',
+    'session-expired': 'accessCode.errors.sessionExpired',
+    'access-revoked': 'accessCode.errors.accessRevoked',
+};
+
+const postJson = async <T,>(path: string, body: unknown): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    } catch {
+        throw new AccessRequestError(translate('accessCode.serverUnreachable'), 0);
+    }
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        const key = ERROR_MESSAGES[data?.code];
+        throw new AccessRequestError(key ? translate(key) : translate('accessCode.serverStatus', { status: response.status }), response.status);
+    }
+    return data as T;
+};
+
+export const redeemAccessCode = (code: string) =>
+    postJson<PremiumAccess>('/api/access/redeem', { code: code.trim() });
+
+// Resolves with the token's current tier and expiry, or rejects once it has expired or its code was revoked.
+export const verifyAccessToken = async (token: string): Promise<PremiumAccess> => {
+    const { tier, expiresAt } = await postJson<{ tier: string; expiresAt: number }>('/api/access/verify', { token });
+    return { token, tier, expiresAt };
+};
+
+// --- STORED ACCESS ---
+// The token is small and needed before the first render, so it lives in localStorage
+// rather than IndexedDB.
+
+export const ACCESS_STORAGE_KEY = 'yan-official:premium-access';
+
+const isPremiumAccess = (value: unknown): value is PremiumAccess => {
+    if (typeof value !== 'object' || value === null) return false;
+    const access = value as Partial<PremiumAccess>;
+    return typeof access.token === 'string' && typeof access.tier === 'string' && typeof access.expiresAt === 'number';
+};
+
+// The stored access, or null if there is none or it has already expired.
+export const loadStoredAccess = (): PremiumAccess | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(ACCESS_STORAGE_KEY) || 'null');
+        return isPremiumAccess(stored) && stored.expiresAt > Date.now() ? stored : null;
+    } catch {
+        return null;
+    }
+};
+
+export const storeAccess = (access: PremiumAccess | null) => {
+    try {
+        if (access) {
+            localStorage.setItem(ACCESS_STORAGE_KEY, JSON.stringify(access));
+        } else {
+            localStorage.removeItem(ACCESS_STORAGE_KEY);
+        }
+    } catch (error) {
+        // Storage can be unavailable (e.g. private browsing); access then lasts for this visit only.
+        console.warn('Could not persist premium access:', error);
+    }
+};
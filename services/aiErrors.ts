@@ -0,0 +1,147 @@
+// Typed errors for AI calls. Providers throw an AiError where they can tell what went
+// wrong; anything else (SDK errors, fetch failures) is sorted into a kind by
+// `classifyError`, so features can show one consistent, localized message per kind and
+// the service layer knows which failures are worth retrying.
+
+import { translate } from './i18n';
+import type { MessageKey } from './i18n';
+
+export type AiErrorKind =
+    // No API key is configured.
+    | 'missing-key'
+    // The key was rejected or may not use the model.
+    | 'auth'
+    // Too many requests or the API quota is used up for now (HTTP 429).
+    | 'rate-limit'
+    // The active tier's daily limit in the local usage ledger was reached.
+    | 'usage-limit'
+    // The prompt or the answer was blocked by safety filters.
+    | 'safety'
+    // The request never reached the server or the connection dropped.
+    | 'network'
+    // The server failed or is overloaded (HTTP 5xx).
+    | 'server'
+    // A JSON response couldn't be parsed, even after repair and a retry.
+    | 'invalid-json'
+    // The configured provider doesn't offer the capability.
+    | 'unsupported'
+    | 'unknown';
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['rate-limit', 'network', 'server'];
+
+export class AiError extends Error {
+    readonly kind: AiErrorKind;
+    // How long the server asked us to wait before trying again, if it said.
+    readonly retryAfterMs?: number;
+
+    constructor(kind: AiErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AiError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable() {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+export const isAiError = (error: unknown, kind?: AiErrorKind): error is AiError =>
+    error instanceof AiError && (kind === undefined || error.kind === kind);
+
+// True for the error a request rejects with after its signal was aborted.
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError';
+
+const kindForStatus = (status: number, message: string): AiErrorKind => {
+    if (status === 429) return 'rate-limit';
+    if (status === 401 || status === 403) return 'auth';
+    // Gemini answers an invalid key with 400, and a key that can't use a model (e.g. Veo
+    // without billing) with 404 "Requested entity was not found".
+    if (status === 400 && /API_KEY_INVALID|API key not valid/i.test(message)) return 'auth';
+    if (status === 404 && /Requested entity was not found/i.test(message)) return 'auth';
+    if (status >= 500) return 'server';
+    return 'unknown';
+};
+
+// An error for a failed HTTP response, for providers that make their own requests.
+export const errorForStatus = (status: number, message: string) =>
+    new AiError(kindForStatus(status, message), message);
+
+// Gemini puts the suggested wait in the error details, e.g. "retryDelay": "37s".
+const parseRetryDelay = (message: string) => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Turns anything a provider threw into an AiError. Aborts are passed through unchanged
+// so callers can keep ignoring them.
+export const classifyError = (error: unknown): unknown => {
+    if (error instanceof AiError || isAbortError(error)) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+    let kind: AiErrorKind = status !== undefined ? kindForStatus(status, message) : 'unknown';
+    if (kind === 'unknown') {
+        if (/RESOURCE_EXHAUSTED/.test(message)) kind = 'rate-limit';
+        else if (/UNAVAILABLE|overloaded/i.test(message)) kind = 'server';
+        else if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) kind = 'network';
+        else if (typeof navigator !== 'undefined' && navigator.onLine === false) kind = 'network';
+    }
+    return new AiError(kind, message, { cause: error, retryAfterMs: parseRetryDelay(message) });
+};
+
+const MESSAGES: Partial<Record<AiErrorKind, MessageKey>> = {
+    'missing-key': 'errors.missingKey',
+    'auth': 'errors.auth',
+    'rate-limit': 'errors.rateLimit',
+    'safety': 'errors.safety',
+    'network': 'errors.network',
+    'server': 'errors.server',
+    'invalid-json': 'errors.invalidJson',
+};
+
+// The message to show for a failed AI call. Daily limits and unsupported capabilities
+// keep their own (already specific) message; errors that aren't from an AI call get
+// `fallback`.
+export const getErrorMessage = (error: unknown, fallback = translate('common.genericError')) => {
+    if (!isAiError(error)) return fallback;
+    if (error.kind === 'usage-limit' || error.kind === 'unsupported') return error.message;
+    return MESSAGES[error.kind] ? translate(MESSAGES[error.kind]) : fallback;
+};
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longer waits than this (e.g. a quota that resets in a minute) are reported instead.
+const MAX_RETRY_DELAY_MS = 20_000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `run`, retrying rate limits, network and server errors with exponential backoff
+// (about 1s, then 2s, with jitter, or the delay the server asked for). Whatever is
+// finally thrown has been through `classifyError`.
+export const withRetry = async <T,>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await run();
+        } catch (caught) {
+            const error = classifyError(caught);
+            if (!isAiError(error) || !error.retryable || attempt >= RETRY_ATTEMPTS || signal?.aborted) throw error;
+            const delayMs = error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() / 2);
+            if (delayMs > MAX_RETRY_DELAY_MS) throw error;
+            console.warn(`AI request failed (${error.kind}), retrying in ${Math.round(delayMs)}ms:`, error.message);
+            await sleep(delayMs, signal);
+        }
+    }
+};
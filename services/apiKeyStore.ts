@@ -0,0 +1,127 @@
+import { decode, encode } from '../utils/helpers';
+import { translate } from './i18n';
+
+// The Gemini API key used at runtime. A key the user saves in the settings overrides
+// the one built in from GEMINI_API_KEY (see vite.config.ts). Saved keys live in
+// localStorage, optionally encrypted with a passphrase (AES-GCM with a PBKDF2-derived
+// key); an encrypted key stays locked until the passphrase is entered again, and the
+// decrypted key is only kept in memory.
+
+export const API_KEY_STORAGE_KEY = 'yan-official:api-key';
+
+const BUILD_API_KEY = (typeof process !== 'undefined' && process.env?.API_KEY) || undefined;
+
+const PBKDF2_ITERATIONS = 250_000;
+
+type StoredApiKey =
+    | { encrypted: false; key: string }
+    | { encrypted: true; salt: string; iv: string; data: string };
+
+export interface ApiKeyStatus {
+    // Where the key in use comes from; 'none' when there is no usable key.
+    source: 'user' | 'build' | 'none';
+    // A saved key is encrypted and waiting for its passphrase.
+    locked: boolean;
+    encrypted: boolean;
+    // The last characters of the key in use, to tell keys apart.
+    hint: string | null;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+let userKey: string | null = null;
+let status: ApiKeyStatus;
+
+const maskKey = (key: string) => `…${key.slice(-4)}`;
+
+const readStored = (): StoredApiKey | null => {
+    try {
+        const raw = localStorage.getItem(API_KEY_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+};
+
+// The saved key if it isn't encrypted.
+const plainKey = (stored: StoredApiKey | null) => (stored && 'key' in stored ? stored.key : null);
+
+// Recomputed on every change so `getApiKeyStatus` returns a stable object in between.
+const update = (key: string | null) => {
+    userKey = key;
+    const stored = readStored();
+    const activeKey = userKey || BUILD_API_KEY;
+    status = {
+        source: userKey ? 'user' : BUILD_API_KEY ? 'build' : 'none',
+        locked: !userKey && !!stored?.encrypted,
+        encrypted: !!stored?.encrypted,
+        hint: activeKey ? maskKey(activeKey) : null,
+    };
+    listeners.forEach(listener => listener());
+};
+
+update(plainKey(readStored()));
+
+export const subscribeToApiKey = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getApiKeyStatus = () => status;
+
+// The key for Gemini requests, or undefined when none is configured (or it is locked).
+export const getApiKey = (): string | undefined => userKey || BUILD_API_KEY;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+// Saves a key (validate it first). With a passphrase it is stored encrypted.
+export const saveApiKey = async (key: string, passphrase?: string) => {
+    const trimmed = key.trim();
+    let stored: StoredApiKey = { encrypted: false, key: trimmed };
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(trimmed));
+        stored = { encrypted: true, salt: encode(salt), iv: encode(iv), data: encode(new Uint8Array(data)) };
+    }
+    localStorage.setItem(API_KEY_STORAGE_KEY, JSON.stringify(stored));
+    update(trimmed);
+};
+
+// Decrypts the saved key for this session. Throws when the passphrase is wrong.
+export const unlockApiKey = async (passphrase: string) => {
+    const stored = readStored();
+    if (!stored || !('data' in stored)) return;
+    let data: ArrayBuffer;
+    try {
+        data = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: decode(stored.iv) },
+            await deriveKey(passphrase, decode(stored.salt)),
+            decode(stored.data),
+        );
+    } catch {
+        throw new Error(translate('apiKey.wrongPassphrase'));
+    }
+    update(new TextDecoder().decode(data));
+};
+
+export const removeApiKey = () => {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+    update(null);
+};
+
+// Picks up a key saved or removed in another tab. An encrypted key saved elsewhere
+// stays locked here until its passphrase is entered.
+export const reloadApiKey = () => {
+    update(plainKey(readStored()));
+};
@@ -0,0 +1,573 @@
+import { AiError, createChat, generateText, getErrorMessage, uploadFile } from './geminiService';
+import type { ChatSession, ChatTurn, ContentPart, GenerationSettings } from './geminiService';
+import { getProviderId } from './providers';
+import type { UsageReport } from './providers';
+import { createConversationId, getConversation, listConversations, saveConversation } from './conversationStore';
+import { getActiveQuotas } from './entitlements';
+import { contextWindowFor, getGenerationSettings } from './modelSettings';
+import { translate } from './i18n';
+import { estimateTokens, fileToDataUrl, imageToPreviewDataUrl } from '../utils/helpers';
+import type { ChatAttachment, ChatMessage, Conversation, ConversationSummary } from '../types';
+
+export interface ChatEngineConfig {
+    featureId: string;
+    personaId?: string;
+    systemInstruction: string;
+    welcomeMessage: string;
+    // Shown for a failed reply when the error isn't a recognised AI error.
+    errorMessage?: string;
+    // Accepted attachments, as in an <input accept> (e.g. 'image/*,.md'); attachments are
+    // disabled when unset.
+    acceptAttachments?: string;
+    // Save transcripts to the conversation store and resume the latest one. Defaults to true.
+    persist?: boolean;
+}
+
+export interface ChatEngineState {
+    messages: ChatMessage[];
+    isLoading: boolean;
+    isServiceAvailable: boolean;
+    conversationId: string;
+    // Attachments picked for the next message.
+    attachments: ChatAttachment[];
+    attachmentError: string | null;
+    // Large attachments are being uploaded; sending waits until they are done.
+    isUploading: boolean;
+    // Tokens the next message will be sent with (instruction, summary and history), as
+    // last reported by the provider or else estimated, and how many the model accepts.
+    contextTokens: number;
+    contextWindow: number;
+    summary: ConversationSummary | null;
+    autoSummarize: boolean;
+    isSummarizing: boolean;
+    summaryError: string | null;
+}
+
+export interface ChatController {
+    getState(): ChatEngineState;
+    subscribe(listener: () => void): () => void;
+    send(text: string): Promise<void>;
+    cancel(): void;
+    retry(): Promise<void>;
+    // Asks for a new answer to the last turn; earlier answers are kept as versions.
+    regenerate(): Promise<void>;
+    // Replaces the user message at `index` and regenerates from there; the old branch is kept as a version.
+    editMessage(index: number, text: string): Promise<void>;
+    selectVersion(index: number, versionIndex: number): void;
+    addAttachments(files: File[]): Promise<void>;
+    removeAttachment(index: number): void;
+    // Compresses older turns (all but the last few) into the running summary.
+    summarize(): Promise<void>;
+    // Replaces the summary text; an empty text removes the summary.
+    updateSummary(text: string): void;
+    // Sends the full transcript as context again.
+    clearSummary(): void;
+    setAutoSummarize(enabled: boolean): void;
+    newConversation(): void;
+    // Starts a new conversation without saving the open one again, e.g. because it is
+    // being deleted; a reply still streaming into it is dropped.
+    discardConversation(): void;
+    openConversation(conversation: Conversation): void;
+    // Opens the saved conversation with this id (e.g. from a link) if it belongs to this
+    // feature and persona, otherwise the most recent one.
+    resume(conversationId?: string): Promise<void>;
+}
+
+// Source files often have no MIME type or a misleading one (.ts is 'video/mp2t'), so
+// they are recognised by extension. Add TEXT_ATTACHMENTS to `acceptAttachments` to allow them.
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'xml', 'yaml', 'yml', 'toml', 'html', 'css', 'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'kt', 'go', 'rs', 'c', 'h', 'cpp', 'cs', 'php', 'rb', 'swift', 'sh', 'sql'];
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/x-sh', 'application/sql', 'application/x-yaml'];
+
+export const TEXT_ATTACHMENTS = ['text/*', ...TEXT_MIME_TYPES, ...TEXT_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+// Files above this size are uploaded (see uploadFile) instead of sent inline: the chat
+// resends every earlier attachment with each message, and Gemini caps a request at 20MB.
+const INLINE_ATTACHMENT_MB = 4;
+
+const extensionOf = (name: string) => (name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+
+const matchesAccept = (file: File, accept: string) =>
+    accept.split(',').map(p => p.trim()).some(p => p.startsWith('.')
+        ? extensionOf(file.name) === p.slice(1).toLowerCase()
+        : p === file.type || (p.endsWith('/*') && file.type.startsWith(p.slice(0, -1))));
+
+// Text and code files are all sent as plain text, which every model reads.
+const attachmentMimeType = (file: File) =>
+    file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type) || TEXT_EXTENSIONS.includes(extensionOf(file.name))
+        ? 'text/plain'
+        : file.type;
+
+const readAttachment = async (file: File, signal: AbortSignal): Promise<ChatAttachment> => {
+    const mimeType = attachmentMimeType(file);
+    const attachment: ChatAttachment = { name: file.name, mimeType, size: file.size };
+    if (file.size <= INLINE_ATTACHMENT_MB * 1024 * 1024) return { ...attachment, dataUrl: await fileToDataUrl(file) };
+    // The transcript only references an uploaded file, so saves and exports don't carry
+    // a copy of it; images keep a small preview to show.
+    const preview = mimeType.startsWith('image/') ? await imageToPreviewDataUrl(file) : null;
+    const { uri, expiresAt } = await uploadFile(file, mimeType, signal);
+    return { ...attachment, ...(preview && { dataUrl: preview }), upload: { uri, expiresAt } };
+};
+
+const attachmentToPart = (attachment: ChatAttachment): ContentPart | null => {
+    if (attachment.upload) {
+        // The provider has deleted an expired upload; the rest of the turn is still sent.
+        return attachment.upload.expiresAt > Date.now() ? { fileData: { mimeType: attachment.mimeType, fileUri: attachment.upload.uri } } : null;
+    }
+    const match = /^data:[^,]*;base64,(.*)$/.exec(attachment.dataUrl || '');
+    return match ? { inlineData: { mimeType: attachment.mimeType, data: match[1] } } : null;
+};
+
+export const messageToParts = (message: ChatMessage): ContentPart[] => {
+    const parts: ContentPart[] = [];
+    for (const attachment of message.attachments || []) {
+        const part = attachmentToPart(attachment);
+        if (part) parts.push(part);
+    }
+    if (message.text) parts.push({ text: message.text });
+    return parts;
+};
+
+// Turns a transcript into provider chat history so a session can be rebuilt with its
+// context. Welcome messages before the first user turn and failed turns are skipped.
+export const toChatHistory = (messages: ChatMessage[]): ChatTurn[] => {
+    const firstUserIndex = messages.findIndex(m => m.role === 'user');
+    if (firstUserIndex === -1) return [];
+    const turns: ChatTurn[] = [];
+    for (const message of messages.slice(firstUserIndex)) {
+        if (message.role === 'model' && (message.isError || !message.text)) {
+            // Drop the user turn that produced the failed reply as well, keeping roles alternating.
+            if (turns[turns.length - 1]?.role === 'user') turns.pop();
+            continue;
+        }
+        const parts = messageToParts(message);
+        if (parts.length > 0) turns.push({ role: message.role, parts });
+    }
+    // History must end with a model turn; a trailing unanswered user turn is dropped.
+    if (turns[turns.length - 1]?.role === 'user') turns.pop();
+    return turns;
+};
+
+// The context warning shows from this share of the model's context window on.
+export const CONTEXT_WARNING_RATIO = 0.8;
+// With automatic summarization on, older turns are summarized once the context passes
+// this many tokens: long before the window is full, every reply gets slower and costlier.
+const AUTO_SUMMARY_TOKENS = 32_000;
+// The latest messages are always sent as they are, never summarized.
+const KEEP_RECENT_MESSAGES = 6;
+// What Gemini counts for an image; used as a rough figure for every attachment.
+const ATTACHMENT_TOKENS = 258;
+
+const SUMMARY_INSTRUCTION = 'You condense chat transcripts. Summarize the conversation you are given so that an assistant could continue it without the original. Keep every fact, decision, name, number, code identifier, preference and open question; drop greetings and repetition. Write compact notes in the third person ("The user...", "The assistant...") with no preamble.';
+
+// The summary replaces the turns it covers, so the model still knows what was said in them.
+const withSummary = (instruction: string, summary: ConversationSummary | null) =>
+    summary ? `${instruction}\n\nThe earlier part of this conversation is not included below. This is a summary of it:\n${summary.text}` : instruction;
+
+const estimateContextTokens = (instruction: string, history: ChatTurn[]) =>
+    estimateTokens(instruction) + history.reduce((sum, turn) =>
+        sum + turn.parts.reduce((turnSum, part) => turnSum + ('text' in part ? estimateTokens(part.text) : ATTACHMENT_TOKENS), 0), 0);
+
+const transcriptForSummary = (messages: ChatMessage[]) => messages
+    .filter(m => !m.isError && (m.text.trim() || m.attachments?.length))
+    .map(m => {
+        const attachments = (m.attachments || []).map(a => `[attached file: ${a.name}]`);
+        return `${m.role === 'user' ? 'User' : 'Assistant'}: ${[...attachments, m.text].join(' ')}`;
+    })
+    .join('\n\n');
+
+const withoutVersions = ({ versions, versionIndex, ...message }: ChatMessage): ChatMessage => message;
+
+// The transcript from `index` onward, as stored in a message's `versions`.
+const snapshotFrom = (messages: ChatMessage[], index: number): ChatMessage[] =>
+    [withoutVersions(messages[index]), ...messages.slice(index + 1)];
+
+// Starts a new version at `index` whose first message is `head`. The current transcript
+// from that point is saved as the version being left; everything after it is dropped.
+const branchAt = (messages: ChatMessage[], index: number, head: ChatMessage): ChatMessage[] => {
+    const current = messages[index];
+    const versions = [...(current.versions || [])];
+    versions[current.versionIndex ?? 0] = snapshotFrom(messages, index);
+    versions.push([head]);
+    return [...messages.slice(0, index), { ...head, versions, versionIndex: versions.length - 1 }];
+};
+
+// Headless chat engine: owns the transcript, the provider chat session, streaming,
+// cancellation, retry, pending attachments and persistence. UI subscribes to state
+// changes (see hooks/useChatEngine) and calls the actions.
+export const createChatController = (config: ChatEngineConfig): ChatController => {
+    const persist = config.persist !== false;
+    const listeners = new Set<() => void>();
+    let session: ChatSession | null = null;
+    let sessionSettings: GenerationSettings | null = null;
+    let activeRequest: AbortController | null = null;
+    const uploads = new Set<AbortController>();
+    // Identifies the latest summary request, so one for a conversation that was left is ignored.
+    let summaryRequest = 0;
+    let state: ChatEngineState = {
+        messages: [],
+        isLoading: false,
+        isServiceAvailable: true,
+        conversationId: createConversationId(),
+        attachments: [],
+        attachmentError: null,
+        isUploading: false,
+        contextTokens: 0,
+        contextWindow: contextWindowFor(),
+        summary: null,
+        autoSummarize: false,
+        isSummarizing: false,
+        summaryError: null,
+    };
+
+    const setState = (patch: Partial<ChatEngineState>) => {
+        state = { ...state, ...patch };
+        listeners.forEach(listener => listener());
+    };
+
+    const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) => {
+        const messages = [...state.messages];
+        messages[messages.length - 1] = update(messages[messages.length - 1]);
+        setState({ messages });
+    };
+
+    const unavailableText = () => getErrorMessage(new AiError('missing-key', 'No chat session could be created.'));
+
+    // (Re)creates the provider session with the given transcript as context, using the
+    // feature's current model settings. Turns covered by `summary` are sent as the summary.
+    // When no session can be created the chat becomes unavailable, with a notice at the
+    // end of an ongoing conversation.
+    const startSession = (transcript: ChatMessage[], summary = state.summary) => {
+        sessionSettings = getGenerationSettings(config.featureId, 'text');
+        const instruction = withSummary(config.systemInstruction, summary);
+        const history = toChatHistory(summary ? transcript.slice(summary.upTo) : transcript);
+        session = createChat(instruction, { settings: sessionSettings, history });
+        if (!session && state.isServiceAvailable && state.messages.some(m => m.role === 'user')) {
+            setState({ messages: [...state.messages, { role: 'model', text: unavailableText(), isError: true }] });
+        }
+        setState({
+            isServiceAvailable: Boolean(session),
+            contextTokens: estimateContextTokens(instruction, history),
+            // Other providers ignore the Gemini model named in the settings.
+            contextWindow: contextWindowFor(getProviderId(config.featureId) === 'gemini' ? sessionSettings.model : undefined),
+        });
+        return session;
+    };
+
+    // Replies and summaries both change what the session holds, so only one runs at a time.
+    const isBusy = () => state.isLoading || state.isSummarizing;
+
+    // A summary describes the transcript before `upTo`; editing or switching versions in
+    // that part leaves it describing turns that are no longer there.
+    const invalidateSummaryFrom = (index: number) => {
+        if (state.summary && index < state.summary.upTo) setState({ summary: null });
+    };
+
+    const reset = (previous?: Conversation, discard = false) => {
+        abortReply(!discard);
+        // Attachments still uploading were meant for the conversation being left.
+        uploads.forEach(upload => upload.abort());
+        summaryRequest += 1;
+        const summary = previous?.summary ?? null;
+        const context = { summary, autoSummarize: previous?.autoSummarize ?? false, isSummarizing: false, summaryError: null };
+        if (startSession(previous?.messages || [], summary)) {
+            setState({
+                messages: previous ? previous.messages : [{ role: 'model', text: config.welcomeMessage }],
+                isServiceAvailable: true,
+                conversationId: previous ? previous.id : createConversationId(),
+                attachments: [],
+                attachmentError: null,
+                ...context,
+            });
+        } else {
+            setState({
+                messages: [{ role: 'model', text: unavailableText() }],
+                isServiceAvailable: false,
+                attachments: [],
+                ...context,
+            });
+        }
+    };
+
+    const save = () => {
+        if (!persist || !state.messages.some(m => m.role === 'user')) return;
+        saveConversation({
+            id: state.conversationId,
+            featureId: config.featureId,
+            personaId: config.personaId,
+            messages: state.messages,
+            summary: state.summary ?? undefined,
+            autoSummarize: state.autoSummarize,
+        }).catch(error => console.error('Failed to save conversation:', error));
+    };
+
+    // Streams the reply to `message` into the last (empty) model message.
+    const streamReply = async (message: ContentPart[]) => {
+        if (!session) return;
+        const request = new AbortController();
+        activeRequest = request;
+        let failed = false;
+        let usage: UsageReport | undefined;
+        setState({ isLoading: true });
+        try {
+            const responseStream = await session.sendMessageStream({ message, signal: request.signal }, report => { usage = report; });
+            for await (const chunk of responseStream) {
+                if (request.signal.aborted) break;
+                updateLastMessage(m => ({ ...m, text: m.text + chunk.text }));
+            }
+            if (usage?.promptTokens !== undefined && !request.signal.aborted) {
+                const { promptTokens, responseTokens = 0, estimated } = usage;
+                updateLastMessage(m => ({ ...m, usage: { promptTokens, responseTokens, ...(estimated ? { estimated } : {}) } }));
+            }
+        } catch (error) {
+            if (!request.signal.aborted) {
+                failed = true;
+                console.error('Error sending message:', error);
+                const errorMessage = getErrorMessage(error, config.errorMessage || translate('chat.replyError'));
+                updateLastMessage(m => ({ ...m, text: errorMessage, isError: true }));
+            }
+        } finally {
+            if (activeRequest === request) {
+                activeRequest = null;
+                setState({ isLoading: false });
+                // The session's own history is unreliable after a failed stream, so
+                // rebuild it from the transcript the user actually sees.
+                if (failed) {
+                    startSession(state.messages);
+                } else {
+                    const reply = state.messages[state.messages.length - 1].usage;
+                    setState({ contextTokens: reply ? reply.promptTokens + reply.responseTokens : measureContext() });
+                }
+                save();
+                if (!failed) summarizeIfLarge();
+            }
+        }
+    };
+
+    const measureContext = () => {
+        const { messages, summary } = state;
+        return estimateContextTokens(withSummary(config.systemInstruction, summary), toChatHistory(summary ? messages.slice(summary.upTo) : messages));
+    };
+
+    const send = async (text: string) => {
+        const attachments = state.attachments;
+        if ((!text.trim() && attachments.length === 0) || !session || isBusy() || state.isUploading) return;
+        // Model settings changed since the session started apply from this message on.
+        if (JSON.stringify(getGenerationSettings(config.featureId, 'text')) !== JSON.stringify(sessionSettings)) {
+            if (!startSession(state.messages)) return;
+        }
+        const userMessage: ChatMessage = { role: 'user', text, ...(attachments.length > 0 ? { attachments } : {}) };
+        setState({
+            messages: [...state.messages, userMessage, { role: 'model', text: '' }],
+            attachments: [],
+            attachmentError: null,
+        });
+        await streamReply(messageToParts(userMessage));
+    };
+
+    // Aborts the in-flight reply. Whatever has streamed so far is marked as truncated and,
+    // with `keep`, saved.
+    const abortReply = (keep: boolean) => {
+        if (!activeRequest) return;
+        activeRequest.abort();
+        activeRequest = null;
+        updateLastMessage(m => ({ ...m, truncated: true }));
+        setState({ isLoading: false });
+        startSession(state.messages);
+        if (keep) save();
+    };
+
+    const cancel = () => abortReply(true);
+
+    // Re-asks the last user turn, replacing the reply that followed it.
+    const retry = async () => {
+        if (isBusy()) return;
+        const lastUserIndex = state.messages.map(m => m.role).lastIndexOf('user');
+        if (lastUserIndex === -1) return;
+        const userMessage = state.messages[lastUserIndex];
+        invalidateSummaryFrom(lastUserIndex);
+        if (!startSession(state.messages.slice(0, lastUserIndex))) return;
+        // Reuse the failed reply's slot so any versions it carries survive.
+        const previousReply = state.messages[lastUserIndex + 1];
+        const reply: ChatMessage = previousReply
+            ? { ...previousReply, text: '', isError: undefined, truncated: undefined }
+            : { role: 'model', text: '' };
+        setState({ messages: [...state.messages.slice(0, lastUserIndex + 1), reply] });
+        await streamReply(messageToParts(userMessage));
+    };
+
+    const regenerate = async () => {
+        const index = state.messages.length - 1;
+        const prompt = state.messages[index - 1];
+        if (isBusy() || state.messages[index]?.role !== 'model' || prompt?.role !== 'user') return;
+        invalidateSummaryFrom(index - 1);
+        if (!startSession(state.messages.slice(0, index - 1))) return;
+        setState({ messages: branchAt(state.messages, index, { role: 'model', text: '' }) });
+        await streamReply(messageToParts(prompt));
+    };
+
+    const editMessage = async (index: number, text: string) => {
+        const original = state.messages[index];
+        if (isBusy() || original?.role !== 'user' || (!text.trim() && !original.attachments?.length)) return;
+        invalidateSummaryFrom(index);
+        if (!startSession(state.messages.slice(0, index))) return;
+        const edited: ChatMessage = { role: 'user', text, ...(original.attachments ? { attachments: original.attachments } : {}) };
+        setState({ messages: [...branchAt(state.messages, index, edited), { role: 'model', text: '' }] });
+        await streamReply(messageToParts(edited));
+    };
+
+    // Swaps the transcript from `index` onward for another stored version of it.
+    const selectVersion = (index: number, versionIndex: number) => {
+        const current = state.messages[index];
+        if (isBusy() || !current?.versions?.[versionIndex] || versionIndex === current.versionIndex) return;
+        const versions = [...current.versions];
+        versions[current.versionIndex ?? 0] = snapshotFrom(state.messages, index);
+        const [head, ...rest] = versions[versionIndex];
+        const messages = [...state.messages.slice(0, index), { ...head, versions, versionIndex }, ...rest];
+        invalidateSummaryFrom(index);
+        setState({ messages });
+        // The model must only see the branch that is now on screen.
+        startSession(messages);
+        save();
+    };
+
+    const addAttachments = async (files: File[]) => {
+        const accept = config.acceptAttachments;
+        if (!accept) return;
+        const { maxAttachmentMB } = getActiveQuotas();
+        for (const file of files) {
+            if (!matchesAccept(file, accept)) {
+                setState({ attachmentError: translate('chat.unsupportedFile', { type: file.type || file.name }) });
+                return;
+            }
+            if (file.size > maxAttachmentMB * 1024 * 1024) {
+                setState({ attachmentError: translate('chat.fileTooLarge', { size: maxAttachmentMB }) });
+                return;
+            }
+        }
+        const request = new AbortController();
+        uploads.add(request);
+        setState({ isUploading: true, attachmentError: null });
+        try {
+            const added = await Promise.all(files.map(file => readAttachment(file, request.signal)));
+            if (!request.signal.aborted) setState({ attachments: [...state.attachments, ...added] });
+        } catch (error) {
+            if (!request.signal.aborted) {
+                console.error('Failed to attach files:', error);
+                setState({ attachmentError: getErrorMessage(error, translate('chat.attachFailed')) });
+            }
+        } finally {
+            uploads.delete(request);
+            setState({ isUploading: uploads.size > 0 });
+        }
+    };
+
+    const removeAttachment = (index: number) => {
+        setState({ attachments: state.attachments.filter((_, i) => i !== index), attachmentError: null });
+    };
+
+    const summarize = async () => {
+        if (isBusy() || !session) return;
+        const { messages, summary: previous, conversationId } = state;
+        const from = previous?.upTo ?? Math.max(0, messages.findIndex(m => m.role === 'user'));
+        // End before a user turn, so the history sent after the summary starts with one.
+        let upTo = messages.length - KEEP_RECENT_MESSAGES;
+        while (upTo > from && messages[upTo].role !== 'user') upTo--;
+        if (upTo <= from) {
+            setState({ summaryError: translate('chat.context.nothingToSummarize') });
+            return;
+        }
+        const request = ++summaryRequest;
+        setState({ isSummarizing: true, summaryError: null });
+        try {
+            const transcript = transcriptForSummary(messages.slice(from, upTo));
+            const prompt = previous
+                ? `Summary of the conversation so far:\n${previous.text}\n\nWhat was said after that:\n${transcript}`
+                : transcript;
+            const text = (await generateText(prompt, SUMMARY_INSTRUCTION)).trim();
+            if (request !== summaryRequest || !text) return;
+            setState({ summary: { text, upTo, createdAt: Date.now() } });
+            startSession(state.messages);
+            save();
+        } catch (error) {
+            console.error('Failed to summarize the conversation:', error);
+            if (request === summaryRequest) setState({ summaryError: getErrorMessage(error, translate('chat.context.summaryFailed')) });
+        } finally {
+            if (request === summaryRequest) setState({ isSummarizing: false });
+        }
+    };
+
+    const summarizeIfLarge = () => {
+        const threshold = Math.min(AUTO_SUMMARY_TOKENS, state.contextWindow * CONTEXT_WARNING_RATIO);
+        if (state.autoSummarize && state.contextTokens > threshold) summarize();
+    };
+
+    const clearSummary = () => {
+        if (!state.summary || isBusy()) return;
+        setState({ summary: null });
+        startSession(state.messages);
+        save();
+    };
+
+    const updateSummary = (text: string) => {
+        if (!state.summary || isBusy()) return;
+        if (!text.trim()) {
+            clearSummary();
+            return;
+        }
+        setState({ summary: { ...state.summary, text: text.trim(), edited: true } });
+        startSession(state.messages);
+        save();
+    };
+
+    const setAutoSummarize = (autoSummarize: boolean) => {
+        setState({ autoSummarize, summaryError: null });
+        save();
+        summarizeIfLarge();
+    };
+
+    const resume = async (conversationId?: string) => {
+        if (!persist) return;
+        try {
+            if (conversationId) {
+                const linked = await getConversation(conversationId);
+                if (linked && linked.featureId === config.featureId && linked.personaId === config.personaId) {
+                    reset(linked);
+                    return;
+                }
+            }
+            const [latest] = await listConversations({ featureId: config.featureId, personaId: config.personaId });
+            // Don't clobber a conversation the user already started while we were loading.
+            if (latest && !state.messages.some(m => m.role === 'user')) {
+                reset(latest);
+            }
+        } catch (error) {
+            console.error('Failed to load conversation history:', error);
+        }
+    };
+
+    reset();
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        send,
+        cancel,
+        retry,
+        regenerate,
+        editMessage,
+        selectVersion,
+        addAttachments,
+        removeAttachment,
+        summarize,
+        updateSummary,
+        clearSummary,
+        setAutoSummarize,
+        newConversation: () => reset(),
+        discardConversation: () => reset(undefined, true),
+        openConversation: (conversation) => reset(conversation),
+        resume,
+    };
+};
@@ -0,0 +1,196 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { getGenerationSettings } from './modelSettings';
+import { getLocale, translate } from './i18n';
+import type { MessageKey } from './i18n';
+import type { GenerationSettings } from './providers/types';
+import type { ChatAttachment, ChatMessage, Conversation, ConversationSummary } from '../types';
+import { formatFileSize } from '../utils/helpers';
+
+// Conversations leave the app as Markdown or a self-contained HTML page, both for
+// reading, or as JSON, which keeps everything (attachments, alternate versions, the
+// model settings in use) and can be imported again to continue the conversation.
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_FORMAT_ID = 'yan-official.conversation';
+const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+    format: typeof EXPORT_FORMAT_ID;
+    version: number;
+    exportedAt: string;
+    conversation: Conversation;
+    // The feature's model settings when the conversation was exported.
+    settings: GenerationSettings;
+}
+
+export interface ExportedFile {
+    filename: string;
+    mimeType: string;
+    content: string;
+}
+
+// Where a conversation comes from, e.g. "Persona Chat · Historian".
+export const conversationSource = ({ featureId, personaId }: Pick<Conversation, 'featureId' | 'personaId'>) =>
+    [translate(`features.${featureId}.name` as MessageKey), personaId && translate(`personas.${personaId}.name` as MessageKey)]
+        .filter(Boolean)
+        .join(' · ');
+
+const fileBaseName = (title: string) =>
+    title.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').toLowerCase().slice(0, 60) || 'conversation';
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(getLocale(), { dateStyle: 'long', timeStyle: 'short' });
+
+// Failed replies were never part of the model's context, so they are left out of the
+// readable formats; so are other versions than the one on screen.
+const readableMessages = (messages: ChatMessage[]) => messages.filter(m => !m.isError && (m.text.trim() || m.attachments?.length));
+
+const speaker = (message: ChatMessage) => translate(message.role === 'user' ? 'conversationExport.you' : 'conversationExport.ai');
+
+const attachmentLabel = ({ name, size }: ChatAttachment) => (size ? `${name} (${formatFileSize(size)})` : name);
+
+const toMarkdown = (conversation: Conversation) => {
+    const lines = [`# ${conversation.title}`, '', `${conversationSource(conversation)} · ${formatDate(conversation.createdAt)}`];
+    for (const message of readableMessages(conversation.messages)) {
+        lines.push('', '---', '', `**${speaker(message)}**`, '');
+        if (message.text.trim()) lines.push(message.text.trim(), '');
+        for (const attachment of message.attachments || []) lines.push(`📎 ${attachmentLabel(attachment)}`, '');
+        if (message.truncated) lines.push(`_${translate('chat.truncated')}_`, '');
+    }
+    return lines.join('\n').trimEnd() + '\n';
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+body { margin: 0; background: #18181b; color: #e4e4e7; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+h1 { margin: 0; color: #fff; font-size: 24px; }
+.meta { margin: 4px 0 24px; color: #a1a1aa; font-size: 13px; }
+.message { margin: 12px 0; padding: 12px 16px; border-radius: 16px; background: #3f3f46; overflow-wrap: anywhere; }
+.message.user { margin-left: 15%; background: #7c3aed; color: #fff; }
+.message.model { margin-right: 15%; }
+.speaker { margin-bottom: 4px; font-size: 12px; font-weight: 600; opacity: .7; }
+.message p { margin: 8px 0; white-space: pre-wrap; }
+.message pre { padding: 12px; border-radius: 8px; background: #09090b; overflow-x: auto; }
+.message code { font-family: ui-monospace, monospace; font-size: .9em; }
+.message a { color: inherit; }
+.message table { border-collapse: collapse; }
+.message th, .message td { padding: 4px 8px; border: 1px solid #52525b; }
+.attachment { display: block; margin: 8px 0; max-width: 100%; }
+img.attachment { max-height: 320px; border-radius: 8px; }
+.note { font-size: 12px; font-style: italic; opacity: .7; }
+`;
+
+const attachmentToHtml = (attachment: ChatAttachment) => {
+    const name = escapeHtml(attachment.name);
+    if (!attachment.dataUrl) return `<p class="attachment">📎 ${escapeHtml(attachmentLabel(attachment))}</p>`;
+    const src = escapeHtml(attachment.dataUrl);
+    if (attachment.mimeType.startsWith('image/')) return `<img class="attachment" src="${src}" alt="${name}">`;
+    const link = `<a class="attachment" href="${src}" download="${name}">📎 ${escapeHtml(attachmentLabel(attachment))}</a>`;
+    return attachment.mimeType.startsWith('audio/') ? `${link}<audio class="attachment" controls src="${src}"></audio>` : link;
+};
+
+// Markdown is rendered the way the chat shows it, with the same guarantees: raw HTML in
+// the text is escaped and unsafe URLs are dropped. react-dom/server is only loaded here.
+const toHtml = async (conversation: Conversation) => {
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const messages = readableMessages(conversation.messages).map(message => [
+        `<section class="message ${message.role}">`,
+        `<div class="speaker">${escapeHtml(speaker(message))}</div>`,
+        ...(message.attachments || []).map(attachmentToHtml),
+        renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, message.text)),
+        message.truncated ? `<p class="note">${escapeHtml(translate('chat.truncated'))}</p>` : '',
+        '</section>',
+    ].join('\n'));
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${getLocale()}">`,
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(conversation.title)}</title>`,
+        `<style>${HTML_STYLES}</style>`,
+        '</head>',
+        '<body>',
+        '<main>',
+        `<h1>${escapeHtml(conversation.title)}</h1>`,
+        `<p class="meta">${escapeHtml(`${conversationSource(conversation)} · ${formatDate(conversation.createdAt)}`)}</p>`,
+        ...messages,
+        '</main>',
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+};
+
+export const exportConversation = async (conversation: Conversation, format: ExportFormat): Promise<ExportedFile> => {
+    const baseName = fileBaseName(conversation.title);
+    switch (format) {
+        case 'markdown':
+            return { filename: `${baseName}.md`, mimeType: 'text/markdown', content: toMarkdown(conversation) };
+        case 'html':
+            return { filename: `${baseName}.html`, mimeType: 'text/html', content: await toHtml(conversation) };
+        case 'json': {
+            const data: ConversationExport = {
+                format: EXPORT_FORMAT_ID,
+                version: EXPORT_VERSION,
+                exportedAt: new Date().toISOString(),
+                conversation,
+                settings: getGenerationSettings(conversation.featureId, 'text'),
+            };
+            return { filename: `${baseName}.json`, mimeType: 'application/json', content: JSON.stringify(data, null, 2) };
+        }
+    }
+};
+
+// Attachment data must be a data URL: it ends up in `src` and `href` attributes.
+const isAttachment = (value: unknown): value is ChatAttachment => {
+    const attachment = value as ChatAttachment;
+    return typeof attachment?.name === 'string' && typeof attachment.mimeType === 'string'
+        && (attachment.dataUrl === undefined || (typeof attachment.dataUrl === 'string' && attachment.dataUrl.startsWith('data:')));
+};
+
+const isSummary = (value: unknown): value is ConversationSummary => {
+    const summary = value as ConversationSummary;
+    return typeof summary?.text === 'string' && Number.isInteger(summary.upTo) && summary.upTo >= 0;
+};
+
+const isMessage = (value: unknown): value is ChatMessage => {
+    const message = value as ChatMessage;
+    return Boolean(message) && (message.role === 'user' || message.role === 'model') && typeof message.text === 'string'
+        && (message.attachments === undefined || (Array.isArray(message.attachments) && message.attachments.every(isAttachment)))
+        && (message.versions === undefined || (Array.isArray(message.versions) && message.versions.every(v => Array.isArray(v) && v.every(isMessage))));
+};
+
+// Reads a JSON export. Throws an error with a message for the user when the file isn't one.
+export const parseConversationExport = (text: string): ConversationExport => {
+    let data: ConversationExport;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error(translate('conversationExport.invalidFile'));
+    }
+    if (data?.format !== EXPORT_FORMAT_ID) throw new Error(translate('conversationExport.invalidFile'));
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) throw new Error(translate('conversationExport.newerVersion'));
+    const { conversation } = data;
+    if (!conversation || typeof conversation.featureId !== 'string' || !Array.isArray(conversation.messages) || !conversation.messages.every(isMessage)) {
+        throw new Error(translate('conversationExport.invalidFile'));
+    }
+    const now = Date.now();
+    return {
+        ...data,
+        conversation: {
+            ...conversation,
+            title: typeof conversation.title === 'string' && conversation.title.trim() ? conversation.title : translate('history.untitled'),
+            createdAt: typeof conversation.createdAt === 'number' ? conversation.createdAt : now,
+            updatedAt: typeof conversation.updatedAt === 'number' ? conversation.updatedAt : now,
+            summary: isSummary(conversation.summary) && conversation.summary.upTo <= conversation.messages.length ? conversation.summary : undefined,
+        },
+        settings: data.settings && typeof data.settings === 'object' ? data.settings : {},
+    };
+};
@@ -0,0 +1,78 @@
+import { STORES, withStore } from './db';
+import { translate } from './i18n';
+import type { ChatMessage, Conversation } from '../types';
+
+const TITLE_MAX_LENGTH = 60;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Lets UI (e.g. the history panel) refresh whenever a conversation is saved, renamed or deleted.
+export const subscribeToConversations = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const createConversationId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const deriveTitle = (messages: ChatMessage[]) => {
+    const firstUserText = messages.find(m => m.role === 'user' && m.text.trim())?.text.replace(/\s+/g, ' ').trim();
+    if (!firstUserText) return translate('history.untitled');
+    return firstUserText.length > TITLE_MAX_LENGTH ? `${firstUserText.slice(0, TITLE_MAX_LENGTH)}…` : firstUserText;
+};
+
+export const getConversation = (id: string): Promise<Conversation | undefined> =>
+    withStore(STORES.conversations, 'readonly', store => store.get(id));
+
+// Newest first. Filtering is done in memory; a single user's history is small.
+export const listConversations = async (filter: { featureId?: string; personaId?: string } = {}): Promise<Conversation[]> => {
+    const all: Conversation[] = filter.featureId
+        ? await withStore(STORES.conversations, 'readonly', store => store.index('featureId').getAll(filter.featureId))
+        : await withStore(STORES.conversations, 'readonly', store => store.getAll());
+    return all
+        .filter(c => filter.personaId === undefined || c.personaId === filter.personaId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Inserts or updates a conversation. A title the user has set and the original
+// creation time are kept when the transcript is saved again.
+export const saveConversation = async (draft: Pick<Conversation, 'id' | 'featureId' | 'personaId' | 'messages' | 'summary' | 'autoSummarize'>): Promise<Conversation> => {
+    const existing = await getConversation(draft.id);
+    const now = Date.now();
+    const conversation: Conversation = {
+        ...draft,
+        title: existing?.title || deriveTitle(draft.messages),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+    };
+    await withStore(STORES.conversations, 'readwrite', store => store.put(conversation));
+    notify();
+    return conversation;
+};
+
+export const renameConversation = async (id: string, title: string) => {
+    const existing = await getConversation(id);
+    if (!existing) return;
+    await withStore(STORES.conversations, 'readwrite', store => store.put({ ...existing, title: title.trim() || existing.title }));
+    notify();
+};
+
+export const deleteConversation = async (id: string) => {
+    await withStore(STORES.conversations, 'readwrite', store => store.delete(id));
+    notify();
+};
+
+// Adds a conversation from an export (see conversationExport.ts) under a new id, so
+// importing the same file twice never overwrites a conversation. Its title and creation
+// time are kept.
+export const importConversation = async (imported: Conversation): Promise<Conversation> => {
+    const conversation: Conversation = { ...imported, id: createConversationId(), updatedAt: Date.now() };
+    await withStore(STORES.conversations, 'readwrite', store => store.put(conversation));
+    notify();
+    return conversation;
+};
@@ -0,0 +1,66 @@
+// Shared IndexedDB connection for everything the app persists locally.
+// Bump DB_VERSION and add the new store in `onupgradeneeded` when a feature needs one.
+
+const DB_NAME = 'yan-official';
+const DB_VERSION = 3;
+
+export const STORES = {
+    conversations: 'conversations',
+    usage: 'usage',
+    responses: 'responses',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.conversations)) {
+                const store = db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+                store.createIndex('featureId', 'featureId');
+                store.createIndex('updatedAt', 'updatedAt');
+            }
+            if (!db.objectStoreNames.contains(STORES.usage)) {
+                const store = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+                store.createIndex('timestamp', 'timestamp');
+                store.createIndex('day', 'day');
+            }
+            if (!db.objectStoreNames.contains(STORES.responses)) {
+                const store = db.createObjectStore(STORES.responses, { keyPath: 'key' });
+                store.createIndex('createdAt', 'createdAt');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Runs a single request against one object store and resolves with its result.
+export const withStore = async <T,>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return promisifyRequest(run(transaction.objectStore(storeName)));
+};
@@ -0,0 +1,86 @@
+import type { Tier, TierId, TierQuotas } from '../types';
+
+const FREE_FEATURES = [
+    'ai-chat',
+    'teman-curhat',
+    'mail-composer',
+    'text-summarizer',
+    'code-assistant',
+    'image-analyzer',
+    'audio-transcriber',
+    'text-to-speech',
+    'lyrics-generator',
+    'eli5-explainer',
+];
+
+const PRO_FEATURES = [
+    ...FREE_FEATURES,
+    'code-refiner',
+    'ai-image-generator',
+    'image-editor',
+    'essay-writer',
+    'story-writer',
+    'tanya-web',
+    'location-finder',
+    'persona-chat',
+];
+
+// Ordered from least to most access. Each tier lists every feature it unlocks, so a tier
+// doesn't have to include everything below it, and the access server issues tokens for
+// one of these ids (see `npm run access-codes`). Daily limits are off by default; set
+// `dailyRequests` or `dailyTokens` on a tier to enforce one.
+export const TIERS: Tier[] = [
+    {
+        id: 'free',
+        name: 'tiers.free',
+        features: FREE_FEATURES,
+        quotas: { maxAttachmentMB: 10, imagesPerGeneration: 1, dailyRequests: null, dailyTokens: null },
+    },
+    {
+        id: 'pro',
+        name: 'tiers.pro',
+        features: PRO_FEATURES,
+        quotas: { maxAttachmentMB: 25, imagesPerGeneration: 2, dailyRequests: null, dailyTokens: null },
+    },
+    {
+        id: 'team',
+        name: 'tiers.team',
+        features: [
+            ...PRO_FEATURES,
+            'video-generator',
+            'github-assistant',
+            'live-ai-chat',
+            'email-header-analyzer',
+            'code-packager',
+        ],
+        quotas: { maxAttachmentMB: 50, imagesPerGeneration: 4, dailyRequests: null, dailyTokens: null },
+    },
+];
+
+// Tokens issued before tiers existed say "premium", which unlocked everything.
+const LEGACY_TIERS: Record<string, TierId> = { premium: 'team' };
+
+// The tier for an id from an access token; no token or an unknown id means the free tier.
+export const getTier = (id?: string | null): Tier => {
+    const resolved = (id && LEGACY_TIERS[id]) || id;
+    return TIERS.find(t => t.id === resolved) || TIERS[0];
+};
+
+export const canUseFeature = (tierId: TierId, featureId: string) =>
+    getTier(tierId).features.includes(featureId);
+
+// The lowest tier that unlocks a feature, shown on lock badges.
+export const requiredTier = (featureId: string): Tier =>
+    TIERS.find(t => t.features.includes(featureId)) || TIERS[TIERS.length - 1];
+
+// The tier of the current user. App.tsx keeps this in sync, like the active feature in
+// services/providers, so services can apply quotas without it being passed around.
+let activeTier: TierId = 'free';
+
+export const setActiveTier = (tierId: TierId) => {
+    activeTier = tierId;
+};
+
+export const getActiveTier = (): Tier => getTier(activeTier);
+
+export const getActiveQuotas = (): TierQuotas => getActiveTier().quotas;
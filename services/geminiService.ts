@@ -1,35 +1,22 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, LiveServerMessage, Modality, Type, FunctionDeclaration, GenerateVideosOperation } from "@google/genai";
-
-// This is a placeholder. In a real environment, the API key is set securely.
-const API_KEY = (typeof process !== 'undefined' && process.env?.API_KEY) || undefined;
-
-// This function is the single point of truth for getting an authenticated AI client.
-// It will throw an error if the API key is not available, which must be handled
-// by the calling function.
-const getGenAI = () => {
-    if (!API_KEY) {
-        // This is the error that will be thrown on static hosting platforms.
-        throw new Error("AI features are unavailable: API Key is not configured for this environment.");
-    }
-    // A new instance is created for each call to support features like Video Generation
-    // which require a fresh client after API key selection.
-    return new GoogleGenAI({ apiKey: API_KEY });
-}
-
-// --- NEW ---
-// Type definition for grounded search results
-export interface GroundedSearchResult {
-    text: string;
-    sources: { uri: string; title: string; }[];
-}
-
-// --- NEW ---
-// Type definition for grounded maps results
-export interface GroundedMapsResult {
-    text: string;
-    places: { uri: string; title: string; }[];
-}
-
+import { Type, GenerateVideosOperation } from "@google/genai";
+import { getActiveFeature, getProvider, getProviderId, requireCapability } from './providers';
+import { validateGeminiApiKey } from './providers/geminiProvider';
+import { getActiveQuotas } from './entitlements';
+import { getGenerationSettings } from './modelSettings';
+import { cacheKey, getCachedResponse, putCachedResponse } from './responseCache';
+import { AiError, classifyError, withRetry } from './aiErrors';
+import { getPromptLanguage } from './i18n';
+import type { ModelKind } from '../types';
+import type { ChatSession, ChatTurn, GenerationSettings, GroundedMapsResult, GroundedSearchResult, LiveCallbacks, LiveSession, UploadedFile } from './providers';
+
+export type { ChatSession, ChatTurn, ContentPart, GenerationSettings, GroundedMapsResult, GroundedSearchResult, LiveSession, UploadedFile } from './providers';
+export { AiError, getErrorMessage, isAbortError, isAiError } from './aiErrors';
+
+// Every function below delegates to the AI provider configured for the active
+// feature (see services/providers), with the model settings the user chose for that
+// feature (see services/modelSettings.ts). Gemini is the default provider. Failures are
+// thrown as an AiError (see services/aiErrors.ts), after retrying rate limits,
+// network and server errors; aborted requests still reject with an AbortError.
 
 // Type definition for build artifacts
 export interface BuildArtifacts {
@@ -70,47 +57,118 @@ export interface CodeReviewResult {
 }
 
 
+export interface CacheOptions {
+    // Skip the cached answer; the new one replaces it.
+    fresh?: boolean;
+    // Called when the answer comes from the cache, with the time it was generated.
+    onHit?: (cachedAt: number) => void;
+}
+
+export interface RequestOptions {
+    // Aborting the signal cancels the request; the returned promise rejects with an AbortError.
+    signal?: AbortSignal;
+    // Replaces the active feature's model settings for this request.
+    settings?: GenerationSettings;
+    // Opts in to the response cache (services/responseCache.ts): an identical earlier
+    // request is answered from it instead of calling the API again.
+    cache?: CacheOptions;
+}
+
+const settingsFor = (kind: ModelKind) => getGenerationSettings(getActiveFeature(), kind);
+
+// Generated text follows the UI language (services/i18n.ts). Added before a request is
+// keyed for the cache, so answers in one language are never served in the other.
+const languageInstruction = () => `Respond in ${getPromptLanguage()} unless the user explicitly asks for another language.`;
+const withLanguage = (instruction?: string) => instruction ? `${instruction}\n\n${languageInstruction()}` : languageInstruction();
+
+// Models sometimes wrap JSON in a Markdown fence, put a sentence around it or leave a
+// trailing comma, even in JSON mode. Returns undefined when no repair parses.
+const parseJsonLoosely = <T,>(text: string): T | undefined => {
+    const candidates = [text];
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) candidates.push(fenced[1]);
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+    for (const candidate of candidates) {
+        for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+            try {
+                return JSON.parse(attempt) as T;
+            } catch {
+                // Try the next repair.
+            }
+        }
+    }
+    return undefined;
+};
+
+// Runs `generate` through the response cache when the caller opted in. `request` must
+// hold everything that shapes the answer; the provider is added here. The cache is a
+// saving, not a dependency, so failing to read or write it never fails the request.
+const withResponseCache = async <T,>(request: Record<string, unknown>, cache: CacheOptions | undefined, generate: () => Promise<T>): Promise<T> => {
+    if (!cache) return generate();
+    // Taken before the request, as the user may have moved to another feature by the time it returns.
+    const source = { featureId: getActiveFeature(), prompt: String(request.prompt ?? '') };
+    let key: string | undefined;
+    try {
+        key = await cacheKey({ provider: getProviderId(), ...request });
+        const hit = cache.fresh ? null : await getCachedResponse<T>(key);
+        if (hit) {
+            cache.onHit?.(hit.createdAt);
+            return hit.value;
+        }
+    } catch (error) {
+        console.error('Failed to read the response cache:', error);
+    }
+    const value = await generate();
+    if (key) {
+        putCachedResponse(key, value, source).catch(error => console.error('Failed to write the response cache:', error));
+    }
+    return value;
+};
+
+// A JSON response that can't be repaired is asked for again this many times in total.
+const JSON_ATTEMPTS = 2;
+
 // --- TEXT GENERATION ---
-export const generateText = async (prompt: string, systemInstruction?: string): Promise<string> => {
-    const ai = getGenAI();
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            systemInstruction: systemInstruction,
-        },
-    });
-    return response.text;
+export const generateText = async (prompt: string, instruction?: string, options: RequestOptions = {}): Promise<string> => {
+    const settings = options.settings ?? settingsFor('text');
+    const systemInstruction = withLanguage(instruction);
+    return withResponseCache({ operation: 'generateText', settings, systemInstruction, prompt }, options.cache, () =>
+        withRetry(() => getProvider().generateText({ contents: prompt, systemInstruction, signal: options.signal, settings }), options.signal));
 };
 
-export const generateJson = async <T,>(prompt: string, schema: any, systemInstruction?: string): Promise<T | string> => {
-    const ai = getGenAI();
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: 'application/json',
-            responseSchema: schema,
-        },
+export const generateJson = async <T,>(prompt: string, schema: any, instruction?: string, options: RequestOptions = {}): Promise<T> => {
+    const settings = options.settings ?? settingsFor('text');
+    const systemInstruction = withLanguage(instruction);
+    return withResponseCache({ operation: 'generateJson', settings, systemInstruction, prompt, schema }, options.cache, async () => {
+        for (let attempt = 1; ; attempt++) {
+            const text = await withRetry(() => getProvider().generateJson({ contents: prompt, schema, systemInstruction, signal: options.signal, settings }), options.signal);
+            const result = parseJsonLoosely<T>(text);
+            if (result !== undefined) return result;
+            if (attempt >= JSON_ATTEMPTS) {
+                throw new AiError('invalid-json', `The AI response was not valid JSON: ${text.slice(0, 200)}`);
+            }
+            console.warn('AI response was not valid JSON, asking again.');
+        }
     });
-    return JSON.parse(response.text) as T;
-}
+};
 
 // --- NEW ---
 // Function for Mail Composer
 export const generateEmail = async (to: string, from: string, subject: string, tone: string, points: string): Promise<string> => {
-    const systemInstruction = "You are a professional communication assistant. Your task is to compose a well-structured and coherent email in Indonesian based on the user's provided points. Adhere strictly to the specified tone. The output should be only the email body, without any extra commentary.";
+    const systemInstruction = "You are a professional communication assistant. Your task is to compose a well-structured and coherent email based on the user's provided points. Adhere strictly to the specified tone. The output should be only the email body, without any extra commentary.";
     const prompt = `
-        Tuliskan badan email dengan detail berikut:
-        - Untuk: ${to}
-        - Dari: ${from}
-        - Subjek: ${subject}
-        - Gaya Bahasa: ${tone}
-        - Poin-poin utama yang harus ada dalam email:
+        Write the body of an email with the following details:
+        - To: ${to}
+        - From: ${from}
+        - Subject: ${subject}
+        - Tone: ${tone}
+        - Key points the email must cover:
         ${points}
 
-        Harap tulis hanya isi (badan) emailnya saja.
+        Write only the body of the email.
     `;
     return await generateText(prompt, systemInstruction);
 };
@@ -148,15 +206,11 @@ const codeReviewSchema = {
     required: ['summary', 'bugs', 'performance', 'style', 'bestPractices']
 };
 
-export const reviewCode = async (code: string, language: string): Promise<CodeReviewResult> => {
+export const reviewCode = async (code: string, language: string, options: RequestOptions = {}): Promise<CodeReviewResult> => {
     const systemInstruction = `You are an expert code reviewer and senior software engineer. Analyze the provided ${language} code snippet. Provide a comprehensive review covering potential bugs, performance optimizations, style improvements, and adherence to best practices. Your feedback must be constructive, clear, and actionable. Populate the JSON schema with your findings. If a category has no findings, return an empty array for it.`;
     const prompt = `Please review the following ${language} code:\n\n\`\`\`${language.toLowerCase()}\n${code}\n\`\`\``;
     
-    const result = await generateJson<CodeReviewResult>(prompt, codeReviewSchema, systemInstruction);
-    if (typeof result === 'string') {
-        throw new Error('Failed to review code. AI returned a string instead of JSON.');
-    }
-    return result;
+    return generateJson<CodeReviewResult>(prompt, codeReviewSchema, systemInstruction, options);
 };
 
 
@@ -197,11 +251,7 @@ export const generateBuildArtifacts = async (appName: string, packageName: strin
         3.  'androidManifest': The essential XML snippets that need to be added or modified in 'AndroidManifest.xml', particularly for permissions.
     `;
     
-    const result = await generateJson<BuildArtifacts>(prompt, buildArtifactsSchema, systemInstruction);
-    if (typeof result === 'string') {
-        throw new Error('Failed to generate build artifacts. AI returned a string instead of JSON.');
-    }
-    return result;
+    return generateJson<BuildArtifacts>(prompt, buildArtifactsSchema, systemInstruction);
 };
 
 // Function for analyzing email headers
@@ -245,107 +295,62 @@ const emailAnalysisSchema = {
     required: ['summary', 'securityChecks', 'path']
 };
 
-export const analyzeEmailHeader = async (header: string): Promise<EmailAnalysisResult> => {
+export const analyzeEmailHeader = async (header: string, options: RequestOptions = {}): Promise<EmailAnalysisResult> => {
     const systemInstruction = "You are a cybersecurity expert specializing in email analysis. Analyze the provided raw email header and extract key security information. Trace the delivery path from the origin to the final recipient. Populate the JSON schema with your findings. Be precise and technical.";
     const prompt = `Analyze the following email header:\n\n${header}`;
 
-    const result = await generateJson<EmailAnalysisResult>(prompt, emailAnalysisSchema, systemInstruction);
-    if (typeof result === 'string') {
-        throw new Error('Failed to analyze email header. AI returned a string instead of JSON.');
-    }
-    return result;
+    return generateJson<EmailAnalysisResult>(prompt, emailAnalysisSchema, systemInstruction, options);
 };
 
 
 // --- NEW ---
 // Function for web-grounded generation
 export const generateWithGoogleSearch = async (prompt: string): Promise<GroundedSearchResult | string> => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            tools: [{googleSearch: {}}],
-        },
-    });
-
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    // FIX: Refactored source extraction to be more type-safe.
-    // This explicitly filters for chunks containing web data and then maps them to the desired format,
-    // preventing potential runtime errors and satisfying TypeScript's type checker.
-    const sources = groundingChunks
-        .filter((chunk: any): chunk is { web: { uri: string; title?: string } } => !!chunk?.web?.uri)
-        .map(chunk => ({
-            uri: chunk.web.uri,
-            title: chunk.web.title || chunk.web.uri,
-        }));
-    
-    // FIX: Explicitly typed the Map to aid TypeScript's type inference, which was failing
-    // to correctly determine the type of the `values()` iterator. This resolves the assignment error.
-    const uniqueSources = Array.from(new Map<string, { uri: string; title: string; }>(sources.map(item => [item.uri, item])).values());
-
-    return {
-        text: response.text,
-        sources: uniqueSources,
-    };
+    return withRetry(() => requireCapability(getProvider(), 'generateWithSearch', 'errors.capabilities.webSearch')(`${prompt}\n\n${languageInstruction()}`, settingsFor('text')));
 };
 
 // --- NEW ---
 // Function for maps-grounded generation
 export const generateWithGoogleMaps = async (prompt: string, coords?: {latitude: number, longitude: number}): Promise<GroundedMapsResult | string> => {
-    const ai = getGenAI();
-
-    const requestConfig: any = {
-        tools: [{googleMaps: {}}],
-    };
-
-    if (coords) {
-        requestConfig.toolConfig = {
-            retrievalConfig: {
-                latLng: {
-                    latitude: coords.latitude,
-                    longitude: coords.longitude,
-                }
-            }
-        };
-    }
-
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: requestConfig,
-    });
-
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const places = groundingChunks
-        .filter((chunk: any): chunk is { maps: { uri: string; title?: string } } => !!chunk?.maps?.uri)
-        .map((chunk: { maps: { uri: string; title?: string } }) => ({
-            uri: chunk.maps.uri,
-            title: chunk.maps.title || 'Untitled Place',
-        }));
-
-    const uniquePlaces = Array.from(new Map<string, { uri: string; title: string; }>(places.map(item => [item.uri, item])).values());
-
-    return {
-        text: response.text,
-        places: uniquePlaces,
-    };
+    return withRetry(() => requireCapability(getProvider(), 'generateWithMaps', 'errors.capabilities.maps')(`${prompt}\n\n${languageInstruction()}`, coords, settingsFor('text')));
 };
 
 
 // --- CHAT ---
+// Retries a message until its first chunk arrives (some providers only send the request
+// once the stream is read). After that a failure would repeat text the user has already
+// seen, so it is only classified.
+const withStreamRetry = (session: ChatSession): ChatSession => ({
+    sendMessageStream: async (params, meter) => {
+        const { stream, first } = await withRetry(async () => {
+            const stream = await session.sendMessageStream(params, meter);
+            return { stream, first: await stream.next() };
+        }, params.signal);
+        return (async function* () {
+            try {
+                if (first.done) return;
+                yield first.value;
+                yield* stream;
+            } catch (error) {
+                throw classifyError(error);
+            } finally {
+                // Closes the provider's stream if the caller stopped reading early.
+                await stream.return(undefined);
+            }
+        })();
+    },
+    getHistory: () => session.getHistory(),
+});
+
 // This function is special because it's called synchronously in useEffect.
-// We catch the error from getGenAI and return null to prevent crashing the app.
+// We catch the error from the provider and return null to prevent crashing the app.
 // The component then handles the null case to display an error message.
-export const createChat = (systemInstruction?: string): Chat | null => {
+// Pass `history` to continue a previously saved conversation. `settings` default to the
+// active feature's model settings.
+export const createChat = (systemInstruction?: string, options: { history?: ChatTurn[]; settings?: GenerationSettings } = {}): ChatSession | null => {
     try {
-        const ai = getGenAI();
-        return ai.chats.create({
-            model: 'gemini-2.5-flash', // Lite model for faster chat
-            config: {
-                systemInstruction: systemInstruction,
-            },
-        });
+        const settings = options.settings ?? settingsFor('text');
+        return withStreamRetry(getProvider().createChat({ systemInstruction: withLanguage(systemInstruction), history: options.history, settings }));
     } catch (error) {
         console.error("Failed to create chat session:", error);
         return null;
@@ -353,22 +358,13 @@ export const createChat = (systemInstruction?: string): Chat | null => {
 };
 
 // --- IMAGE GENERATION & ANALYSIS ---
-export const generateImages = async (prompt: string, count: number = 3): Promise<string[] | null> => {
-    const ai = getGenAI();
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-            numberOfImages: count,
-            outputMimeType: 'image/jpeg',
-            aspectRatio: '1:1',
-        },
-    });
-    return response.generatedImages.map(img => `data:image/jpeg;base64,${img.image.imageBytes}`);
+// `count` defaults to, and is capped at, the number of images the user's tier allows.
+export const generateImages = async (prompt: string, count?: number, signal?: AbortSignal): Promise<string[] | null> => {
+    const { imagesPerGeneration } = getActiveQuotas();
+    return withRetry(() => getProvider().generateImages({ prompt, count: Math.min(count ?? imagesPerGeneration, imagesPerGeneration), signal, settings: settingsFor('image') }), signal);
 };
 
 export const analyzeImage = async (prompt: string, imageBase64: string, mimeType: string): Promise<string> => {
-    const ai = getGenAI();
     const imagePart = {
         inlineData: {
             mimeType: mimeType,
@@ -376,128 +372,48 @@ export const analyzeImage = async (prompt: string, imageBase64: string, mimeType
         },
     };
     const textPart = { text: prompt };
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [imagePart, textPart] },
-    });
-    return response.text;
+    return withRetry(() => getProvider().generateText({ contents: [imagePart, textPart], systemInstruction: withLanguage(), settings: settingsFor('text') }));
 };
 
-export const editImage = async (prompt: string, imageBase64: string, mimeType: string): Promise<string | null> => {
-    const ai = getGenAI();
-    const imagePart = {
-        inlineData: {
-            data: imageBase64,
-            mimeType: mimeType,
-        },
-    };
-    const textPart = { text: prompt };
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            const base64ImageBytes: string = part.inlineData.data;
-            return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-        }
-    }
-    return null;
+export const editImage = async (prompt: string, imageBase64: string, mimeType: string, signal?: AbortSignal): Promise<string | null> => {
+    return withRetry(() => requireCapability(getProvider(), 'editImage', 'errors.capabilities.imageEditing')({ prompt, imageBase64, mimeType, signal, settings: settingsFor('imageEdit') }), signal);
 };
 
 
 // FIX: Added generateVideo and checkVideoOperation to support video generation.
 // --- VIDEO GENERATION ---
 export const generateVideo = async (prompt: string, imageBase64?: string, mimeType?: string): Promise<GenerateVideosOperation> => {
-    const ai = getGenAI();
-    
-    // The type for this payload is complex, so using 'any' is pragmatic here.
-    const requestPayload: any = {
-        model: 'veo-3.1-fast-generate-preview',
-        config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: '16:9',
-        },
-    };
-
-    if (prompt) {
-        requestPayload.prompt = prompt;
-    }
-
-    if (imageBase64 && mimeType) {
-        requestPayload.image = {
-            imageBytes: imageBase64,
-            mimeType: mimeType,
-        };
-    }
-
-    const operation = await ai.models.generateVideos(requestPayload);
-    return operation;
+    return withRetry(() => requireCapability(getProvider(), 'generateVideo', 'errors.capabilities.video')({ prompt, imageBase64, mimeType, settings: settingsFor('video') }));
 };
 
 export const checkVideoOperation = async (operation: GenerateVideosOperation): Promise<GenerateVideosOperation> => {
-    const ai = getGenAI();
-    return await ai.operations.getVideosOperation({ operation });
+    return withRetry(() => requireCapability(getProvider(), 'checkVideoOperation', 'errors.capabilities.video')(operation));
 };
 
 
 // --- AUDIO TRANSCRIPTION ---
-export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
-    const ai = getGenAI();
-    const audioPart = {
-        inlineData: {
-            mimeType: mimeType,
-            data: audioBase64,
-        },
-    };
-    const textPart = { text: "Transcribe this audio accurately." };
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [audioPart, textPart] },
-    });
-    return response.text;
+export const transcribeAudio = async (audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+    return withRetry(() => getProvider().transcribeAudio({ audioBase64, mimeType, signal, settings: settingsFor('text') }), signal);
 };
 
 // --- LIVE CHAT (AUDIO) ---
-export const connectLiveChat = async (callbacks: {
-    onopen: () => void;
-    onmessage: (message: LiveServerMessage) => Promise<void>;
-    onerror: (e: ErrorEvent) => void;
-    onclose: (e: CloseEvent) => void;
-}) => {
-    const ai = getGenAI();
-    return await ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: callbacks,
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-            },
-        },
-    });
+export const connectLiveChat = async (callbacks: LiveCallbacks): Promise<LiveSession> => {
+    return withRetry(() => getProvider().connectLive(callbacks, settingsFor('live')));
+};
+
+// --- FILES ---
+// For attachments too large to send inline; pass the result as a `fileData` part.
+export const uploadFile = async (file: File, mimeType: string, signal?: AbortSignal): Promise<UploadedFile> => {
+    return withRetry(() => requireCapability(getProvider(), 'uploadFile', 'errors.capabilities.fileUpload')({ file, mimeType, displayName: file.name, signal }), signal);
 };
 
 // --- TEXT TO SPEECH ---
 export const generateSpeech = async (text: string, voice: string): Promise<string | null> => {
-    const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: text }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: voice },
-                },
-            },
-        },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    return base64Audio || null;
-}
\ No newline at end of file
+    return withRetry(() => getProvider().generateSpeech({ text, voice, settings: settingsFor('speech') }));
+}
+
+// --- API KEY ---
+// Throws an AiError (kind 'auth' for a rejected key) when the key doesn't work.
+export const validateApiKey = async (apiKey: string): Promise<void> => {
+    return withRetry(() => validateGeminiApiKey(apiKey));
+};
@@ -0,0 +1,106 @@
+import id from '../locales/id';
+import en from '../locales/en';
+import type { Messages } from '../locales/id';
+
+// The UI language and the message catalogs (locales/). The language is kept in
+// localStorage; components read it with `useTranslation`, services call `translate`
+// directly. The service layer also asks the model to answer in this language.
+
+export type Language = 'id' | 'en';
+
+export const LANGUAGES: { id: Language; label: string; locale: string; promptName: string }[] = [
+    { id: 'id', label: 'Bahasa Indonesia', locale: 'id-ID', promptName: 'Indonesian' },
+    { id: 'en', label: 'English', locale: 'en-US', promptName: 'English' },
+];
+
+export const LANGUAGE_STORAGE_KEY = 'yan-official:language';
+
+const CATALOGS: Record<Language, Messages> = { id, en };
+
+// Dotted path to every message, e.g. "sidebar.newChat".
+type Paths<T, Prefix extends string = ''> = {
+    [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Paths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = Paths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.some(language => language.id === value);
+
+// Without a stored choice, Indonesian browsers get Indonesian and everyone else English.
+const detect = (): Language => {
+    try {
+        const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+        if (isLanguage(stored)) return stored;
+    } catch {
+        // Storage is unavailable (e.g. some private modes); fall through to the browser language.
+    }
+    const browser = typeof navigator !== 'undefined' ? navigator.language : '';
+    return browser?.toLowerCase().startsWith('id') ? 'id' : 'en';
+};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+let language = detect();
+
+// Screen readers and the browser's spell checker follow the document language.
+const setDocumentLanguage = () => {
+    if (typeof document !== 'undefined') document.documentElement.lang = language;
+};
+setDocumentLanguage();
+
+const apply = () => {
+    setDocumentLanguage();
+    listeners.forEach(listener => listener());
+};
+
+export const subscribeToLanguage = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getLanguage = (): Language => language;
+
+export const setLanguage = (next: Language) => {
+    if (!isLanguage(next) || next === language) return;
+    language = next;
+    try {
+        localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    } catch (error) {
+        console.error('Failed to save the language:', error);
+    }
+    apply();
+};
+
+// Picks up a language chosen in another tab.
+export const reloadLanguage = () => {
+    const next = detect();
+    if (next === language) return;
+    language = next;
+    apply();
+};
+
+// BCP 47 locale for dates and numbers in the UI language.
+export const getLocale = () => LANGUAGES.find(l => l.id === language)!.locale;
+
+// English name of the UI language, for instructions to the model.
+export const getPromptLanguage = () => LANGUAGES.find(l => l.id === language)!.promptName;
+
+const lookup = (catalog: Messages, key: string): string | undefined => {
+    let node: unknown = catalog;
+    for (const part of key.split('.')) {
+        if (!node || typeof node !== 'object') return undefined;
+        node = (node as Record<string, unknown>)[part];
+    }
+    return typeof node === 'string' ? node : undefined;
+};
+
+// The message for `key` in the UI language, with `{name}` placeholders filled from
+// `params`. Falls back to Indonesian, then to the key itself.
+export const translate = (key: MessageKey, params?: MessageParams): string => {
+    const message = lookup(CATALOGS[language], key) ?? lookup(CATALOGS.id, key) ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
@@ -0,0 +1,146 @@
+import type { GenerationSettings } from './providers/types';
+import type { FeatureModels, ModelKind } from '../types';
+
+// Which models each feature uses, and the model and sampling overrides the user picked
+// for it in the model settings. Overrides are kept in localStorage per feature; the
+// service layer resolves them with `getGenerationSettings` for every call.
+
+export const MODEL_SETTINGS_STORAGE_KEY = 'yan-official:model-settings';
+
+const TEXT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+const textModels = (defaultModel = TEXT_MODELS[0]): FeatureModels => ({
+    kind: 'text',
+    default: defaultModel,
+    alternatives: TEXT_MODELS.filter(model => model !== defaultModel),
+});
+
+// Input tokens each text model accepts. Other models (e.g. those of the OpenAI-compatible
+// provider) are assumed to take 128k.
+const CONTEXT_WINDOWS: Record<string, number> = {
+    'gemini-2.5-flash': 1_048_576,
+    'gemini-2.5-pro': 1_048_576,
+    'gemini-2.5-flash-lite': 1_048_576,
+};
+
+export const contextWindowFor = (model?: string) => (model && CONTEXT_WINDOWS[model]) || 128_000;
+
+export const FEATURE_MODELS: Record<string, FeatureModels> = {
+    'ai-chat': textModels(),
+    'teman-curhat': textModels(),
+    'mail-composer': textModels(),
+    'text-summarizer': textModels(),
+    'code-assistant': textModels('gemini-2.5-pro'),
+    'image-analyzer': textModels(),
+    'audio-transcriber': textModels(),
+    'text-to-speech': { kind: 'speech', default: 'gemini-2.5-flash-preview-tts', alternatives: ['gemini-2.5-pro-preview-tts'] },
+    'lyrics-generator': textModels(),
+    'eli5-explainer': textModels(),
+    'code-refiner': textModels(),
+    'ai-image-generator': { kind: 'image', default: 'imagen-4.0-generate-001', alternatives: ['imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001'] },
+    'image-editor': { kind: 'imageEdit', default: 'gemini-2.5-flash-image', alternatives: [] },
+    'video-generator': { kind: 'video', default: 'veo-3.1-fast-generate-preview', alternatives: ['veo-3.1-generate-preview'] },
+    'essay-writer': textModels(),
+    'story-writer': textModels(),
+    'tanya-web': textModels(),
+    'location-finder': textModels(),
+    'persona-chat': textModels(),
+    'github-assistant': textModels('gemini-2.5-pro'),
+    'live-ai-chat': { kind: 'live', default: 'gemini-2.5-flash-native-audio-preview-09-2025', alternatives: [] },
+    'email-header-analyzer': textModels(),
+    'code-packager': textModels(),
+};
+
+// What the settings panel offers. Stored values outside these ranges are ignored.
+export const SAMPLING_RANGES = {
+    temperature: { min: 0, max: 2, step: 0.1 },
+    topP: { min: 0, max: 1, step: 0.05 },
+    maxOutputTokens: { min: 1, max: 65536, step: 1 },
+};
+
+type SamplingKey = keyof typeof SAMPLING_RANGES;
+const SAMPLING_KEYS = Object.keys(SAMPLING_RANGES) as SamplingKey[];
+
+// Temperature and friends only mean something for text generation.
+export const supportsSampling = (kind: ModelKind) => kind === 'text';
+
+const NO_OVERRIDES: GenerationSettings = {};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Keeps the overrides a feature's models allow; the rest (e.g. a model that was removed
+// from the list since it was picked) falls back to the defaults.
+const sanitize = (featureId: string, settings: GenerationSettings): GenerationSettings => {
+    const models = FEATURE_MODELS[featureId];
+    if (!models || !settings) return NO_OVERRIDES;
+    const clean: GenerationSettings = {};
+    if (settings.model && models.alternatives.includes(settings.model)) clean.model = settings.model;
+    if (supportsSampling(models.kind)) {
+        for (const key of SAMPLING_KEYS) {
+            const value = settings[key];
+            const { min, max } = SAMPLING_RANGES[key];
+            if (typeof value === 'number' && value >= min && value <= max) {
+                clean[key] = key === 'maxOutputTokens' ? Math.round(value) : value;
+            }
+        }
+    }
+    return Object.keys(clean).length > 0 ? clean : NO_OVERRIDES;
+};
+
+const load = (): Record<string, GenerationSettings> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) || '{}');
+        const loaded: Record<string, GenerationSettings> = {};
+        for (const [featureId, settings] of Object.entries(stored)) {
+            const clean = sanitize(featureId, settings as GenerationSettings);
+            if (clean !== NO_OVERRIDES) loaded[featureId] = clean;
+        }
+        return loaded;
+    } catch {
+        return {};
+    }
+};
+
+let overrides = load();
+
+const persist = () => {
+    try {
+        localStorage.setItem(MODEL_SETTINGS_STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+        console.error('Failed to save model settings:', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const subscribeToModelSettings = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// The user's overrides for a feature. The same object is returned until they change.
+export const getModelOverrides = (featureId: string): GenerationSettings => overrides[featureId] || NO_OVERRIDES;
+
+export const saveModelOverrides = (featureId: string, settings: GenerationSettings) => {
+    const { [featureId]: _previous, ...rest } = overrides;
+    const clean = sanitize(featureId, settings);
+    overrides = clean === NO_OVERRIDES ? rest : { ...rest, [featureId]: clean };
+    persist();
+};
+
+export const resetModelOverrides = (featureId: string) => saveModelOverrides(featureId, NO_OVERRIDES);
+
+// Picks up settings changed in another tab.
+export const reloadModelSettings = () => {
+    overrides = load();
+    listeners.forEach(listener => listener());
+};
+
+// The settings for a call of `kind` made by a feature: its default model with the user's
+// overrides on top. Calls of another kind than the feature's (or outside a feature) get
+// no settings, so the provider uses its own default model.
+export const getGenerationSettings = (featureId: string | null, kind: ModelKind): GenerationSettings => {
+    const models = featureId ? FEATURE_MODELS[featureId] : undefined;
+    if (!models || models.kind !== kind) return {};
+    return { model: models.default, ...getModelOverrides(featureId) };
+};
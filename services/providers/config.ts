@@ -0,0 +1,45 @@
+import type { ProviderId } from './types';
+
+const readEnv = (value: string | undefined) => (value && value.trim()) || undefined;
+
+// All provider settings come from build-time environment variables (see vite.config.ts).
+// - AI_PROVIDER: the default backend for every feature ('gemini' when unset,
+//   'mock' for the offline backend that needs no API key or network).
+// - AI_FEATURE_PROVIDERS: per-feature overrides as a comma separated list of
+//   `featureId=providerId` pairs, e.g. "ai-chat=openai,text-summarizer=openai".
+// - OPENAI_*: connection details for the OpenAI-compatible backend.
+// Vite's `define` only replaces the literal `process.env.NAME`, so each one is spelled out.
+
+const isProviderId = (value: string | undefined): value is ProviderId =>
+    value === 'gemini' || value === 'openai' || value === 'mock';
+
+const parseFeatureProviders = (raw: string | undefined): Record<string, ProviderId> => {
+    const overrides: Record<string, ProviderId> = {};
+    if (!raw) return overrides;
+    for (const entry of raw.split(',')) {
+        const [featureId, providerId] = entry.split('=').map(s => s.trim());
+        if (featureId && isProviderId(providerId)) {
+            overrides[featureId] = providerId;
+        } else if (entry.trim()) {
+            console.warn(`Ignoring invalid AI_FEATURE_PROVIDERS entry: "${entry}"`);
+        }
+    }
+    return overrides;
+};
+
+const defaultProvider = readEnv(process.env.AI_PROVIDER);
+
+export const PROVIDER_CONFIG = {
+    defaultProvider: (isProviderId(defaultProvider) ? defaultProvider : 'gemini') as ProviderId,
+    featureProviders: parseFeatureProviders(readEnv(process.env.AI_FEATURE_PROVIDERS)),
+    openai: {
+        baseUrl: (readEnv(process.env.OPENAI_BASE_URL) || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+        apiKey: readEnv(process.env.OPENAI_API_KEY),
+        models: {
+            text: readEnv(process.env.OPENAI_MODEL) || 'gpt-4o-mini',
+            image: readEnv(process.env.OPENAI_IMAGE_MODEL) || 'dall-e-3',
+            speech: readEnv(process.env.OPENAI_TTS_MODEL) || 'tts-1',
+            transcription: readEnv(process.env.OPENAI_TRANSCRIBE_MODEL) || 'whisper-1',
+        },
+    },
+};
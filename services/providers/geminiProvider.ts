@@ -0,0 +1,397 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Chat, Modality, FileState } from "@google/genai";
+import { AiError } from '../aiErrors';
+import { getApiKey } from '../apiKeyStore';
+import type { AiProvider, ChatSession, ChatTurn, GenerationSettings, GroundedMapsResult, GroundedSearchResult, UsageMeter } from './types';
+
+// Used when a call doesn't name a model (see GenerationSettings).
+const MODELS = {
+    text: 'gemini-2.5-flash',
+    image: 'imagen-4.0-generate-001',
+    imageEdit: 'gemini-2.5-flash-image',
+    video: 'veo-3.1-fast-generate-preview',
+    live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    speech: 'gemini-2.5-flash-preview-tts',
+};
+
+// This function is the single point of truth for getting an authenticated AI client.
+// The key is looked up on every call (see services/apiKeyStore.ts), so a key the user
+// saves in the settings is used straight away. It will throw an error if no key is
+// available, which must be handled by the calling function.
+const getGenAI = () => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new AiError('missing-key', "AI features are unavailable: API Key is not configured for this environment.");
+    }
+    // A new instance is created for each call to support features like Video Generation
+    // which require a fresh client after API key selection.
+    return new GoogleGenAI({ apiKey });
+}
+
+// Checks a key with a free metadata request before it is saved.
+export const validateGeminiApiKey = async (apiKey: string) => {
+    await new GoogleGenAI({ apiKey }).models.get({ model: MODELS.text });
+};
+
+// The sampling part of the settings; unset values keep the model's defaults.
+const samplingConfig = (settings: GenerationSettings = {}): GenerateContentConfig => ({
+    temperature: settings.temperature,
+    topP: settings.topP,
+    maxOutputTokens: settings.maxOutputTokens,
+});
+
+// Passes the token counts Gemini returns with every response to the usage meter.
+const reportUsage = (meter: UsageMeter | undefined, model: string, response: Pick<GenerateContentResponse, 'usageMetadata'>) => {
+    meter?.({
+        model,
+        promptTokens: response.usageMetadata?.promptTokenCount,
+        responseTokens: response.usageMetadata?.candidatesTokenCount,
+    });
+};
+
+// Uploaded files are kept for 48 hours; used when the API doesn't say when one expires.
+const FILE_TTL_MS = 48 * 60 * 60 * 1000;
+const FILE_POLL_MS = 2000;
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini answers a blocked prompt or reply with an empty response instead of an error.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const reason = response.promptFeedback?.blockReason
+        || (BLOCKED_FINISH_REASONS.includes(String(response.candidates?.[0]?.finishReason)) ? response.candidates?.[0]?.finishReason : undefined);
+    if (reason) {
+        throw new AiError('safety', `Gemini blocked the request (${reason}).`);
+    }
+};
+
+// Wraps the SDK chat so the rest of the app only depends on the provider-neutral
+// `ChatSession` shape. A per-message config replaces the chat's config rather than
+// merging with it, so the chat config is repeated when an abort signal is passed.
+// Streamed chunks carry running totals, so the last one holds the usage for the message.
+const wrapChat = (chat: Chat, model: string, config: GenerateContentConfig): ChatSession => ({
+    sendMessageStream: async ({ message, signal }, meter) => {
+        const stream = await chat.sendMessageStream({ message, config: signal ? { ...config, abortSignal: signal } : undefined });
+        return (async function* () {
+            let last: GenerateContentResponse | undefined;
+            let hasText = false;
+            for await (const chunk of stream) {
+                last = chunk;
+                hasText ||= !!chunk.text;
+                yield { text: chunk.text || '' };
+            }
+            if (last) reportUsage(meter, model, last);
+            // A reply cut off part way is kept; one blocked before any text is an error.
+            if (last && !hasText) assertNotBlocked(last);
+        })();
+    },
+    getHistory: () => chat.getHistory() as ChatTurn[],
+});
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+
+    // --- TEXT GENERATION ---
+    generateText: async ({ contents, systemInstruction, signal, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.text;
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: typeof contents === 'string' ? contents : { parts: contents },
+            config: {
+                ...samplingConfig(settings),
+                systemInstruction: systemInstruction,
+                abortSignal: signal,
+            },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+        return response.text;
+    },
+
+    generateJson: async ({ contents, schema, systemInstruction, signal, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.text;
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: typeof contents === 'string' ? contents : { parts: contents },
+            config: {
+                ...samplingConfig(settings),
+                systemInstruction: systemInstruction,
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+            },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+        return response.text;
+    },
+
+    // --- CHAT ---
+    createChat: ({ systemInstruction, history, settings }) => {
+        const ai = getGenAI();
+        const config: GenerateContentConfig = {
+            ...samplingConfig(settings),
+            systemInstruction: systemInstruction,
+        };
+        const model = settings?.model || MODELS.text;
+        return wrapChat(ai.chats.create({
+            model,
+            config,
+            history,
+        }), model, config);
+    },
+
+    // --- IMAGE GENERATION & EDITING ---
+    generateImages: async ({ prompt, count, signal, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.image;
+        const response = await ai.models.generateImages({
+            model,
+            prompt: prompt,
+            config: {
+                numberOfImages: count,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: '1:1',
+                abortSignal: signal,
+            },
+        });
+        // Images caught by the safety filter come back without bytes.
+        const images = (response.generatedImages || []).filter(img => img.image?.imageBytes);
+        meter?.({ model, media: images.length });
+        if (images.length === 0) {
+            throw new AiError('safety', 'Every generated image was removed by the safety filter.');
+        }
+        return images.map(img => `data:image/jpeg;base64,${img.image.imageBytes}`);
+    },
+
+    editImage: async ({ prompt, imageBase64, mimeType, signal, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.imageEdit;
+        const imagePart = {
+            inlineData: {
+                data: imageBase64,
+                mimeType: mimeType,
+            },
+        };
+        const textPart = { text: prompt };
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts: [imagePart, textPart] },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) {
+                const base64ImageBytes: string = part.inlineData.data;
+                return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
+            }
+        }
+        return null;
+    },
+
+    // --- GROUNDED GENERATION ---
+    generateWithSearch: async (prompt, settings, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.text;
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                ...samplingConfig(settings),
+                tools: [{googleSearch: {}}],
+            },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+
+        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        // FIX: Refactored source extraction to be more type-safe.
+        // This explicitly filters for chunks containing web data and then maps them to the desired format,
+        // preventing potential runtime errors and satisfying TypeScript's type checker.
+        const sources = groundingChunks
+            .filter((chunk: any): chunk is { web: { uri: string; title?: string } } => !!chunk?.web?.uri)
+            .map(chunk => ({
+                uri: chunk.web.uri,
+                title: chunk.web.title || chunk.web.uri,
+            }));
+
+        // FIX: Explicitly typed the Map to aid TypeScript's type inference, which was failing
+        // to correctly determine the type of the `values()` iterator. This resolves the assignment error.
+        const uniqueSources = Array.from(new Map<string, { uri: string; title: string; }>(sources.map(item => [item.uri, item])).values());
+
+        const result: GroundedSearchResult = {
+            text: response.text,
+            sources: uniqueSources,
+        };
+        return result;
+    },
+
+    generateWithMaps: async (prompt, coords, settings, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.text;
+
+        const requestConfig: any = {
+            ...samplingConfig(settings),
+            tools: [{googleMaps: {}}],
+        };
+
+        if (coords) {
+            requestConfig.toolConfig = {
+                retrievalConfig: {
+                    latLng: {
+                        latitude: coords.latitude,
+                        longitude: coords.longitude,
+                    }
+                }
+            };
+        }
+
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: requestConfig,
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+
+        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        const places = groundingChunks
+            .filter((chunk: any): chunk is { maps: { uri: string; title?: string } } => !!chunk?.maps?.uri)
+            .map((chunk: { maps: { uri: string; title?: string } }) => ({
+                uri: chunk.maps.uri,
+                title: chunk.maps.title || 'Untitled Place',
+            }));
+
+        const uniquePlaces = Array.from(new Map<string, { uri: string; title: string; }>(places.map(item => [item.uri, item])).values());
+
+        const result: GroundedMapsResult = {
+            text: response.text,
+            places: uniquePlaces,
+        };
+        return result;
+    },
+
+    // --- VIDEO GENERATION ---
+    generateVideo: async ({ prompt, imageBase64, mimeType, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.video;
+
+        // The type for this payload is complex, so using 'any' is pragmatic here.
+        const requestPayload: any = {
+            model,
+            config: {
+                numberOfVideos: 1,
+                resolution: '720p',
+                aspectRatio: '16:9',
+            },
+        };
+
+        if (prompt) {
+            requestPayload.prompt = prompt;
+        }
+
+        if (imageBase64 && mimeType) {
+            requestPayload.image = {
+                imageBytes: imageBase64,
+                mimeType: mimeType,
+            };
+        }
+
+        const operation = await ai.models.generateVideos(requestPayload);
+        meter?.({ model, media: 1 });
+        return operation;
+    },
+
+    checkVideoOperation: async (operation) => {
+        const ai = getGenAI();
+        return await ai.operations.getVideosOperation({ operation });
+    },
+
+    // --- FILES ---
+    // Audio, video and PDFs are processed after the upload; a model can only read them
+    // once that is done.
+    uploadFile: async ({ file, mimeType, displayName, signal }) => {
+        const ai = getGenAI();
+        let uploaded = await ai.files.upload({ file, config: { mimeType, displayName, abortSignal: signal } });
+        while (uploaded.state === FileState.PROCESSING) {
+            await new Promise(resolve => setTimeout(resolve, FILE_POLL_MS));
+            signal?.throwIfAborted();
+            uploaded = await ai.files.get({ name: uploaded.name, config: { abortSignal: signal } });
+        }
+        if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+            throw new AiError('unknown', `Gemini could not process the uploaded file: ${uploaded.error?.message || uploaded.state}`);
+        }
+        return {
+            uri: uploaded.uri,
+            mimeType: uploaded.mimeType || mimeType,
+            expiresAt: Date.parse(uploaded.expirationTime || '') || Date.now() + FILE_TTL_MS,
+        };
+    },
+
+    // --- AUDIO ---
+    transcribeAudio: async ({ audioBase64, mimeType, signal, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.text;
+        const audioPart = {
+            inlineData: {
+                mimeType: mimeType,
+                data: audioBase64,
+            },
+        };
+        const textPart = { text: "Transcribe this audio accurately." };
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts: [audioPart, textPart] },
+            config: { ...samplingConfig(settings), abortSignal: signal },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+        return response.text;
+    },
+
+    generateSpeech: async ({ text, voice, settings }, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.speech;
+        const response = await ai.models.generateContent({
+            model,
+            contents: [{ parts: [{ text: text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: voice },
+                    },
+                },
+            },
+        });
+        reportUsage(meter, model, response);
+        assertNotBlocked(response);
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        return base64Audio || null;
+    },
+
+    // --- LIVE CHAT (AUDIO) ---
+    // Live sessions are billed by audio time, which the SDK doesn't report per session;
+    // only the model is recorded.
+    connectLive: async (callbacks, settings, meter) => {
+        const ai = getGenAI();
+        const model = settings?.model || MODELS.live;
+        const session = await ai.live.connect({
+            model,
+            callbacks: callbacks,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+                },
+            },
+        });
+        meter?.({ model });
+        return session;
+    },
+};
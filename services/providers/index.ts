@@ -0,0 +1,47 @@
+import { AiError } from '../aiErrors';
+import { translate } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { PROVIDER_CONFIG } from './config';
+import { geminiProvider } from './geminiProvider';
+import { withMetering } from './metering';
+import { mockProvider } from './mockProvider';
+import { openaiCompatibleProvider } from './openaiCompatibleProvider';
+import type { AiProvider, ProviderId } from './types';
+
+export type * from './types';
+
+const PROVIDERS: Record<ProviderId, AiProvider> = {
+    gemini: geminiProvider,
+    openai: openaiCompatibleProvider,
+    mock: mockProvider,
+};
+
+// The feature currently on screen. App.tsx keeps this in sync so that the service
+// functions can pick the configured provider without every component passing its id.
+let activeFeatureId: string | null = null;
+
+export const setActiveFeature = (featureId: string | null) => {
+    activeFeatureId = featureId;
+};
+
+export const getActiveFeature = () => activeFeatureId;
+
+export const getProviderId = (featureId: string | null = activeFeatureId): ProviderId =>
+    (featureId && PROVIDER_CONFIG.featureProviders[featureId]) || PROVIDER_CONFIG.defaultProvider;
+
+// Calls through the returned provider are recorded in the usage ledger under `featureId`.
+export const getProvider = (featureId: string | null = activeFeatureId): AiProvider =>
+    withMetering(PROVIDERS[getProviderId(featureId)], featureId);
+
+// Narrows an optional provider capability to a callable one, or throws a readable error.
+export const requireCapability = <K extends keyof AiProvider>(
+    provider: AiProvider,
+    capability: K,
+    label: MessageKey,
+): NonNullable<AiProvider[K]> => {
+    const fn = provider[capability];
+    if (!fn) {
+        throw new AiError('unsupported', translate('errors.unsupported', { capability: translate(label), provider: provider.id }));
+    }
+    return fn as NonNullable<AiProvider[K]>;
+};
@@ -0,0 +1,108 @@
+import { assertWithinDailyLimit, recordUsage } from '../usageLedger';
+import type { UsageEntry } from '../../types';
+import type { AiProvider, ChatSession, UsageMeter, UsageReport } from './types';
+
+// Wraps a provider so every call is checked against the daily limit first and then
+// recorded in the usage ledger with its feature, latency and the usage the backend
+// reported. Optional capabilities are only added when the provider has them, so
+// `requireCapability` keeps working on the wrapped provider.
+export const withMetering = (provider: AiProvider, featureId: string | null): AiProvider => {
+    const record = (operation: string, startedAt: number, report: UsageReport | undefined, status: UsageEntry['status']) => {
+        recordUsage({
+            timestamp: startedAt,
+            featureId,
+            provider: provider.id,
+            operation,
+            model: report?.model ?? '',
+            promptTokens: report?.promptTokens ?? 0,
+            responseTokens: report?.responseTokens ?? 0,
+            media: report?.media ?? 0,
+            estimated: report?.estimated ?? false,
+            latencyMs: Date.now() - startedAt,
+            status,
+        }).catch(error => console.error('Failed to record usage:', error));
+    };
+
+    const failureStatus = (signal?: AbortSignal): UsageEntry['status'] => (signal?.aborted ? 'aborted' : 'error');
+
+    const track = async <T,>(operation: string, signal: AbortSignal | undefined, run: (meter: UsageMeter) => Promise<T>): Promise<T> => {
+        await assertWithinDailyLimit();
+        const startedAt = Date.now();
+        let report: UsageReport | undefined;
+        try {
+            const result = await run(r => { report = r; });
+            record(operation, startedAt, report, 'ok');
+            return result;
+        } catch (error) {
+            record(operation, startedAt, report, failureStatus(signal));
+            throw error;
+        }
+    };
+
+    // A reply is recorded once its stream ends. A stream the caller stops reading early
+    // counts as aborted.
+    const meterChat = (chat: ChatSession): ChatSession => ({
+        sendMessageStream: async (params, meter) => {
+            await assertWithinDailyLimit();
+            const startedAt = Date.now();
+            let report: UsageReport | undefined;
+            let stream: AsyncGenerator<{ text: string }>;
+            try {
+                stream = await chat.sendMessageStream(params, r => {
+                    report = r;
+                    meter?.(r);
+                });
+            } catch (error) {
+                record('chat', startedAt, report, failureStatus(params.signal));
+                throw error;
+            }
+            return (async function* () {
+                let status: UsageEntry['status'] = 'aborted';
+                try {
+                    yield* stream;
+                    status = params.signal?.aborted ? 'aborted' : 'ok';
+                } catch (error) {
+                    status = failureStatus(params.signal);
+                    throw error;
+                } finally {
+                    record('chat', startedAt, report, status);
+                }
+            })();
+        },
+        getHistory: () => chat.getHistory(),
+    });
+
+    const metered: AiProvider = {
+        id: provider.id,
+        generateText: request => track('generateText', request.signal, meter => provider.generateText(request, meter)),
+        generateJson: request => track('generateJson', request.signal, meter => provider.generateJson(request, meter)),
+        createChat: options => meterChat(provider.createChat(options)),
+        generateImages: request => track('generateImages', undefined, meter => provider.generateImages(request, meter)),
+        generateSpeech: request => track('generateSpeech', undefined, meter => provider.generateSpeech(request, meter)),
+        transcribeAudio: request => track('transcribeAudio', undefined, meter => provider.transcribeAudio(request, meter)),
+        connectLive: (callbacks, settings) => track('connectLive', undefined, meter => provider.connectLive(callbacks, settings, meter)),
+    };
+
+    const { editImage, generateWithSearch, generateWithMaps, generateVideo, checkVideoOperation, uploadFile } = provider;
+    if (editImage) {
+        metered.editImage = request => track('editImage', undefined, meter => editImage(request, meter));
+    }
+    if (generateWithSearch) {
+        metered.generateWithSearch = (prompt, settings) => track('generateWithSearch', undefined, meter => generateWithSearch(prompt, settings, meter));
+    }
+    if (generateWithMaps) {
+        metered.generateWithMaps = (prompt, coords, settings) => track('generateWithMaps', undefined, meter => generateWithMaps(prompt, coords, settings, meter));
+    }
+    if (generateVideo) {
+        metered.generateVideo = request => track('generateVideo', undefined, meter => generateVideo(request, meter));
+    }
+    // Polling a video that is already being generated isn't a new request.
+    if (checkVideoOperation) {
+        metered.checkVideoOperation = checkVideoOperation;
+    }
+    // Neither is uploading a file; its tokens are counted by the request that uses it.
+    if (uploadFile) {
+        metered.uploadFile = uploadFile;
+    }
+    return metered;
+};
@@ -0,0 +1,245 @@
+import { LiveServerMessage } from '@google/genai';
+import { encode, estimateTokens } from '../../utils/helpers';
+import { translate } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type { AiProvider, ChatTurn, ContentPart, MessageInput, UsageMeter } from './types';
+
+// Offline backend for demos and tests. Every response is derived from the request
+// content, so the same input always produces the same output and nothing touches
+// the network.
+
+const MOCK_MODEL = 'mock';
+const STREAM_CHUNK_DELAY_MS = 30;
+const SPEECH_SAMPLE_RATE = 24000;
+// Uploads "expire" at a fixed time far ahead, so they stay usable and the same file
+// always gets the same result.
+const UPLOAD_EXPIRES_AT = Date.UTC(2100, 0, 1);
+
+// In the UI language, like real replies (see services/i18n.ts).
+const SCRIPTED_REPLIES: MessageKey[] = ['mock.replies.simulated', 'mock.replies.offline', 'mock.replies.development'];
+
+// FNV-1a hash; small and stable across runs, which is all we need for picking fixtures.
+const hashString = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hashBytes = (bytes: Uint8Array) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const inputToText = (input: MessageInput) => {
+    if (typeof input === 'string') return input;
+    return input.map((part: ContentPart) => {
+        if ('text' in part) return part.text;
+        return `[${'inlineData' in part ? part.inlineData.mimeType : part.fileData.mimeType}]`;
+    }).join(' ');
+};
+
+const summarize = (text: string, max = 80) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > max ? `${singleLine.slice(0, max)}…` : singleLine;
+};
+
+const scriptedReply = (input: MessageInput, systemInstruction?: string) => {
+    const text = inputToText(input);
+    const reply = translate(SCRIPTED_REPLIES[hashString(`${systemInstruction || ''}|${text}`) % SCRIPTED_REPLIES.length]);
+    return `${reply}\n\n> ${summarize(text) || translate('mock.emptyMessage')}`;
+};
+
+// Estimated like a backend that doesn't count tokens, so the usage dashboard has data offline.
+const reportUsage = (meter: UsageMeter | undefined, prompt: string, reply: string, media?: number) => {
+    meter?.({ model: MOCK_MODEL, promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(reply), media, estimated: true });
+};
+
+// Rejects with the signal's AbortError as soon as it fires, like a cancelled fetch.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Splits text into word-sized chunks (keeping whitespace) to imitate a token stream.
+async function* streamText(text: string, signal?: AbortSignal) {
+    for (const chunk of text.match(/\S+\s*/g) || [text]) {
+        await delay(STREAM_CHUNK_DELAY_MS, signal);
+        yield { text: chunk };
+    }
+}
+
+// Builds a value that satisfies a Gemini `responseSchema`.
+const mockFromSchema = (schema: any, key = 'value', index = 0): any => {
+    const type = String(schema?.type || 'STRING').toUpperCase();
+    switch (type) {
+        case 'OBJECT':
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([name, child]) => [name, mockFromSchema(child, name, index)])
+            );
+        case 'ARRAY':
+            return [0, 1].map(i => mockFromSchema(schema.items, key, i));
+        case 'INTEGER':
+            return index + 1;
+        case 'NUMBER':
+            return index + 0.5;
+        case 'BOOLEAN':
+            return index % 2 === 0;
+        default:
+            if (Array.isArray(schema?.enum) && schema.enum.length > 0) {
+                return schema.enum[index % schema.enum.length];
+            }
+            return `Mock ${key}${index > 0 ? ` ${index + 1}` : ''}`;
+    }
+};
+
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const placeholderImage = (prompt: string, index: number) => {
+    const hue = (hashString(prompt) + index * 47) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,25%)"/>`
+        + `</linearGradient></defs><rect width="512" height="512" fill="url(#g)"/>`
+        + `<text x="256" y="240" font-family="sans-serif" font-size="28" fill="#fff" text-anchor="middle">MOCK IMAGE ${index + 1}</text>`
+        + `<text x="256" y="284" font-family="sans-serif" font-size="16" fill="#fff" text-anchor="middle">${escapeXml(summarize(prompt, 40))}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// 16-bit mono PCM sine tone, the same format the Gemini TTS and Live models return.
+const pcmTone = (seconds: number, frequency: number) => {
+    const frameCount = Math.floor(SPEECH_SAMPLE_RATE * seconds);
+    const samples = new Int16Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        const fade = Math.min(1, i / 2400, (frameCount - i) / 2400);
+        samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SPEECH_SAMPLE_RATE) * 0.2 * fade * 32767);
+    }
+    return encode(new Uint8Array(samples.buffer));
+};
+
+export const mockProvider: AiProvider = {
+    id: 'mock',
+
+    generateText: async ({ contents, systemInstruction, signal }, meter) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        const reply = scriptedReply(contents, systemInstruction);
+        reportUsage(meter, inputToText(contents), reply);
+        return reply;
+    },
+
+    generateJson: async ({ contents, schema, signal }, meter) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        const json = JSON.stringify(mockFromSchema(schema));
+        reportUsage(meter, inputToText(contents), json);
+        return json;
+    },
+
+    createChat: ({ systemInstruction, history = [] }) => {
+        const turns: ChatTurn[] = [...history];
+        return {
+            sendMessageStream: async ({ message, signal }, meter) => {
+                const reply = scriptedReply(message, systemInstruction);
+                return (async function* () {
+                    yield* streamText(reply, signal);
+                    reportUsage(meter, inputToText(message), reply);
+                    turns.push({ role: 'user', parts: typeof message === 'string' ? [{ text: message }] : message });
+                    turns.push({ role: 'model', parts: [{ text: reply }] });
+                })();
+            },
+            getHistory: () => [...turns],
+        };
+    },
+
+    generateImages: async ({ prompt, count, signal }, meter) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        reportUsage(meter, prompt, '', count);
+        return Array.from({ length: count }, (_, i) => placeholderImage(prompt, i));
+    },
+
+    editImage: async ({ prompt, signal }, meter) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        reportUsage(meter, prompt, '', 1);
+        return placeholderImage(prompt, 0);
+    },
+
+    generateWithSearch: async (prompt, _settings, meter) => {
+        const text = scriptedReply(prompt);
+        reportUsage(meter, prompt, text);
+        return {
+            text,
+            sources: [
+                { uri: 'https://example.com/mock-source-1', title: 'Mock Source 1' },
+                { uri: 'https://example.com/mock-source-2', title: 'Mock Source 2' },
+            ],
+        };
+    },
+
+    generateWithMaps: async (prompt, _coords, _settings, meter) => {
+        const text = scriptedReply(prompt);
+        reportUsage(meter, prompt, text);
+        return {
+            text,
+            places: [
+                { uri: 'https://maps.google.com/?q=Monas+Jakarta', title: 'Mock Place: Monas' },
+                { uri: 'https://maps.google.com/?q=Kota+Tua+Jakarta', title: 'Mock Place: Kota Tua' },
+            ],
+        };
+    },
+
+    generateSpeech: async ({ text }, meter) => {
+        const seconds = Math.min(3, 0.5 + text.length / 40);
+        reportUsage(meter, text, '');
+        return pcmTone(seconds, 220 + (hashString(text) % 220));
+    },
+
+    uploadFile: async ({ file, mimeType, signal }) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        const content = hashBytes(new Uint8Array(await file.arrayBuffer()));
+        return { uri: `mock://files/${content.toString(16)}-${file.size}`, mimeType, expiresAt: UPLOAD_EXPIRES_AT };
+    },
+
+    transcribeAudio: async ({ audioBase64, signal }, meter) => {
+        await delay(STREAM_CHUNK_DELAY_MS * 10, signal);
+        const transcript = translate('mock.transcript', { size: Math.round(audioBase64.length * 0.75 / 1024) });
+        reportUsage(meter, '', transcript);
+        return transcript;
+    },
+
+    // Answers with a short tone after connecting so the audio pipeline can be exercised offline.
+    connectLive: async (callbacks, _settings, meter) => {
+        let closed = false;
+        meter?.({ model: MOCK_MODEL });
+        setTimeout(() => {
+            if (closed) return;
+            callbacks.onopen();
+            const message = new LiveServerMessage();
+            message.serverContent = {
+                modelTurn: { parts: [{ inlineData: { data: pcmTone(1, 330), mimeType: 'audio/pcm;rate=24000' } }] },
+            };
+            callbacks.onmessage(message);
+        }, 300);
+        return {
+            sendRealtimeInput: () => {},
+            close: () => {
+                if (closed) return;
+                closed = true;
+                callbacks.onclose(new CloseEvent('close'));
+            },
+        };
+    },
+};
@@ -0,0 +1,262 @@
+import { decode, encode, estimateTokens } from '../../utils/helpers';
+import { AiError, errorForStatus } from '../aiErrors';
+import { translate } from '../i18n';
+import { PROVIDER_CONFIG } from './config';
+import type { AiProvider, ChatTurn, ContentPart, GenerationSettings, MessageInput, UsageMeter } from './types';
+
+// Implementation for any server that speaks the OpenAI REST API
+// (OpenAI itself, LM Studio, Ollama, vLLM, LocalAI, ...).
+
+const { baseUrl, apiKey, models } = PROVIDER_CONFIG.openai;
+
+const OPENAI_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+type OpenAiContent = string | Array<
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'input_audio'; input_audio: { data: string; format: string } }
+    | { type: 'file'; file: { filename: string; file_data: string } }
+>;
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: OpenAiContent;
+}
+
+interface OpenAiUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+const authHeaders = (): Record<string, string> => (apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+
+const request = async (path: string, init: RequestInit): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { ...authHeaders(), ...(init.headers || {}) },
+    });
+    if (!response.ok) {
+        let detail = response.statusText;
+        try {
+            const body = await response.json();
+            detail = body?.error?.message || detail;
+        } catch {
+            // Non-JSON error body; keep the status text.
+        }
+        throw errorForStatus(response.status, `OpenAI-compatible request to ${path} failed (${response.status}): ${detail}`);
+    }
+    return response;
+};
+
+const postJson = (path: string, body: unknown, signal?: AbortSignal) => request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+});
+
+const toOpenAiContent = (input: MessageInput): OpenAiContent => {
+    if (typeof input === 'string') return input;
+    return input.map((part: ContentPart) => {
+        if ('text' in part) {
+            return { type: 'text' as const, text: part.text };
+        }
+        // Only Gemini can upload files (see AiProvider.uploadFile).
+        if ('fileData' in part) {
+            throw new AiError('unsupported', translate('errors.unsupported', { capability: translate('errors.capabilities.fileUpload'), provider: 'openai' }));
+        }
+        const { mimeType, data } = part.inlineData;
+        if (mimeType.startsWith('text/')) {
+            return { type: 'text' as const, text: new TextDecoder().decode(decode(data)) };
+        }
+        if (mimeType === 'application/pdf') {
+            return { type: 'file' as const, file: { filename: 'document.pdf', file_data: `data:${mimeType};base64,${data}` } };
+        }
+        if (mimeType.startsWith('audio/')) {
+            return { type: 'input_audio' as const, input_audio: { data, format: mimeType.split('/')[1].split(';')[0] } };
+        }
+        return { type: 'image_url' as const, image_url: { url: `data:${mimeType};base64,${data}` } };
+    });
+};
+
+const toMessages = (contents: MessageInput, systemInstruction?: string, history: ChatTurn[] = []): OpenAiMessage[] => {
+    const messages: OpenAiMessage[] = [];
+    if (systemInstruction) {
+        messages.push({ role: 'system', content: systemInstruction });
+    }
+    for (const turn of history) {
+        messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content: toOpenAiContent(turn.parts) });
+    }
+    messages.push({ role: 'user', content: toOpenAiContent(contents) });
+    return messages;
+};
+
+// Converts a Gemini `responseSchema` (which uses upper-case `Type` values) into a plain JSON Schema.
+const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const converted: any = {};
+    if (schema.type) converted.type = String(schema.type).toLowerCase();
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) converted.enum = schema.enum;
+    if (schema.required) converted.required = schema.required;
+    if (schema.items) converted.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+    }
+    return converted;
+};
+
+// Sampling settings as chat completion parameters. The model always stays the configured
+// one, since the settings name Gemini models. Unset values are dropped by JSON.stringify.
+const samplingParams = (settings: GenerationSettings = {}) => ({
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxOutputTokens,
+});
+
+const reportUsage = (meter: UsageMeter | undefined, model: string, usage: OpenAiUsage | undefined) => {
+    meter?.({ model, promptTokens: usage?.prompt_tokens, responseTokens: usage?.completion_tokens });
+};
+
+// Local servers don't always count tokens; estimate from the text so usage isn't recorded as zero.
+const estimateUsage = (meter: UsageMeter | undefined, messages: OpenAiMessage[], reply: string) => {
+    const prompt = messages.map(m => (typeof m.content === 'string' ? m.content : m.content.map(c => ('text' in c ? c.text : '')).join(' '))).join('\n');
+    meter?.({ model: models.text, promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(reply), estimated: true });
+};
+
+const completeChat = async (messages: OpenAiMessage[], extra: Record<string, unknown> = {}, signal?: AbortSignal, meter?: UsageMeter): Promise<string> => {
+    const response = await postJson('/chat/completions', { model: models.text, messages, ...extra }, signal);
+    const body = await response.json();
+    const reply = body?.choices?.[0]?.message?.content ?? '';
+    if (body?.usage) reportUsage(meter, models.text, body.usage);
+    else estimateUsage(meter, messages, reply);
+    return reply;
+};
+
+// Parses a server-sent-events body and yields the `delta.content` of each chunk. Servers
+// that honour `include_usage` send the totals in a final chunk, which goes to `onUsage`.
+async function* streamChat(messages: OpenAiMessage[], settings?: GenerationSettings, signal?: AbortSignal, onUsage?: (usage: OpenAiUsage) => void): AsyncGenerator<string> {
+    const response = await postJson('/chat/completions', {
+        ...samplingParams(settings),
+        model: models.text,
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+    }, signal);
+    if (!response.body) {
+        throw new Error('OpenAI-compatible server returned an empty stream.');
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+                const data = trimmed.slice(5).trim();
+                if (data === '[DONE]') return;
+                const chunk = JSON.parse(data);
+                if (chunk?.usage) onUsage?.(chunk.usage);
+                const delta = chunk?.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    } finally {
+        // Closes the HTTP stream when reading stops early (an abort, a bad chunk or [DONE]).
+        reader.cancel().catch(() => {});
+    }
+}
+
+const toParts = (input: MessageInput): ContentPart[] => (typeof input === 'string' ? [{ text: input }] : input);
+
+export const openaiCompatibleProvider: AiProvider = {
+    id: 'openai',
+
+    generateText: async ({ contents, systemInstruction, signal, settings }, meter) => {
+        return completeChat(toMessages(contents, systemInstruction), samplingParams(settings), signal, meter);
+    },
+
+    generateJson: async ({ contents, schema, systemInstruction, signal, settings }, meter) => {
+        return completeChat(toMessages(contents, systemInstruction), {
+            ...samplingParams(settings),
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: toJsonSchema(schema) },
+            },
+        }, signal, meter);
+    },
+
+    // The chat history is kept client-side because the chat completions API is stateless.
+    createChat: ({ systemInstruction, history = [], settings }) => {
+        const turns: ChatTurn[] = [...history];
+        return {
+            sendMessageStream: async ({ message, signal }, meter) => {
+                const messages = toMessages(message, systemInstruction, turns);
+                return (async function* () {
+                    let reply = '';
+                    let usage: OpenAiUsage | undefined;
+                    for await (const text of streamChat(messages, settings, signal, u => { usage = u; })) {
+                        reply += text;
+                        yield { text };
+                    }
+                    if (usage) reportUsage(meter, models.text, usage);
+                    else estimateUsage(meter, messages, reply);
+                    turns.push({ role: 'user', parts: toParts(message) });
+                    turns.push({ role: 'model', parts: [{ text: reply }] });
+                })();
+            },
+            getHistory: () => [...turns],
+        };
+    },
+
+    generateImages: async ({ prompt, count, signal }, meter) => {
+        const response = await postJson('/images/generations', {
+            model: models.image,
+            prompt,
+            n: count,
+            size: '1024x1024',
+            response_format: 'b64_json',
+        }, signal);
+        const body = await response.json();
+        meter?.({ model: models.image, media: body?.data?.length ?? 0 });
+        return (body?.data || []).map((image: { b64_json?: string; url?: string }) =>
+            image.b64_json ? `data:image/png;base64,${image.b64_json}` : image.url
+        ).filter(Boolean);
+    },
+
+    // Requests raw 24kHz 16-bit PCM so the output matches what the Gemini TTS model returns.
+    generateSpeech: async ({ text, voice }, meter) => {
+        const response = await postJson('/audio/speech', {
+            model: models.speech,
+            input: text,
+            voice: OPENAI_VOICES.includes(voice.toLowerCase()) ? voice.toLowerCase() : OPENAI_VOICES[0],
+            response_format: 'pcm',
+        });
+        const buffer = await response.arrayBuffer();
+        meter?.({ model: models.speech, promptTokens: estimateTokens(text), estimated: true });
+        return buffer.byteLength ? encode(new Uint8Array(buffer)) : null;
+    },
+
+    transcribeAudio: async ({ audioBase64, mimeType, signal }, meter) => {
+        const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm';
+        const form = new FormData();
+        form.append('file', new Blob([decode(audioBase64)], { type: mimeType }), `audio.${extension}`);
+        form.append('model', models.transcription);
+        const response = await request('/audio/transcriptions', { method: 'POST', body: form, signal });
+        const body = await response.json();
+        meter?.({ model: models.transcription, responseTokens: estimateTokens(body?.text ?? ''), estimated: true });
+        return body?.text ?? '';
+    },
+
+    connectLive: async () => {
+        throw new AiError('unsupported', translate('errors.unsupported', { capability: translate('errors.capabilities.liveChat'), provider: 'openai' }));
+    },
+};
@@ -0,0 +1,170 @@
+import type { Blob as GenAiBlob, GenerateVideosOperation, LiveServerMessage } from "@google/genai";
+
+// Identifiers for the AI backends the suite can talk to.
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// A single piece of multimodal content. This is intentionally a subset of the
+// Gemini `Part` type so Gemini requests can pass it through untouched, while
+// other providers translate it into their own wire format.
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } }
+    // A file uploaded with `uploadFile`, referenced instead of sent with the request.
+    | { fileData: { mimeType: string; fileUri: string } };
+
+export type MessageInput = string | ContentPart[];
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    parts: ContentPart[];
+}
+
+export interface ChatStreamChunk {
+    text: string;
+}
+
+// What a backend reported about one call. Counts are left out when it didn't say.
+export interface UsageReport {
+    model: string;
+    promptTokens?: number;
+    responseTokens?: number;
+    // Images or videos produced.
+    media?: number;
+    // The token counts were estimated from text length rather than reported.
+    estimated?: boolean;
+}
+
+// Passed as the last argument of every provider call (see services/providers/metering.ts);
+// providers call it with the usage the backend returned.
+export type UsageMeter = (report: UsageReport) => void;
+
+// Per-call model and sampling settings (see services/modelSettings.ts); unset fields use
+// the provider's defaults. `model` names a Gemini model, so other providers ignore it and
+// keep their configured models.
+export interface GenerationSettings {
+    model?: string;
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+}
+
+// Provider-neutral chat session. The shape mirrors the Gemini `Chat` API that the
+// chat features were originally written against. Aborting `signal` stops the request
+// and makes the stream throw an `AbortError`.
+export interface ChatSession {
+    // `meter` gets the tokens the message and its reply cost, once the backend reports them.
+    sendMessageStream(params: { message: MessageInput; signal?: AbortSignal }, meter?: UsageMeter): Promise<AsyncGenerator<ChatStreamChunk>>;
+    getHistory(): ChatTurn[];
+}
+
+export interface ChatOptions {
+    systemInstruction?: string;
+    history?: ChatTurn[];
+    settings?: GenerationSettings;
+}
+
+export interface TextRequest {
+    contents: MessageInput;
+    systemInstruction?: string;
+    signal?: AbortSignal;
+    settings?: GenerationSettings;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: any;
+}
+
+export interface ImageRequest {
+    prompt: string;
+    count: number;
+    signal?: AbortSignal;
+    settings?: GenerationSettings;
+}
+
+export interface ImageEditRequest {
+    prompt: string;
+    imageBase64: string;
+    mimeType: string;
+    signal?: AbortSignal;
+    settings?: GenerationSettings;
+}
+
+export interface SpeechRequest {
+    text: string;
+    voice: string;
+    settings?: GenerationSettings;
+}
+
+export interface TranscriptionRequest {
+    audioBase64: string;
+    mimeType: string;
+    signal?: AbortSignal;
+    settings?: GenerationSettings;
+}
+
+export interface FileUploadRequest {
+    file: Blob;
+    mimeType: string;
+    displayName?: string;
+    signal?: AbortSignal;
+}
+
+export interface UploadedFile {
+    uri: string;
+    mimeType: string;
+    // The provider deletes the file after this time (ms since epoch).
+    expiresAt: number;
+}
+
+export interface VideoRequest {
+    prompt: string;
+    imageBase64?: string;
+    mimeType?: string;
+    settings?: GenerationSettings;
+}
+
+export interface LiveCallbacks {
+    onopen: () => void;
+    onmessage: (message: LiveServerMessage) => Promise<void>;
+    onerror: (e: ErrorEvent) => void;
+    onclose: (e: CloseEvent) => void;
+}
+
+export interface LiveSession {
+    sendRealtimeInput(input: { media: GenAiBlob }): void;
+    close(): void;
+}
+
+// Type definition for grounded search results
+export interface GroundedSearchResult {
+    text: string;
+    sources: { uri: string; title: string; }[];
+}
+
+// Type definition for grounded maps results
+export interface GroundedMapsResult {
+    text: string;
+    places: { uri: string; title: string; }[];
+}
+
+// Every backend implements the core capabilities. Grounding, image editing and
+// video generation are Gemini-specific, so they are optional and callers must go
+// through `requireCapability` in the service layer.
+export interface AiProvider {
+    readonly id: ProviderId;
+    generateText(request: TextRequest, meter?: UsageMeter): Promise<string>;
+    // Returns the raw JSON text; parsing is handled by the service layer.
+    generateJson(request: JsonRequest, meter?: UsageMeter): Promise<string>;
+    createChat(options: ChatOptions): ChatSession;
+    generateImages(request: ImageRequest, meter?: UsageMeter): Promise<string[]>;
+    generateSpeech(request: SpeechRequest, meter?: UsageMeter): Promise<string | null>;
+    transcribeAudio(request: TranscriptionRequest, meter?: UsageMeter): Promise<string>;
+    connectLive(callbacks: LiveCallbacks, settings?: GenerationSettings, meter?: UsageMeter): Promise<LiveSession>;
+    editImage?(request: ImageEditRequest, meter?: UsageMeter): Promise<string | null>;
+    generateWithSearch?(prompt: string, settings?: GenerationSettings, meter?: UsageMeter): Promise<GroundedSearchResult>;
+    generateWithMaps?(prompt: string, coords?: { latitude: number; longitude: number }, settings?: GenerationSettings, meter?: UsageMeter): Promise<GroundedMapsResult>;
+    generateVideo?(request: VideoRequest, meter?: UsageMeter): Promise<GenerateVideosOperation>;
+    checkVideoOperation?(operation: GenerateVideosOperation): Promise<GenerateVideosOperation>;
+    // Stores a file too large to send inline, for use as a `fileData` part.
+    uploadFile?(request: FileUploadRequest): Promise<UploadedFile>;
+}
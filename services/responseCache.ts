@@ -0,0 +1,81 @@
+import { STORES, openDatabase, withStore } from './db';
+
+// Content-addressed cache for one-shot generations. Requests that opt in (see
+// `RequestOptions.cache` in services/geminiService.ts) are keyed on a hash of everything
+// that shapes the answer, so submitting the same input twice doesn't bill the API twice.
+// Entries expire after a week, and the oldest are dropped once the cache outgrows its caps.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TTL_MS = 7 * DAY_MS;
+const MAX_BYTES = 5 * 1024 * 1024;
+const MAX_ENTRIES = 500;
+
+// What the search index (services/searchIndex.ts) shows for a cached generation.
+export interface CachedResponseSource {
+    featureId: string | null;
+    prompt: string;
+}
+
+export interface CachedResponse {
+    key: string;
+    value: unknown;
+    createdAt: number;
+    // UTF-8 size of the JSON-encoded value, counted against MAX_BYTES.
+    size: number;
+    // Missing on entries cached before generations were searchable.
+    source?: CachedResponseSource;
+}
+
+// SHA-256 of the JSON-encoded request, as hex.
+export const cacheKey = async (request: unknown): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(request)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isExpired = (entry: CachedResponse) => Date.now() - entry.createdAt > TTL_MS;
+
+// The cached value for `key` and when it was generated, or null when there is none.
+export const getCachedResponse = async <T,>(key: string): Promise<{ value: T; createdAt: number } | null> => {
+    const entry: CachedResponse | undefined = await withStore(STORES.responses, 'readonly', store => store.get(key));
+    if (!entry || isExpired(entry)) return null;
+    return { value: entry.value as T, createdAt: entry.createdAt };
+};
+
+// Drops expired entries, then the oldest ones until the cache fits its caps.
+const evict = async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.responses, 'readwrite');
+    const store = transaction.objectStore(STORES.responses);
+    const request = store.index('createdAt').getAll();
+    request.onsuccess = () => {
+        const entries: CachedResponse[] = request.result;
+        let count = entries.length;
+        let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries) {
+            if (!isExpired(entry) && count <= MAX_ENTRIES && bytes <= MAX_BYTES) break;
+            store.delete(entry.key);
+            count -= 1;
+            bytes -= entry.size;
+        }
+    };
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const putCachedResponse = async (key: string, value: unknown, source?: CachedResponseSource) => {
+    const size = new TextEncoder().encode(JSON.stringify(value)).byteLength;
+    if (size > MAX_BYTES) return;
+    const entry: CachedResponse = { key, value, createdAt: Date.now(), size, source };
+    await withStore(STORES.responses, 'readwrite', store => store.put(entry));
+    await evict();
+};
+
+// Every entry that hasn't expired, oldest first.
+export const listCachedResponses = async (): Promise<CachedResponse[]> => {
+    const entries: CachedResponse[] = await withStore(STORES.responses, 'readonly', store => store.index('createdAt').getAll());
+    return entries.filter(entry => !isExpired(entry));
+};
+
+export const clearResponseCache = () => withStore(STORES.responses, 'readwrite', store => store.clear());
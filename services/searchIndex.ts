@@ -0,0 +1,235 @@
+import { listConversations } from './conversationStore';
+import { listCachedResponses } from './responseCache';
+import type { CachedResponse } from './responseCache';
+import type { Conversation } from '../types';
+
+// Client-side full-text search over saved conversations (one document per message) and
+// cached generations (see services/responseCache.ts). The inverted index lives in memory;
+// `refreshSearchIndex` brings it up to date, re-reading only conversations that changed,
+// so searching stays fast with thousands of messages.
+
+export interface SearchDocument {
+    id: string;
+    kind: 'message' | 'generation';
+    featureId: string | null;
+    personaId?: string;
+    // The conversation title, or the prompt of a generation.
+    title: string;
+    text: string;
+    timestamp: number;
+    // Where a message is: its conversation and position in the transcript on screen.
+    conversationId?: string;
+    messageIndex?: number;
+    role?: 'user' | 'model';
+}
+
+export interface SearchFilters {
+    featureId?: string;
+    personaId?: string;
+    // Only documents from this time on.
+    since?: number;
+}
+
+export interface SnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchResult {
+    document: SearchDocument;
+    snippet: SnippetPart[];
+}
+
+const SNIPPET_LENGTH = 160;
+const MAX_RESULTS = 50;
+
+// Lowercased, without diacritics, so "kafe" finds "Kafé".
+const fold = (text: string) => text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '');
+
+const tokenize = (text: string) => fold(text).match(/[\p{L}\p{N}]+/gu) || [];
+
+const documents = new Map<string, SearchDocument>();
+// token -> document id -> occurrences
+const postings = new Map<string, Map<string, number>>();
+// document id -> its tokens, to take it out of `postings` again
+const documentTokens = new Map<string, Set<string>>();
+// What each indexed conversation looked like, to skip unchanged ones on refresh.
+const conversationVersions = new Map<string, { signature: string; documentIds: string[] }>();
+let generationIds: string[] = [];
+
+const addDocument = (document: SearchDocument, extraText = '') => {
+    const tokens = tokenize(`${document.text} ${extraText}`);
+    documents.set(document.id, document);
+    documentTokens.set(document.id, new Set(tokens));
+    for (const token of tokens) {
+        let entry = postings.get(token);
+        if (!entry) postings.set(token, entry = new Map());
+        entry.set(document.id, (entry.get(document.id) || 0) + 1);
+    }
+};
+
+const removeDocument = (id: string) => {
+    const tokens = documentTokens.get(id);
+    if (!tokens) return;
+    documents.delete(id);
+    documentTokens.delete(id);
+    for (const token of tokens) {
+        const entry = postings.get(token);
+        entry?.delete(id);
+        if (entry?.size === 0) postings.delete(token);
+    }
+};
+
+const indexConversation = (conversation: Conversation) => {
+    const documentIds: string[] = [];
+    conversation.messages.forEach((message, messageIndex) => {
+        // The welcome message and failed replies aren't anything the user said or got.
+        if (message.isError || (messageIndex === 0 && message.role === 'model')) return;
+        const attachmentNames = (message.attachments || []).map(a => a.name).join(' ');
+        if (!message.text.trim() && !attachmentNames) return;
+        const id = `message:${conversation.id}:${messageIndex}`;
+        addDocument({
+            id,
+            kind: 'message',
+            featureId: conversation.featureId,
+            personaId: conversation.personaId,
+            title: conversation.title,
+            text: message.text || attachmentNames,
+            timestamp: conversation.updatedAt,
+            conversationId: conversation.id,
+            messageIndex,
+            role: message.role,
+        }, message.text ? attachmentNames : '');
+        documentIds.push(id);
+    });
+    return documentIds;
+};
+
+// The strings in a generation's value, e.g. every field of a structured code review.
+const collectText = (value: unknown): string[] => {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(collectText);
+    if (value && typeof value === 'object') return Object.values(value).flatMap(collectText);
+    return [];
+};
+
+const indexGeneration = (entry: CachedResponse) => {
+    if (!entry.source) return null;
+    const id = `generation:${entry.key}`;
+    addDocument({
+        id,
+        kind: 'generation',
+        featureId: entry.source.featureId,
+        title: entry.source.prompt,
+        text: collectText(entry.value).join('\n\n'),
+        timestamp: entry.createdAt,
+    }, entry.source.prompt);
+    return id;
+};
+
+export const refreshSearchIndex = async () => {
+    const [conversations, generations] = await Promise.all([listConversations(), listCachedResponses()]);
+
+    const seen = new Set<string>();
+    for (const conversation of conversations) {
+        seen.add(conversation.id);
+        const signature = `${conversation.updatedAt}:${conversation.title}`;
+        const indexed = conversationVersions.get(conversation.id);
+        if (indexed?.signature === signature) continue;
+        indexed?.documentIds.forEach(removeDocument);
+        conversationVersions.set(conversation.id, { signature, documentIds: indexConversation(conversation) });
+    }
+    for (const [id, indexed] of conversationVersions) {
+        if (seen.has(id)) continue;
+        indexed.documentIds.forEach(removeDocument);
+        conversationVersions.delete(id);
+    }
+
+    // Generations are few (the cache holds at most a few hundred), so they are simply re-indexed.
+    generationIds.forEach(removeDocument);
+    generationIds = generations.map(indexGeneration).filter((id): id is string => id !== null);
+};
+
+// Features, and personas within them, that have something to search, for the filter.
+export const listIndexedSources = () => {
+    const sources = new Map<string, { featureId: string; personaId?: string }>();
+    for (const { featureId, personaId } of documents.values()) {
+        if (featureId) sources.set(`${featureId}/${personaId || ''}`, { featureId, personaId });
+    }
+    return [...sources.values()];
+};
+
+// Where one of `terms` starts a word in `text`, as [start, end) ranges of `text`.
+const findMatches = (text: string, terms: string[]) => {
+    // Folding can change the length of a character, so map folded positions back.
+    let folded = '';
+    const origins: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const part = fold(text[i]);
+        folded += part;
+        for (let j = 0; j < part.length; j++) origins.push(i);
+    }
+    origins.push(text.length);
+    const ranges: [number, number][] = [];
+    for (const term of terms) {
+        const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gu');
+        for (const match of folded.matchAll(pattern)) {
+            ranges.push([origins[match.index!], origins[match.index! + match[0].length - 1] + 1]);
+        }
+    }
+    return ranges.sort((a, b) => a[0] - b[0]);
+};
+
+// A window of the text around the first match, with every match in it highlighted.
+const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const ranges = findMatches(flat, terms);
+    const start = ranges.length > 0 ? Math.max(0, ranges[0][0] - SNIPPET_LENGTH / 4) : 0;
+    const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    const parts: SnippetPart[] = start > 0 ? [{ text: '…', match: false }] : [];
+    let position = start;
+    for (const [from, to] of ranges) {
+        if (from < position || from >= end) continue;
+        if (from > position) parts.push({ text: flat.slice(position, from), match: false });
+        parts.push({ text: flat.slice(from, Math.min(to, end)), match: true });
+        position = Math.min(to, end);
+    }
+    if (position < end) parts.push({ text: flat.slice(position, end), match: false });
+    if (end < flat.length) parts.push({ text: '…', match: false });
+    return parts;
+};
+
+// Documents containing every word of the query, as a whole word or the start of one,
+// best matches first: whole words count more than prefixes, and newer breaks ties.
+export const search = (query: string, filters: SearchFilters = {}): SearchResult[] => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+        const termScores = new Map<string, number>();
+        for (const [token, entry] of postings) {
+            if (!token.startsWith(term)) continue;
+            const weight = token === term ? 2 : 1;
+            for (const [id, count] of entry) {
+                if (scores && !scores.has(id)) continue;
+                termScores.set(id, (termScores.get(id) || 0) + weight * Math.log2(1 + count));
+            }
+        }
+        if (scores) {
+            for (const [id, score] of termScores) termScores.set(id, score + scores.get(id)!);
+        }
+        scores = termScores;
+        if (scores.size === 0) return [];
+    }
+
+    return [...scores!]
+        .map(([id, score]) => ({ document: documents.get(id)!, score }))
+        .filter(({ document }) =>
+            (!filters.featureId || document.featureId === filters.featureId)
+            && (filters.personaId === undefined || document.personaId === filters.personaId)
+            && (!filters.since || document.timestamp >= filters.since))
+        .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+        .slice(0, MAX_RESULTS)
+        .map(({ document }) => ({ document, snippet: buildSnippet(document.text, terms) }));
+};
@@ -0,0 +1,165 @@
+import { generateSpeech, getErrorMessage } from './geminiService';
+import { translate } from './i18n';
+import { decode, decodeAudioData } from '../utils/helpers';
+
+// Read-aloud for chat replies. The voice picked in Text to Speech and the "read replies
+// aloud" switch are kept in localStorage; playback is shared by every chat, so starting
+// one message stops whatever else was being read.
+
+export const VOICES = ['Kore', 'Puck', 'Zephyr', 'Charon', 'Fenrir'];
+
+export const SPEECH_STORAGE_KEY = 'yan-official:speech';
+
+// Both providers return raw 16-bit mono PCM at this rate.
+const SAMPLE_RATE = 24000;
+// Long replies are spoken in parts, so the first one starts playing sooner.
+const CHUNK_LENGTH = 1200;
+
+export interface SpeechPreferences {
+    voice: string;
+    autoRead: boolean;
+}
+
+export interface SpeechState extends SpeechPreferences {
+    // What is being read (e.g. "<conversation id>:<message index>"), or null.
+    speakingId: string | null;
+    isPreparing: boolean;
+    // The last message that could not be read, and why.
+    error: { id: string; message: string } | null;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const loadPreferences = (): SpeechPreferences => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SPEECH_STORAGE_KEY) || '{}');
+        return {
+            voice: VOICES.includes(stored?.voice) ? stored.voice : VOICES[0],
+            autoRead: stored?.autoRead === true,
+        };
+    } catch {
+        return { voice: VOICES[0], autoRead: false };
+    }
+};
+
+let state: SpeechState = { ...loadPreferences(), speakingId: null, isPreparing: false, error: null };
+
+const setState = (patch: Partial<SpeechState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+};
+
+export const subscribeToSpeech = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getSpeechState = (): SpeechState => state;
+
+const savePreferences = (patch: Partial<SpeechPreferences>) => {
+    setState(patch);
+    try {
+        localStorage.setItem(SPEECH_STORAGE_KEY, JSON.stringify({ voice: state.voice, autoRead: state.autoRead }));
+    } catch (error) {
+        console.error('Failed to save the speech settings:', error);
+    }
+};
+
+export const setSpeechVoice = (voice: string) => {
+    if (VOICES.includes(voice)) savePreferences({ voice });
+};
+
+export const setAutoRead = (autoRead: boolean) => savePreferences({ autoRead });
+
+// Picks up settings changed in another tab.
+export const reloadSpeechPreferences = () => setState(loadPreferences());
+
+// What a listener should hear of a Markdown reply: code is left out and formatting marks
+// are dropped.
+export const toSpokenText = (markdown: string) => markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~|]+/g, '')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+// Splits at sentence ends (or else spaces) so no part is longer than CHUNK_LENGTH.
+const splitIntoChunks = (text: string) => {
+    const chunks: string[] = [];
+    let rest = text;
+    while (rest.length > CHUNK_LENGTH) {
+        const window = rest.slice(0, CHUNK_LENGTH);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '), window.lastIndexOf('\n'));
+        const cut = sentenceEnd > CHUNK_LENGTH / 2 ? sentenceEnd + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : CHUNK_LENGTH;
+        chunks.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut);
+    }
+    if (rest.trim()) chunks.push(rest.trim());
+    return chunks;
+};
+
+let context: AudioContext | null = null;
+let source: AudioBufferSourceNode | null = null;
+// Identifies the latest `speak` call; an older one stops at its next step.
+let playback = 0;
+
+const play = (buffer: AudioBuffer) => new Promise<void>(resolve => {
+    source = context!.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context!.destination);
+    source.onended = () => resolve();
+    source.start();
+});
+
+export const stopSpeaking = () => {
+    playback += 1;
+    source?.stop();
+    source = null;
+    if (state.speakingId || state.isPreparing) setState({ speakingId: null, isPreparing: false });
+};
+
+// Reads `text` aloud with the chosen voice, generating the next part while one plays.
+// Resolves when it has been read or was stopped; failures end up in `error`.
+export const speak = async (id: string, text: string) => {
+    stopSpeaking();
+    const chunks = splitIntoChunks(toSpokenText(text));
+    if (chunks.length === 0) return;
+    const current = playback;
+    const { voice } = state;
+    setState({ speakingId: id, isPreparing: true, error: null });
+    try {
+        // Browsers may start the context suspended until the page has been interacted with.
+        if (!context || context.state === 'closed') context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+        if (context.state === 'suspended') await context.resume();
+        const generate = (chunk: string) => {
+            const audio = generateSpeech(`Say: ${chunk}`, voice);
+            // A part fetched ahead is dropped unawaited when reading stops.
+            audio.catch(() => {});
+            return audio;
+        };
+        let next = generate(chunks[0]);
+        for (let i = 0; i < chunks.length; i++) {
+            const audio = await next;
+            if (current !== playback) return;
+            if (i + 1 < chunks.length) next = generate(chunks[i + 1]);
+            if (!audio) throw new Error('No audio was returned.');
+            const buffer = await decodeAudioData(decode(audio), context, SAMPLE_RATE, 1);
+            if (current !== playback) return;
+            setState({ isPreparing: false });
+            await play(buffer);
+            if (current !== playback) return;
+            if (i + 1 < chunks.length) setState({ isPreparing: true });
+        }
+        source = null;
+        setState({ speakingId: null, isPreparing: false });
+    } catch (error) {
+        console.error('Failed to read the message aloud:', error);
+        if (current === playback) {
+            setState({ speakingId: null, isPreparing: false, error: { id, message: getErrorMessage(error, translate('chat.speech.failed')) } });
+        }
+    }
+};
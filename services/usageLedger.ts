@@ -0,0 +1,157 @@
+import { STORES, openDatabase, withStore } from './db';
+import { AiError } from './aiErrors';
+import { getActiveTier } from './entitlements';
+import { getLocale, translate } from './i18n';
+import type { UsageEntry } from '../types';
+
+// Local record of every AI call (tokens, model, feature and latency), written by the
+// metering wrapper in services/providers. It backs the usage dashboard and the
+// per-tier daily limits. Limits are checked in the browser, so they keep honest usage
+// within a plan rather than acting as a security boundary.
+
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Lets the dashboard refresh whenever a call is recorded or the history is cleared.
+export const subscribeToUsage = (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Thrown before a call is made once the active tier's daily limit has been reached.
+export class UsageLimitError extends AiError {
+    constructor(message: string) {
+        super('usage-limit', message);
+        this.name = 'UsageLimitError';
+    }
+}
+
+export const toDayKey = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const totalTokens = (entry: Pick<UsageEntry, 'promptTokens' | 'responseTokens'>) =>
+    entry.promptTokens + entry.responseTokens;
+
+// Failed calls are recorded for the dashboard but don't use up the daily allowance.
+const countsTowardLimit = (entry: UsageEntry) => entry.status !== 'error';
+
+export interface DailyTotals {
+    day: string;
+    requests: number;
+    tokens: number;
+}
+
+const sumDay = (day: string, entries: UsageEntry[]): DailyTotals => entries
+    .filter(countsTowardLimit)
+    .reduce((totals, entry) => ({
+        ...totals,
+        requests: totals.requests + 1,
+        tokens: totals.tokens + totalTokens(entry),
+    }), { day, requests: 0, tokens: 0 });
+
+// Today's totals, loaded once per day and then kept up to date by recordUsage, so the
+// limit check before each call doesn't read the whole day back from IndexedDB.
+let today: Promise<DailyTotals> | null = null;
+
+export const getTodayTotals = (): Promise<DailyTotals> => {
+    const day = toDayKey(Date.now());
+    if (!today) {
+        today = withStore(STORES.usage, 'readonly', store => store.index('day').getAll(day))
+            .then((entries: UsageEntry[]) => sumDay(day, entries));
+        today.catch(() => { today = null; });
+    }
+    return today.then(totals => {
+        if (totals.day === day) return totals;
+        today = null;
+        return getTodayTotals();
+    });
+};
+
+// Drops entries past the retention period; run once per session on the first write.
+let pruned = false;
+
+const pruneOldEntries = async () => {
+    pruned = true;
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.usage, 'readwrite');
+    const range = IDBKeyRange.upperBound(Date.now() - RETENTION_DAYS * DAY_MS);
+    const request = transaction.objectStore(STORES.usage).index('timestamp').openCursor(range);
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+    };
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const recordUsage = async (draft: Omit<UsageEntry, 'id' | 'day'>): Promise<UsageEntry> => {
+    const entry: UsageEntry = {
+        ...draft,
+        id: `${draft.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+        day: toDayKey(draft.timestamp),
+    };
+    // Totals requested before this write started won't include it; ones requested while it
+    // is in flight will, because IndexedDB runs the read after the write.
+    const totalsBefore = today;
+    await withStore(STORES.usage, 'readwrite', store => store.put(entry));
+    if (totalsBefore && today === totalsBefore && countsTowardLimit(entry)) {
+        today = totalsBefore.then(totals => totals.day !== entry.day ? totals : {
+            ...totals,
+            requests: totals.requests + 1,
+            tokens: totals.tokens + totalTokens(entry),
+        });
+    }
+    if (!pruned) {
+        pruneOldEntries().catch(error => console.error('Failed to prune usage history:', error));
+    }
+    notify();
+    return entry;
+};
+
+// Oldest first.
+export const listUsage = (since = 0): Promise<UsageEntry[]> =>
+    withStore(STORES.usage, 'readonly', store => store.index('timestamp').getAll(IDBKeyRange.lowerBound(since)));
+
+export const clearUsage = async () => {
+    await withStore(STORES.usage, 'readwrite', store => store.clear());
+    today = null;
+    notify();
+};
+
+const formatNumber = (value: number) => value.toLocaleString(getLocale());
+
+// Throws a UsageLimitError when the active tier has used up today's requests or tokens.
+// If the ledger can't be read (e.g. IndexedDB is unavailable) calls are let through.
+export const assertWithinDailyLimit = async () => {
+    const tier = getActiveTier();
+    const { dailyRequests, dailyTokens } = tier.quotas;
+    if (dailyRequests === null && dailyTokens === null) return;
+
+    let totals: DailyTotals;
+    try {
+        totals = await getTodayTotals();
+    } catch (error) {
+        console.error('Failed to read usage totals:', error);
+        return;
+    }
+
+    const tierName = translate(tier.name);
+    if (dailyRequests !== null && totals.requests >= dailyRequests) {
+        throw new UsageLimitError(translate('errors.dailyRequests', { tier: tierName, limit: formatNumber(dailyRequests) }));
+    }
+    if (dailyTokens !== null && totals.tokens >= dailyTokens) {
+        throw new UsageLimitError(translate('errors.dailyTokens', { tier: tierName, limit: formatNumber(dailyTokens) }));
+    }
+};
@@ -1,12 +1,123 @@
 
 import React from 'react';
+import type { MessageKey } from './services/i18n';
 
 export interface Feature {
   id: string;
-  name: string;
-  description: string;
-  isPremium: boolean;
+  // Message keys (locales/); render them with `t`.
+  name: MessageKey;
+  description: MessageKey;
   Icon: React.ComponentType<{ className?: string }>;
   component: React.ComponentType;
-  category: 'Gratis' | 'Premium';
+}
+
+export type TierId = 'free' | 'pro' | 'team';
+
+export interface TierQuotas {
+  // Largest file that can be attached to a chat message.
+  maxAttachmentMB: number;
+  // Most images a single image generation may return.
+  imagesPerGeneration: number;
+  // AI requests per day, or null for no limit.
+  dailyRequests: number | null;
+  // Prompt plus response tokens per day, or null for no limit.
+  dailyTokens: number | null;
+}
+
+export interface Tier {
+  id: TierId;
+  // Message key (locales/).
+  name: MessageKey;
+  // Ids of every feature this tier unlocks.
+  features: string[];
+  quotas: TierQuotas;
+}
+
+// The kind of model a feature's own calls use: the feature's model settings apply to
+// calls of this kind only (a story's illustrations keep the default image model).
+export type ModelKind = 'text' | 'image' | 'imageEdit' | 'video' | 'speech' | 'live';
+
+// The models a feature offers in the model settings (services/modelSettings.ts).
+export interface FeatureModels {
+  kind: ModelKind;
+  default: string;
+  // Other models the user may pick instead of the default.
+  alternatives: string[];
+}
+
+// One AI call, as kept in the local usage ledger (services/usageLedger.ts).
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  // Local calendar day, YYYY-MM-DD, so daily totals follow the user's clock.
+  day: string;
+  // null for calls made outside a feature (none at the moment, but the provider allows it).
+  featureId: string | null;
+  provider: string;
+  // The provider method, e.g. "generateText" or "chat".
+  operation: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  // Images or videos produced.
+  media: number;
+  // Token counts were estimated from text length because the backend didn't report them.
+  estimated: boolean;
+  latencyMs: number;
+  status: 'ok' | 'error' | 'aborted';
+}
+
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  // Base64 data URL, so attachments can be previewed, persisted and replayed to the model.
+  // Uploaded files keep only a small preview here, and only when they are images.
+  dataUrl?: string;
+  // In bytes.
+  size?: number;
+  // Set for files too large to send inline; the model reads them from the provider's
+  // file storage, which deletes them at `expiresAt`. Expired uploads are left out of the context.
+  upload?: { uri: string; expiresAt: number };
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  attachments?: ChatAttachment[];
+  // Set when the model turn failed; such turns are not sent back as context.
+  isError?: boolean;
+  // The reply was stopped by the user before it finished.
+  truncated?: boolean;
+  // Alternate versions of this turn and everything after it (e.g. an edited prompt).
+  // The transcript holds the active one, `versions[versionIndex]`; that slot is only
+  // refreshed when switching to another version.
+  versions?: ChatMessage[][];
+  versionIndex?: number;
+  // Tokens of a model turn as the provider reported them: the whole context that was
+  // sent (`promptTokens`) and the reply itself.
+  usage?: { promptTokens: number; responseTokens: number; estimated?: boolean };
+}
+
+// Older turns of a long conversation compressed into a summary, which is sent to the
+// model as context instead of them. The turns stay in the transcript.
+export interface ConversationSummary {
+  text: string;
+  // Messages before this index are covered by the summary.
+  upTo: number;
+  createdAt: number;
+  // The user changed the generated text.
+  edited?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  featureId: string;
+  personaId?: string;
+  title: string;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  // Summarize older turns automatically when the context grows large.
+  autoSummarize?: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
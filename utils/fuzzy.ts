@@ -0,0 +1,30 @@
+const WORD_BOUNDARY = /[\s\-_/.:(]/;
+
+// Scores how well `query` matches `text`, or null if it doesn't. A plain substring match
+// always beats a scattered one; otherwise the query's characters must appear in order,
+// with bonuses for consecutive characters and for characters that start a word.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    const atWordStart = index === 0 || WORD_BOUNDARY.test(t[index - 1]);
+    return 1000 - index + (atWordStart ? 100 : 0);
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    if (char === ' ') continue;
+    const found = t.indexOf(char, from);
+    if (found === -1) return null;
+    score += found === previous + 1 ? 5 : 1;
+    if (found === 0 || WORD_BOUNDARY.test(t[found - 1])) score += 3;
+    previous = found;
+    from = found + 1;
+  }
+  return score;
+};
@@ -13,6 +13,33 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Keeps the `data:` prefix, so the result can be used directly as an <img> src and stored as-is.
+export const fileToDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// A JPEG copy of an image scaled to fit `maxSize` pixels, as a data URL; null when the
+// browser can't decode the image.
+export const imageToPreviewDataUrl = async (file: Blob, maxSize = 480): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch {
+    return null;
+  }
+};
+
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -66,4 +93,11 @@ export const encode = (bytes: Uint8Array) => {
     binary += String.fromCharCode(bytes[i]);
   }
   return btoa(binary);
-}
\ No newline at end of file
+}
+
+// Rough token count for backends that don't report usage (about four characters per token).
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Human-readable size for file chips, e.g. "820 KB" or "12.5 MB".
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
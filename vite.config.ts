@@ -8,11 +8,24 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Access code checks run on the small server in server/ (npm run access-server).
+          // `xfwd` passes the browser's address on, so failed attempts are limited per client.
+          '/api': { target: `http://localhost:${env.ACCESS_SERVER_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_FEATURE_PROVIDERS': JSON.stringify(env.AI_FEATURE_PROVIDERS),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.OPENAI_TTS_MODEL': JSON.stringify(env.OPENAI_TTS_MODEL),
+        'process.env.OPENAI_TRANSCRIBE_MODEL': JSON.stringify(env.OPENAI_TRANSCRIBE_MODEL)
       },
       resolve: {
         alias: {